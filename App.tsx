@@ -1,19 +1,100 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Send, Settings as SettingsIcon, Menu, Bot, Loader2, StopCircle } from 'lucide-react';
-import { GenerateContentResponse, Chat } from '@google/genai';
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react';
+import { Send, Settings as SettingsIcon, Menu, Bot, Loader2, StopCircle, SlidersHorizontal, AlertTriangle, X, Info, Paperclip, Upload, Library, Columns2 } from 'lucide-react';
 
 import ChatList from './components/ChatList';
 import MessageBubble from './components/MessageBubble';
+import MessageList from './components/MessageList';
 import SettingsModal from './components/SettingsModal';
-import { ChatSession, Message, AppSettings, ModelIds } from './types';
-import { createChatSession, sendMessageStream, generateChatTitle } from './services/geminiService';
+import ChatSettingsModal from './components/ChatSettingsModal';
+import AttachmentList from './components/AttachmentList';
+import UsageMeter from './components/UsageMeter';
+import UsageModal from './components/UsageModal';
+import ContextDivider from './components/ContextDivider';
+import ComparisonBar from './components/ComparisonBar';
+import ComparisonView from './components/ComparisonView';
+import SlashCommandMenu from './components/SlashCommandMenu';
+import TemplateLibraryModal from './components/TemplateLibraryModal';
+import TemplateVariablesModal from './components/TemplateVariablesModal';
+import { Attachment, ChatSession, ComparisonTarget, ContextSummary, Message, AppSettings, ModelIds, ProviderChat, ProviderIds, PersonaPreset, PromptTemplate, SavedSchema, SessionOrganization, SessionSettings, SessionSortOrders, TokenUsage, ToolCall, ToolContext, UsageLedger } from './types';
+import { getChatProvider, getModelLabel } from './services/chatProvider';
+import { getActivePath, getLatestLeafId, getPathTo, groupByParent, linkLegacyMessages, upgradeLegacyErrors } from './services/messageHistory';
+import { ChatError, getErrorGuidance, MAX_RETRIES, toChatError, withRetry } from './services/errorService';
+import { DEFAULT_CONTEXT_SETTINGS, DEFAULT_ENABLED_TOOLS, DEFAULT_GENERATION_SETTINGS, DEFAULT_GROUNDING_SETTINGS, DEFAULT_STRUCTURED_OUTPUT_SETTINGS, normalizeSessionSettings, pickSessionSettings, resolveSettings } from './services/sessionSettings';
+import {
+  isQuotaError,
+  loadSessions,
+  loadValue,
+  saveSessionChanges,
+  saveValue,
+  updateValue,
+  VALUE_KEY_PRESETS,
+  VALUE_KEY_SCHEMAS,
+  VALUE_KEY_SETTINGS,
+  VALUE_KEY_TEMPLATES,
+  VALUE_KEY_USAGE,
+} from './services/storageService';
+import { ACCEPTED_FILE_TYPES, readAttachment } from './services/attachmentService';
+import { ContextPlan, getContextStatuses, planContext, withSummary } from './services/contextService';
+import { addTokenUsage, addToUsageLedger, buildUsageLedger, DEFAULT_MODEL_PRICING, getContextWindow, getMessageCost, getMonthKey, getSessionUsage } from './services/usageService';
+import { executeToolCall, getTool, getToolDeclarations, MAX_TOOL_ROUNDS } from './services/toolService';
+import { downloadFile, exportSessions, ExportFormat, importSessions } from './services/exportService';
+import { DEFAULT_TEMPLATES, exportTemplates, getTemplateVariables, importTemplates } from './services/templateService';
+import { createFrameBatcher } from './services/frameBatcher';
+import { applyComparisonTarget, createComparisonTargets, getComparisonLabel, getComparisonReplies, getUndecidedComparison } from './services/comparisonService';
+import { getResponseSchema, validateStructuredReply } from './services/jsonSchemaService';
+import { acquireStreamLock, createSessionChangeApplier, getChangedSessionIds, hasSessionChanges, publishSync, subscribeSync, watchStreamLocks } from './services/syncService';
+import { getSlashMenuItems, parseSlashCommand, ParsedSlashCommand, resolveExportFormat, resolveModelArgument, SlashCommands, SlashMenuItem } from './services/slashCommands';
 
-const STORAGE_KEY_SESSIONS = 'gemini_chat_sessions';
-const STORAGE_KEY_SETTINGS = 'gemini_chat_settings';
+// A provider chat plus the conversation point its in-memory history has reached
+interface ChatInstance {
+  chat: ProviderChat;
+  sessionId: string;
+  leafId: string | null;
+  // Which messages the instance was given as context; a change means it has to be rebuilt
+  contextKey: string;
+}
+
+// Prompt size of the branch shown, tagged with its session so a stale count is never shown for another chat
+interface ContextCount {
+  sessionId: string;
+  tokens: number;
+}
+
+interface Notice {
+  tone: 'info' | 'warning';
+  text: string;
+  // Optional button shown next to the text, e.g. to undo what the notice reports
+  action?: { label: string; onClick: () => void };
+}
+
+// How long deleted chats can be restored from the notice
+const UNDO_TIMEOUT_MS = 8000;
 
 const DEFAULT_SETTINGS: AppSettings = {
   systemInstruction: "You are a helpful and intelligent AI assistant powered by Google's Gemini models. Be concise, accurate, and use Markdown for formatting.",
   model: ModelIds.FLASH,
+  provider: ProviderIds.GEMINI,
+  generation: DEFAULT_GENERATION_SETTINGS,
+  context: DEFAULT_CONTEXT_SETTINGS,
+  enabledTools: DEFAULT_ENABLED_TOOLS,
+  grounding: DEFAULT_GROUNDING_SETTINGS,
+  structuredOutput: DEFAULT_STRUCTURED_OUTPUT_SETTINGS,
+  geminiProxyUrl: process.env.GEMINI_PROXY_URL || '',
+  geminiKeyProfiles: [],
+  activeGeminiKeyProfileId: null,
+  openAiBaseUrl: 'http://localhost:11434/v1',
+  openAiApiKey: '',
+  pricing: DEFAULT_MODEL_PRICING,
+  chatListSort: SessionSortOrders.UPDATED,
+};
+
+// Returns a function with a fixed identity that always calls the latest `callback`
+const useStableCallback = <Args extends unknown[], Result>(callback: (...args: Args) => Result) => {
+  const callbackRef = useRef(callback);
+  useLayoutEffect(() => {
+    callbackRef.current = callback;
+  });
+  return useCallback((...args: Args) => callbackRef.current(...args), []);
 };
 
 function App() {
@@ -21,49 +102,180 @@ function App() {
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
   const [input, setInput] = useState('');
+  const [pendingAttachments, setPendingAttachments] = useState<Attachment[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isChatSettingsOpen, setIsChatSettingsOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [presets, setPresets] = useState<PersonaPreset[]>([]);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [schemas, setSchemas] = useState<SavedSchema[]>([]);
+  const [usageLedger, setUsageLedger] = useState<UsageLedger>({});
+  const [isTemplateLibraryOpen, setIsTemplateLibraryOpen] = useState(false);
+  // Template whose variables are being filled in
+  const [fillingTemplate, setFillingTemplate] = useState<PromptTemplate | null>(null);
+  const [slashMenuIndex, setSlashMenuIndex] = useState(0);
+  // Escape hides the slash menu until the input changes
+  const [isSlashMenuDismissed, setIsSlashMenuDismissed] = useState(false);
+  const [isStorageReady, setIsStorageReady] = useState(false);
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [contextCount, setContextCount] = useState<ContextCount | null>(null);
+  // Sessions another tab is streaming a reply into
+  const [lockedSessionIds, setLockedSessionIds] = useState<Set<string>>(() => new Set());
+  // Configurations the next message is sent to side by side; null when compare mode is off
+  const [comparisonTargets, setComparisonTargets] = useState<ComparisonTarget[] | null>(null);
+  const isLockedElsewhere = !!currentSessionId && lockedSessionIds.has(currentSessionId);
   
   // Refs
-  const chatInstanceRef = useRef<Chat | null>(null);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const chatInstanceRef = useRef<ChatInstance | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Resolvers for tool calls waiting on the user's approval, keyed by call id
+  const toolConfirmationsRef = useRef(new Map<string, (approved: boolean) => void>());
+  // Last session list handed to storage; null means the next save must rewrite everything
+  const persistedSessionsRef = useRef<ChatSession[] | null>(null);
+  // Values last received from another tab, which are not saved again
+  const remoteValuesRef = useRef(new Map<string, unknown>());
+
+  const reportStorageError = (error: unknown) => {
+    console.error("Failed to save to storage", error);
+    setNotice({
+      tone: 'warning',
+      text: isQuotaError(error)
+        ? "Browser storage is full. Recent changes are kept in this tab but were not saved. Delete old chats to free up space."
+        : "Recent changes could not be saved to browser storage. They are kept in this tab for now.",
+    });
+  };
 
   // Load data on mount
   useEffect(() => {
-    const savedSessions = localStorage.getItem(STORAGE_KEY_SESSIONS);
-    const savedSettings = localStorage.getItem(STORAGE_KEY_SETTINGS);
-
-    if (savedSessions) {
+    const load = async () => {
       try {
-        setSessions(JSON.parse(savedSessions));
-      } catch (e) {
-        console.error("Failed to parse sessions", e);
-      }
-    }
+        const [savedSettings, savedPresets, savedTemplates, savedSchemas, savedSessions] = await Promise.all([
+          loadValue<AppSettings>(VALUE_KEY_SETTINGS),
+          loadValue<PersonaPreset[]>(VALUE_KEY_PRESETS),
+          loadValue<PromptTemplate[]>(VALUE_KEY_TEMPLATES),
+          loadValue<SavedSchema[]>(VALUE_KEY_SCHEMAS),
+          loadSessions(),
+        ]);
 
-    if (savedSettings) {
-      try {
-        setSettings(JSON.parse(savedSettings));
+        // Merge with defaults so data saved by older versions picks up new fields
+        const loadedSettings = normalizeSessionSettings(savedSettings, DEFAULT_SETTINGS);
+        loadedSettings.pricing = { ...DEFAULT_MODEL_PRICING, ...savedSettings?.pricing };
+        const defaults = pickSessionSettings(loadedSettings);
+        const loadedSessions = savedSessions.map(s => ({
+          ...s,
+          messages: upgradeLegacyErrors(linkLegacyMessages(s.messages)),
+          settings: normalizeSessionSettings(s.settings, defaults),
+        }));
+        // Data saved before usage was recorded separately starts from the replies still stored
+        const ledger = await updateValue<UsageLedger>(VALUE_KEY_USAGE, saved => saved ?? buildUsageLedger(loadedSessions));
+
+        setSettings(loadedSettings);
+        setPresets((savedPresets || []).map(p => ({ ...p, settings: normalizeSessionSettings(p.settings, defaults) })));
+        setTemplates(savedTemplates ?? DEFAULT_TEMPLATES);
+        setSchemas(savedSchemas || []);
+        setUsageLedger(ledger);
+        setSessions(loadedSessions);
+        persistedSessionsRef.current = loadedSessions;
+        setIsStorageReady(true);
       } catch (e) {
-        console.error("Failed to parse settings", e);
+        // Leave storage untouched so a failed load can never overwrite saved chats
+        console.error("Failed to load saved data", e);
+        setNotice({ tone: 'warning', text: "Saved chats could not be loaded. Changes made now will not be saved." });
       }
-    }
+    };
+    load();
   }, []);
 
-  // Save sessions whenever they change
+  // Save sessions whenever they change, writing only what changed
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_SESSIONS, JSON.stringify(sessions));
-  }, [sessions]);
+    if (!isStorageReady) return;
+    const prev = persistedSessionsRef.current;
+    persistedSessionsRef.current = sessions;
+    saveSessionChanges(prev, sessions).then(changes => {
+      if (hasSessionChanges(changes)) publishSync({ type: 'sessions', changes });
+    }).catch(error => {
+      persistedSessionsRef.current = null;
+      reportStorageError(error);
+    });
+  }, [sessions, isStorageReady]);
+
+  // Saves a value and tells the other tabs, unless it just came from one of them
+  const saveSharedValue = (key: string, value: unknown) => {
+    if (remoteValuesRef.current.get(key) === value) return;
+    remoteValuesRef.current.delete(key);
+    saveValue(key, value).then(() => publishSync({ type: 'value', key, value })).catch(reportStorageError);
+  };
+
+  // Adds a finished reply's usage to the monthly totals, which outlive the chats it was spent in
+  const recordUsage = (model: string, usage: TokenUsage) => {
+    updateValue<UsageLedger>(VALUE_KEY_USAGE, ledger => addToUsageLedger(ledger ?? {}, getMonthKey(Date.now()), model, usage))
+      .then(ledger => {
+        setUsageLedger(ledger);
+        publishSync({ type: 'value', key: VALUE_KEY_USAGE, value: ledger });
+      })
+      .catch(reportStorageError);
+  };
 
   // Save settings
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(settings));
-    // If settings change, we should probably reset the chat instance to apply new instructions
+    if (isStorageReady) {
+      saveSharedValue(VALUE_KEY_SETTINGS, settings);
+    }
+    // Connection details may have changed, so rebuild the chat instance on the next message
     chatInstanceRef.current = null;
-  }, [settings]);
+  }, [settings, isStorageReady]);
+
+  // Save presets
+  useEffect(() => {
+    if (!isStorageReady) return;
+    saveSharedValue(VALUE_KEY_PRESETS, presets);
+  }, [presets, isStorageReady]);
+
+  // Save templates
+  useEffect(() => {
+    if (!isStorageReady) return;
+    saveSharedValue(VALUE_KEY_TEMPLATES, templates);
+  }, [templates, isStorageReady]);
+
+  // Save schemas
+  useEffect(() => {
+    if (!isStorageReady) return;
+    saveSharedValue(VALUE_KEY_SCHEMAS, schemas);
+  }, [schemas, isStorageReady]);
+
+  // Pick up what other tabs save, so every open tab shows the same chats and settings
+  useEffect(() => {
+    if (!isStorageReady) return;
+    return subscribeSync(message => {
+      if (message.type === 'sessions') {
+        // Applied to the saved snapshot too, so the merged sessions are not written back
+        const apply = createSessionChangeApplier(message.changes);
+        const persisted = persistedSessionsRef.current;
+        persistedSessionsRef.current = persisted && apply(persisted);
+        setSessions(prev => apply(prev));
+        const instance = chatInstanceRef.current;
+        if (instance && getChangedSessionIds(message.changes).has(instance.sessionId)) {
+          chatInstanceRef.current = null;
+        }
+      } else if (message.type === 'value') {
+        remoteValuesRef.current.set(message.key, message.value);
+        if (message.key === VALUE_KEY_SETTINGS) setSettings(message.value as AppSettings);
+        else if (message.key === VALUE_KEY_PRESETS) setPresets(message.value as PersonaPreset[]);
+        else if (message.key === VALUE_KEY_TEMPLATES) setTemplates(message.value as PromptTemplate[]);
+        else if (message.key === VALUE_KEY_SCHEMAS) setSchemas(message.value as SavedSchema[]);
+        else if (message.key === VALUE_KEY_USAGE) setUsageLedger(message.value as UsageLedger);
+      }
+    });
+  }, [isStorageReady]);
+
+  useEffect(() => watchStreamLocks(setLockedSessionIds), []);
 
   // Auto-resize textarea
   useEffect(() => {
@@ -73,177 +285,934 @@ function App() {
     }
   }, [input]);
 
-  // Scroll to bottom on new messages
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  };
-
+  // Flash a message opened from search briefly; the message list scrolls it into view
   useEffect(() => {
-    scrollToBottom();
-  }, [currentSessionId, sessions]); // Also scroll when switching sessions
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId, currentSessionId]);
 
   const getCurrentSession = () => sessions.find(s => s.id === currentSessionId);
 
-  // Initialize or retrieve chat instance
-  const getChatInstance = async () => {
-    if (!chatInstanceRef.current) {
-        chatInstanceRef.current = createChatSession(settings.systemInstruction, settings.model);
-        
-        // If we are continuing an existing session, we need to "replay" history into the chat context
-        // However, the SDK Chat object is stateful. Re-creating it wipes context.
-        // For a robust implementation without assuming `history` param exists in the new SDK (as it wasn't in the prompt examples),
-        // we will treat the visual history as separate from the model context if the user refreshes.
-        // *Improvement*: To make context work across reloads, we would ideally pass history to createChatSession.
-        // Since we can't rely on that API surface being available in this specific constrained prompt context, 
-        // we will simply acknowledge that context is fresh on reload/session switch, 
-        // OR we can send the history as a priming prompt (hacky).
-        
-        // *Best Effort*: We will just use the chat instance for the active session. 
-        // If the user switches back to an old session, the model won't "remember" the previous context 
-        // unless we replay it. For this demo, we will prioritize the "System Instructions" working perfectly.
-        
-        // If the current session has history, we *could* try to replay it silently, but that consumes tokens and quota.
-        // Let's stick to: New Session = Fresh Context. Switching Session = Fresh Context (but history is visible).
-        // This is a common pattern in simple LLM apps unless specific history hydration APIs are used.
+  // Folds messages that fell out of the context into the session's rolling summary.
+  // Returns the summary to use, which is the previous one when summarizing fails.
+  const updateContextSummary = async (session: ChatSession, sessionSettings: AppSettings, plan: ContextPlan) => {
+    try {
+      const content = await getChatProvider(sessionSettings)
+        .summarizeConversation(plan.unsummarized, plan.summary?.content, sessionSettings.model);
+      const summary: ContextSummary = {
+        content,
+        coveredMessageId: plan.unsummarized[plan.unsummarized.length - 1].id,
+        createdAt: Date.now(),
+      };
+      setSessions(prev => prev.map(s => s.id === session.id ? { ...s, contextSummary: summary } : s));
+      return summary;
+    } catch (error) {
+      console.error("Failed to summarize older messages", error);
+      setNotice({ tone: 'warning', text: "Older messages could not be summarized, so they were left out of the context for this message." });
+      return plan.summary;
     }
-    return chatInstanceRef.current;
   };
 
-  const handleNewChat = () => {
-    const newSession: ChatSession = {
-      id: crypto.randomUUID(),
-      title: 'New Chat',
-      messages: [],
-      createdAt: Date.now(),
-      lastUpdated: Date.now(),
+  // Starts a provider chat seeded with the planned context, ready for the turn the plan ends with
+  const createProviderChat = (sessionSettings: AppSettings, plan: ContextPlan, summary: ContextSummary | undefined) =>
+    getChatProvider(sessionSettings).createChatSession({
+      ...pickSessionSettings(sessionSettings),
+      systemInstruction: withSummary(sessionSettings.systemInstruction, summary?.content),
+      // The plan ends with the message about to be sent, which is not part of the history
+      history: plan.included.slice(0, -1),
+      // A reply that must be JSON cannot stop halfway to call a tool
+      tools: sessionSettings.structuredOutput.enabled ? [] : getToolDeclarations(sessionSettings.enabledTools),
+    });
+
+  // Initialize or retrieve chat instance, replaying the part of the branch the context strategy keeps.
+  // The cached instance is only reused when its in-memory history ends where this turn starts
+  // and the same older messages are still in context.
+  const getChatInstance = async (session: ChatSession, history: Message[], userMessage: Message) => {
+    const sessionSettings = resolveSettings(session, settings);
+    const plan = planContext(
+      [...history, userMessage],
+      sessionSettings.context,
+      sessionSettings.systemInstruction,
+      session.contextSummary
+    );
+    const leafId = history.length > 0 ? history[history.length - 1].id : null;
+    // Identifies the excluded messages and the summary that covers them once this turn is sent
+    const summarizedUpTo = plan.unsummarized.length > 0
+      ? plan.unsummarized[plan.unsummarized.length - 1].id
+      : plan.summary?.coveredMessageId;
+    const contextKey = `${plan.excluded.length}:${summarizedUpTo ?? ''}`;
+    const cached = chatInstanceRef.current;
+    if (cached && cached.sessionId === session.id && cached.leafId === leafId && cached.contextKey === contextKey) {
+      return cached;
+    }
+
+    const summary = plan.unsummarized.length > 0
+      ? await updateContextSummary(session, sessionSettings, plan)
+      : plan.summary;
+    chatInstanceRef.current = {
+      chat: createProviderChat(sessionSettings, plan, summary),
+      sessionId: session.id,
+      leafId,
+      contextKey,
     };
+    return chatInstanceRef.current;
+  };
+
+  // Adds a message to a session and makes it the tip of the active branch
+  const appendMessage = (sessionId: string, message: Message) => {
+    setSessions(prev => prev.map(s =>
+      s.id === sessionId
+        ? { ...s, messages: [...s.messages, message], activeLeafId: message.id, lastUpdated: Date.now() }
+        : s
+    ));
+  };
+
+  const updateMessage = (sessionId: string, messageId: string, patch: Partial<Message>) => {
+    setSessions(prev => prev.map(s =>
+      s.id === sessionId
+        ? { ...s, messages: s.messages.map(m => m.id === messageId ? { ...m, ...patch } : m) }
+        : s
+    ));
+  };
+
+  const createSession = (sessionSettings: SessionSettings): ChatSession => ({
+    id: crypto.randomUUID(),
+    title: 'New Chat',
+    messages: [],
+    createdAt: Date.now(),
+    lastUpdated: Date.now(),
+    settings: pickSessionSettings(sessionSettings),
+  });
+
+  const handleNewChat = (presetId?: string) => {
+    const preset = presets.find(p => p.id === presetId);
+    const newSession = createSession(preset ? preset.settings : settings);
     setSessions(prev => [newSession, ...prev]);
     setCurrentSessionId(newSession.id);
     chatInstanceRef.current = null; // Reset chat instance for fresh context
   };
 
-  const handleDeleteSession = (id: string, e: React.MouseEvent) => {
-    e.stopPropagation();
-    setSessions(prev => prev.filter(s => s.id !== id));
-    if (currentSessionId === id) {
+  // Deletes right away and offers an undo for a few seconds instead of asking for confirmation
+  const handleDeleteSessions = (ids: string[]) => {
+    const deleted = sessions.filter(s => ids.includes(s.id));
+    if (deleted.length === 0) return;
+    setSessions(prev => prev.filter(s => !ids.includes(s.id)));
+    if (currentSessionId && ids.includes(currentSessionId)) {
       setCurrentSessionId(null);
       chatInstanceRef.current = null;
     }
+
+    const deletedNotice: Notice = {
+      tone: 'info',
+      text: deleted.length === 1 ? `Deleted "${deleted[0].title}".` : `Deleted ${deleted.length} chats.`,
+      action: {
+        label: 'Undo',
+        onClick: () => {
+          setSessions(prev => [...deleted.filter(d => !prev.some(s => s.id === d.id)), ...prev]);
+          setNotice(null);
+        },
+      },
+    };
+    setNotice(deletedNotice);
+    setTimeout(() => setNotice(prev => (prev === deletedNotice ? null : prev)), UNDO_TIMEOUT_MS);
+  };
+
+  const handleRenameSession = (id: string, title: string) => {
+    setSessions(prev => prev.map(s => (s.id === id ? { ...s, title } : s)));
+  };
+
+  // Organizing a chat does not count as activity, so lastUpdated is left alone
+  const handleOrganizeSessions = (ids: string[], patch: SessionOrganization) => {
+    setSessions(prev => prev.map(s => (ids.includes(s.id) ? { ...s, ...patch } : s)));
+  };
+
+  // Waits until the user allows or denies a tool call; stopping generation counts as denying it
+  const requestToolConfirmation = (callId: string, signal: AbortSignal) =>
+    new Promise<boolean>(resolve => {
+      if (signal.aborted) {
+        resolve(false);
+        return;
+      }
+      const settle = (approved: boolean) => {
+        signal.removeEventListener('abort', onAbort);
+        toolConfirmationsRef.current.delete(callId);
+        resolve(approved);
+      };
+      const onAbort = () => settle(false);
+      signal.addEventListener('abort', onAbort, { once: true });
+      toolConfirmationsRef.current.set(callId, settle);
+    });
+
+  const handleConfirmToolCall = (callId: string, approved: boolean) => {
+    toolConfirmationsRef.current.get(callId)?.(approved);
+  };
+
+  /**
+   * Streams a model reply to `userMessage`, which must already be stored in the session.
+   * `history` is the branch leading up to the user message and becomes the model's context.
+   * The reply is added as a new child of the user message, so regenerating creates a sibling.
+   * When the model calls tools, they run here and their results are sent back until it answers in text.
+   */
+  const streamReply = async (session: ChatSession, history: Message[], userMessage: Message): Promise<boolean> => {
+    const sessionId = session.id;
+    const { model, structuredOutput } = resolveSettings(session, settings);
+    const responseSchema = getResponseSchema(structuredOutput);
+    // Only one tab streams into a session at a time, so their replies cannot overwrite each other
+    const releaseLock = await acquireStreamLock(sessionId);
+    if (!releaseLock) {
+      setNotice({ tone: 'warning', text: "Another tab is writing a reply in this chat. Wait for it to finish, then try again." });
+      return false;
+    }
+    setIsGenerating(true);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let botMessageId: string | null = null;
+    let fullResponseText = '';
+    let fullThoughtText = '';
+    let toolCalls: ToolCall[] = [];
+    // Summed over the tool rounds of the reply
+    let usage: TokenUsage | undefined;
+    // Chunks can arrive faster than the screen refreshes, so the reply is updated once per frame
+    const botUpdates = createFrameBatcher<Partial<Message>>(patch => {
+      if (botMessageId) updateMessage(sessionId, botMessageId, patch);
+    });
+
+    // Shown while a transient failure is retried, and cleared once a request gets through
+    let retryNotice: Notice | null = null;
+    const clearRetryNotice = () => {
+      const shown = retryNotice;
+      if (shown) setNotice(prev => (prev === shown ? null : prev));
+      retryNotice = null;
+    };
+    const retryOptions = {
+      signal: abortController.signal,
+      onRetry: (error: ChatError, attempt: number, delayMs: number) => {
+        retryNotice = {
+          tone: 'info',
+          text: `${getErrorGuidance(error.kind).title}. Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt} of ${MAX_RETRIES})…`,
+        };
+        setNotice(retryNotice);
+      },
+    };
+
+    // Checks a structured reply against its schema once no more text is coming
+    const validateReply = (): Partial<Message> => responseSchema === undefined ? {} : {
+      structured: { schemaName: structuredOutput.name, errors: validateStructuredReply(fullResponseText, responseSchema) },
+    };
+
+    // Replaces a call in the reply's trace with its latest state
+    const setToolCall = (call: ToolCall) => {
+      toolCalls = toolCalls.map(c => (c.id === call.id ? call : c));
+      botUpdates.update({ toolCalls });
+    };
+
+    const runToolCall = async (call: ToolCall, context: ToolContext): Promise<ToolCall> => {
+      if (getTool(call.name)?.requiresConfirmation) {
+        setToolCall({ ...call, status: 'awaiting-confirmation' });
+        if (!(await requestToolConfirmation(call.id, abortController.signal))) {
+          const denied: ToolCall = { ...call, status: 'denied', error: 'The user declined to run this tool.' };
+          setToolCall(denied);
+          return denied;
+        }
+      }
+      setToolCall({ ...call, status: 'running' });
+      const finished = await executeToolCall(call, context);
+      setToolCall(finished);
+      return finished;
+    };
+
+    try {
+      const chatInstance = await getChatInstance(session, history, userMessage);
+      let streamResult = await withRetry(
+        () => chatInstance.chat.sendMessageStream(userMessage, abortController.signal),
+        retryOptions
+      );
+      clearRetryNotice();
+
+      // Create placeholder for AI response
+      botMessageId = crypto.randomUUID();
+      const initialBotMessage: Message = {
+        id: botMessageId,
+        parentId: userMessage.id,
+        role: 'model',
+        content: '',
+        timestamp: Date.now(),
+        model,
+        ...(responseSchema !== undefined ? { structured: { schemaName: structuredOutput.name } } : {}),
+      };
+      appendMessage(sessionId, initialBotMessage);
+
+      const toolContext: ToolContext = { sessions, signal: abortController.signal };
+
+      // Each round streams text and may end with tool calls, whose results start the next round
+      for (let round = 0; ; round++) {
+        let requestedCalls: ToolCall[] = [];
+        let roundUsage: TokenUsage | undefined;
+        let hasRoundThought = false;
+
+        for await (const chunk of streamResult) {
+          if (abortController.signal.aborted) break;
+          if (chunk.thought) {
+              // Every round thinks again; its summary starts a new paragraph below the previous one
+              fullThoughtText += hasRoundThought || !fullThoughtText ? chunk.thought : `\n\n${chunk.thought}`;
+              hasRoundThought = true;
+              botUpdates.update({ thoughts: fullThoughtText });
+          }
+          const chunkText = chunk.text;
+          if (chunkText) {
+              fullResponseText += chunkText;
+              // Update the bot message content in real-time
+              botUpdates.update({ content: fullResponseText });
+          }
+          if (chunk.usage) {
+              roundUsage = chunk.usage;
+          }
+          if (chunk.toolCalls) {
+              requestedCalls = [...requestedCalls, ...chunk.toolCalls];
+          }
+          if (chunk.grounding) {
+              // Grounded requests carry no function tools, so the whole reply is one round and offsets line up
+              botUpdates.update({ grounding: chunk.grounding });
+          }
+        }
+
+        if (roundUsage) {
+          usage = addTokenUsage(usage, roundUsage);
+          botUpdates.update({ usage });
+        }
+        if (abortController.signal.aborted || requestedCalls.length === 0) break;
+
+        toolCalls = [...toolCalls, ...requestedCalls];
+        botUpdates.update({ toolCalls });
+
+        if (round >= MAX_TOOL_ROUNDS) {
+          // The model ignored the limit below; end the reply rather than loop
+          requestedCalls.forEach(call => setToolCall({ ...call, status: 'error', error: 'Tool call limit reached.' }));
+          chatInstanceRef.current = null;
+          botUpdates.update({ status: 'complete' });
+          return true;
+        }
+
+        const results: ToolCall[] = [];
+        for (const call of requestedCalls) {
+          if (round === MAX_TOOL_ROUNDS - 1) {
+            // Last round: refuse the calls so the model has to answer with what it has
+            const refused: ToolCall = { ...call, status: 'error', error: `Tool call limit of ${MAX_TOOL_ROUNDS} rounds reached. Answer with the information you have.` };
+            setToolCall(refused);
+            results.push(refused);
+          } else {
+            results.push(await runToolCall(call, toolContext));
+          }
+        }
+        if (abortController.signal.aborted) break;
+
+        streamResult = await withRetry(
+          () => chatInstance.chat.sendToolResults(results, abortController.signal),
+          retryOptions
+        );
+        clearRetryNotice();
+      }
+
+      if (abortController.signal.aborted) {
+        throw new DOMException('Generation stopped by user', 'AbortError');
+      }
+
+      // The chat instance now holds this turn, so the next message can reuse it
+      chatInstance.leafId = botMessageId;
+      botUpdates.update({ status: 'complete', ...validateReply() });
+      return true;
+
+    } catch (error) {
+      // Calls that never finished are recorded as failed, so replaying the reply gives the model an answer for each
+      toolCalls
+        .filter(call => call.status === 'pending' || call.status === 'awaiting-confirmation' || call.status === 'running')
+        .forEach(call => setToolCall({ ...call, status: 'error', error: 'Stopped before the tool finished.' }));
+
+      if (abortController.signal.aborted) {
+        // Keep whatever was streamed so far and flag it, rather than reporting an error
+        if (botMessageId) {
+          botUpdates.update({ status: 'complete', interrupted: true, ...validateReply() });
+        }
+        // The SDK chat never recorded the aborted turn, so rebuild it from stored messages next time
+        chatInstanceRef.current = null;
+        return false;
+      }
+
+      console.error("Generation error", error);
+      // A failure midway through a tool round leaves the provider chat with an unanswered turn
+      chatInstanceRef.current = null;
+      const chatError = toChatError(error);
+      // A connection lost after part of the answer arrived leaves a truncated reply
+      const kind = fullResponseText && (chatError.kind === 'network' || chatError.kind === 'unknown')
+        ? 'interrupted'
+        : chatError.kind;
+      const failure: Partial<Message> = { status: 'error', error: { kind, message: chatError.message } };
+      if (botMessageId) {
+        // Keep what was streamed, so the user can see how far the reply got
+        botUpdates.update(failure);
+      } else {
+        appendMessage(sessionId, {
+          id: crypto.randomUUID(),
+          parentId: userMessage.id,
+          role: 'model',
+          content: '',
+          timestamp: Date.now(),
+          model,
+          ...failure,
+        });
+      }
+      return false;
+    } finally {
+      botUpdates.flush();
+      // Stopped and failed replies were billed for what they used too
+      if (usage) recordUsage(model, usage);
+      clearRetryNotice();
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+      releaseLock();
+      setIsGenerating(false);
+    }
+  };
+
+  /**
+   * Streams answers to `userMessage` from several configurations at once, each added as a reply to it.
+   * They share the history and system instruction, and run without tools. The branch stays at the
+   * user message until one of the answers is chosen to continue the conversation.
+   */
+  const streamComparison = async (
+    session: ChatSession,
+    history: Message[],
+    userMessage: Message,
+    targets: ComparisonTarget[]
+  ): Promise<boolean> => {
+    const sessionId = session.id;
+    const releaseLock = await acquireStreamLock(sessionId);
+    if (!releaseLock) {
+      setNotice({ tone: 'warning', text: "Another tab is writing a reply in this chat. Wait for it to finish, then try again." });
+      return false;
+    }
+    setIsGenerating(true);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const { signal } = abortController;
+    const sessionSettings = resolveSettings(session, settings);
+    const groupId = crypto.randomUUID();
+
+    const streamTarget = async (target: ComparisonTarget, reply: Message, plan: ContextPlan, summary: ContextSummary | undefined) => {
+      const updates = createFrameBatcher<Partial<Message>>(patch => updateMessage(sessionId, reply.id, patch));
+      const startedAt = performance.now();
+      let content = '';
+      let thoughts = '';
+      let usage: TokenUsage | undefined;
+      let firstTokenMs: number | undefined;
+      const getLatency = () => ({ firstTokenMs, totalMs: performance.now() - startedAt });
+
+      try {
+        const chat = createProviderChat(applyComparisonTarget(sessionSettings, target), plan, summary);
+        const stream = await withRetry(() => chat.sendMessageStream(userMessage, signal), { signal });
+        for await (const chunk of stream) {
+          if (signal.aborted) break;
+          if (chunk.text) {
+            firstTokenMs ??= performance.now() - startedAt;
+            content += chunk.text;
+            updates.update({ content });
+          }
+          if (chunk.thought) {
+            thoughts += chunk.thought;
+            updates.update({ thoughts });
+          }
+          if (chunk.usage) {
+            usage = chunk.usage;
+            updates.update({ usage });
+          }
+        }
+        updates.update({ status: 'complete', latency: getLatency(), ...(signal.aborted ? { interrupted: true } : {}) });
+        return !signal.aborted;
+      } catch (error) {
+        if (signal.aborted) {
+          updates.update({ status: 'complete', interrupted: true, latency: getLatency() });
+          return false;
+        }
+        console.error("Comparison error", error);
+        const chatError = toChatError(error);
+        const kind = content && (chatError.kind === 'network' || chatError.kind === 'unknown') ? 'interrupted' : chatError.kind;
+        updates.update({ status: 'error', error: { kind, message: chatError.message }, latency: getLatency() });
+        return false;
+      } finally {
+        updates.flush();
+        if (usage) recordUsage(target.model, usage);
+      }
+    };
+
+    try {
+      const plan = planContext([...history, userMessage], sessionSettings.context, sessionSettings.systemInstruction, session.contextSummary);
+      const summary = plan.unsummarized.length > 0
+        ? await updateContextSummary(session, sessionSettings, plan)
+        : plan.summary;
+
+      const replies = targets.map(target => ({
+        target,
+        reply: {
+          id: crypto.randomUUID(),
+          parentId: userMessage.id,
+          role: 'model',
+          content: '',
+          timestamp: Date.now(),
+          model: target.model,
+          comparison: { groupId, label: getComparisonLabel(sessionSettings, target) },
+        } satisfies Message,
+      }));
+      // The branch is left at the user message, so nothing continues until an answer is chosen
+      setSessions(prev => prev.map(s =>
+        s.id === sessionId
+          ? { ...s, messages: [...s.messages, ...replies.map(r => r.reply)], activeLeafId: userMessage.id, lastUpdated: Date.now() }
+          : s
+      ));
+
+      const results = await Promise.all(replies.map(({ target, reply }) => streamTarget(target, reply, plan, summary)));
+      return results.some(Boolean);
+    } finally {
+      // The cached chat never saw this turn
+      chatInstanceRef.current = null;
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+      releaseLock();
+      setIsGenerating(false);
+    }
+  };
+
+  // Validates and queues files from the picker, a paste or a drop; rejected files are reported together
+  const handleAddFiles = async (files: File[]) => {
+    const queued = [...pendingAttachments];
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        queued.push(await readAttachment(file, queued));
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+    setPendingAttachments(queued);
+    if (errors.length > 0) {
+      setNotice({ tone: 'warning', text: errors.join(' ') });
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    handleAddFiles(files);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    handleAddFiles(Array.from(e.dataTransfer.files));
   };
 
   const handleSendMessage = async () => {
-    if (!input.trim() || isGenerating) return;
+    const command = parseSlashCommand(input);
+    if (command && pendingAttachments.length === 0) {
+      runSlashCommand(command);
+      return;
+    }
+    if ((!input.trim() && pendingAttachments.length === 0) || isGenerating || isLockedElsewhere) return;
 
-    let sessionId = currentSessionId;
-    let sessionList = sessions;
+    let session = sessions.find(s => s.id === currentSessionId);
+    if (session && getUndecidedComparison(session.messages, getActivePath(session))) {
+      setNotice({ tone: 'info', text: "Choose one of the compared answers to continue the conversation." });
+      return;
+    }
 
     // Create new session if none exists
-    if (!sessionId) {
-      const newSession: ChatSession = {
-        id: crypto.randomUUID(),
-        title: 'New Chat',
-        messages: [],
-        createdAt: Date.now(),
-        lastUpdated: Date.now(),
-      };
-      sessionList = [newSession, ...sessions]; // Update local var for immediate use
-      setSessions(sessionList);
-      sessionId = newSession.id;
-      setCurrentSessionId(sessionId);
+    if (!session) {
+      session = createSession(settings);
+      const newSession = session;
+      setSessions(prev => [newSession, ...prev]);
+      setCurrentSessionId(newSession.id);
       chatInstanceRef.current = null; // Ensure fresh instance
     }
 
+    const history = getActivePath(session);
     const userMessage: Message = {
       id: crypto.randomUUID(),
+      parentId: history.length > 0 ? history[history.length - 1].id : null,
       role: 'user',
       content: input.trim(),
+      ...(pendingAttachments.length > 0 ? { attachments: pendingAttachments } : {}),
       timestamp: Date.now(),
     };
 
     // Optimistically update UI
-    setSessions(prev => prev.map(s => 
-      s.id === sessionId 
-        ? { ...s, messages: [...s.messages, userMessage], lastUpdated: Date.now() } 
-        : s
-    ));
+    appendMessage(session.id, userMessage);
     setInput('');
-    setIsGenerating(true);
+    setPendingAttachments([]);
 
     // Reset textarea height
     if (textareaRef.current) textareaRef.current.style.height = 'auto';
 
-    try {
-      const chat = await getChatInstance();
-      const streamResult = await sendMessageStream(chat, userMessage.content);
+    const completed = comparisonTargets
+      ? await streamComparison(session, history, userMessage, comparisonTargets)
+      : await streamReply(session, history, userMessage);
 
-      // Create placeholder for AI response
-      const botMessageId = crypto.randomUUID();
-      const initialBotMessage: Message = {
-        id: botMessageId,
-        role: 'model',
-        content: '',
-        timestamp: Date.now(),
-      };
+    // Generate title if it's the first message interaction
+    if (completed && session.messages.length === 0) {
+      const sessionId = session.id;
+      const sessionSettings = resolveSettings(session, settings);
+      const titleSource = userMessage.content || (userMessage.attachments || []).map(a => a.name).join(', ');
+      getChatProvider(sessionSettings).generateChatTitle(titleSource, sessionSettings.model).then(title => {
+        // A name the user typed while the first reply was streaming takes precedence
+        setSessions(prev => prev.map(s => s.id === sessionId && s.title === session.title ? { ...s, title } : s));
+      }).catch(error => {
+        console.error("Failed to generate title", error);
+        const { title } = getErrorGuidance(toChatError(error).kind);
+        setNotice({ tone: 'warning', text: `The chat could not be named automatically: ${title.toLowerCase()}.` });
+      });
+    }
+  };
+
+  // Sends an edited copy of a user message as a new branch next to the original
+  const handleEditMessage = async (messageId: string, content: string) => {
+    const session = getCurrentSession();
+    const original = session?.messages.find(m => m.id === messageId);
+    if (!session || !original || isGenerating || isLockedElsewhere || (!content.trim() && !original.attachments?.length)) return;
 
-      // Add bot message placeholder
-      setSessions(prev => prev.map(s => 
-        s.id === sessionId 
-          ? { ...s, messages: [...s.messages, initialBotMessage] } 
+    const userMessage: Message = {
+      id: crypto.randomUUID(),
+      parentId: original.parentId,
+      role: 'user',
+      content: content.trim(),
+      ...(original.attachments ? { attachments: original.attachments } : {}),
+      timestamp: Date.now(),
+    };
+    appendMessage(session.id, userMessage);
+    await streamReply(session, getPathTo(session.messages, original.parentId), userMessage);
+  };
+
+  // Asks for another answer to the same user message, kept as a sibling of the existing reply
+  const handleRegenerate = async (messageId: string) => {
+    const session = getCurrentSession();
+    const reply = session?.messages.find(m => m.id === messageId);
+    const userMessage = session?.messages.find(m => m.id === reply?.parentId);
+    if (!session || !userMessage || isGenerating || isLockedElsewhere) return;
+
+    await streamReply(session, getPathTo(session.messages, userMessage.parentId), userMessage);
+  };
+
+  // Sends the same turn again after a failed reply. A failed reply nothing was added after is
+  // replaced; otherwise the new reply becomes another version next to it
+  const handleRetry = async (messageId: string) => {
+    const session = getCurrentSession();
+    const failed = session?.messages.find(m => m.id === messageId);
+    const userMessage = session?.messages.find(m => m.id === failed?.parentId);
+    if (!session || !failed || !userMessage || isGenerating || isLockedElsewhere) return;
+
+    if (!session.messages.some(m => m.parentId === failed.id)) {
+      setSessions(prev => prev.map(s =>
+        s.id === session.id
+          ? { ...s, messages: s.messages.filter(m => m.id !== failed.id), activeLeafId: userMessage.id }
           : s
       ));
+    }
+    await streamReply(session, getPathTo(session.messages, userMessage.parentId), userMessage);
+  };
 
-      let fullResponseText = '';
-
-      for await (const chunk of streamResult) {
-        // Fix: chunk.text is a property, not a function
-        const chunkText = chunk.text;
-        if (chunkText) {
-            fullResponseText += chunkText;
-            
-            // Update the bot message content in real-time
-            setSessions(prev => prev.map(s => {
-                if (s.id !== sessionId) return s;
-                const newMessages = [...s.messages];
-                const lastMsgIndex = newMessages.findIndex(m => m.id === botMessageId);
-                if (lastMsgIndex !== -1) {
-                    newMessages[lastMsgIndex] = {
-                        ...newMessages[lastMsgIndex],
-                        content: fullResponseText
-                    };
-                }
-                return { ...s, messages: newMessages };
-            }));
-        }
-      }
+  // Posts the output of a code block run as a user message at the end of the current branch
+  const handleSendCodeOutput = async (content: string) => {
+    const session = getCurrentSession();
+    if (!session || isGenerating || isLockedElsewhere) return;
 
-      // Generate title if it's the first message interaction
-      const currentSession = sessionList.find(s => s.id === sessionId);
-      if (currentSession && currentSession.messages.length === 0) {
-         generateChatTitle(userMessage.content).then(title => {
-             setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, title } : s));
-         });
-      }
+    const history = getActivePath(session);
+    const userMessage: Message = {
+      id: crypto.randomUUID(),
+      parentId: history.length > 0 ? history[history.length - 1].id : null,
+      role: 'user',
+      content,
+      timestamp: Date.now(),
+    };
+    appendMessage(session.id, userMessage);
+    await streamReply(session, history, userMessage);
+  };
 
+  // Shows another version of a message, picked by its position among the message's siblings
+  const handleSelectSibling = (messageId: string, index: number) => {
+    const messages = getCurrentSession()?.messages || [];
+    const parentId = messages.find(m => m.id === messageId)?.parentId ?? null;
+    const sibling = groupByParent(messages).get(parentId)?.[index];
+    if (sibling) handleSelectBranch(sibling.id);
+  };
+
+  // Switches the active branch to the newest conversation under the chosen sibling
+  const handleSelectBranch = (messageId: string) => {
+    if (!currentSessionId || isGenerating || isLockedElsewhere) return;
+    setSessions(prev => prev.map(s =>
+      s.id === currentSessionId ? { ...s, activeLeafId: getLatestLeafId(s.messages, messageId) } : s
+    ));
+  };
+
+  const handleStopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleUpdateSessionSettings = (sessionSettings: SessionSettings) => {
+    if (!currentSessionId) return;
+    setSessions(prev => prev.map(s =>
+      s.id === currentSessionId ? { ...s, settings: pickSessionSettings(sessionSettings) } : s
+    ));
+    chatInstanceRef.current = null; // Rebuild with the new settings, keeping the conversation as history
+  };
+
+  const handleSavePreset = (name: string, sessionSettings: SessionSettings) => {
+    const preset: PersonaPreset = {
+      id: crypto.randomUUID(),
+      name,
+      settings: pickSessionSettings(sessionSettings),
+      createdAt: Date.now(),
+    };
+    setPresets(prev => [...prev, preset]);
+  };
+
+  const handleDeletePreset = (id: string) => {
+    setPresets(prev => prev.filter(p => p.id !== id));
+  };
+
+  // Saving under an existing name updates that schema, so refining a schema does not pile up copies
+  const handleSaveSchema = (name: string, schema: string) => {
+    setSchemas(prev => {
+      const existing = prev.find(s => s.name === name);
+      if (existing) return prev.map(s => (s.id === existing.id ? { ...s, schema } : s));
+      return [...prev, { id: crypto.randomUUID(), name, schema, createdAt: Date.now() }];
+    });
+  };
+
+  const handleDeleteSchema = (id: string) => {
+    setSchemas(prev => prev.filter(s => s.id !== id));
+  };
+
+  const handleOpenSearchResult = (sessionId: string, messageId: string) => {
+    if (sessionId !== currentSessionId) {
+      setCurrentSessionId(sessionId);
+      chatInstanceRef.current = null;
+    }
+    // The match may sit on a branch that is not currently shown
+    setSessions(prev => prev.map(s => {
+      if (s.id !== sessionId || getActivePath(s).some(m => m.id === messageId)) return s;
+      return { ...s, activeLeafId: getLatestLeafId(s.messages, messageId) };
+    }));
+    setHighlightedMessageId(messageId);
+  };
+
+  const handleExportSessions = (ids: string[], format: ExportFormat) => {
+    const selected = sessions.filter(s => ids.includes(s.id));
+    if (selected.length > 0) downloadFile(exportSessions(selected, format));
+  };
+
+  const handleExportAll = (format: ExportFormat) => {
+    downloadFile(exportSessions(sessions, format));
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const result = importSessions(await file.text(), sessions);
+      const defaults = pickSessionSettings(settings);
+      const imported = result.sessions.map(s => ({
+        ...s,
+        messages: upgradeLegacyErrors(linkLegacyMessages(s.messages)),
+        settings: normalizeSessionSettings(s.settings, defaults),
+      }));
+      setSessions(prev => [...imported, ...prev]);
+
+      const skipped = [
+        result.duplicates > 0 ? `${result.duplicates} already present` : '',
+        result.invalid > 0 ? `${result.invalid} invalid` : '',
+      ].filter(Boolean).join(', ');
+      setNotice({
+        tone: result.invalid > 0 ? 'warning' : 'info',
+        text: `Imported ${imported.length} chat${imported.length === 1 ? '' : 's'}${skipped ? ` (skipped ${skipped})` : ''}.`,
+      });
     } catch (error) {
-      console.error("Generation error", error);
-      // Add error message to chat
-      const errorMessage: Message = {
-        id: crypto.randomUUID(),
-        role: 'model',
-        content: "Sorry, something went wrong. Please check your API key or connection.",
-        timestamp: Date.now(),
-      };
-      setSessions(prev => prev.map(s => 
-        s.id === sessionId 
-            ? { ...s, messages: [...s.messages, errorMessage] } 
+      setNotice({ tone: 'warning', text: `Import failed: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  };
+
+  // Puts text into the composer for the user to review before sending
+  const insertIntoComposer = (text: string) => {
+    setInput(text);
+    setIsSlashMenuDismissed(true);
+    requestAnimationFrame(() => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      textarea.focus();
+      textarea.setSelectionRange(text.length, text.length);
+    });
+  };
+
+  const handleUseTemplate = (template: PromptTemplate) => {
+    setIsTemplateLibraryOpen(false);
+    if (getTemplateVariables(template.content).length > 0) {
+      setFillingTemplate(template);
+    } else {
+      insertIntoComposer(template.content);
+    }
+  };
+
+  const handleSaveTemplate = (template: PromptTemplate) => {
+    setTemplates(prev => prev.some(t => t.id === template.id)
+      ? prev.map(t => (t.id === template.id ? template : t))
+      : [...prev, template]);
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    setTemplates(prev => prev.filter(t => t.id !== id));
+  };
+
+  const handleExportTemplates = () => {
+    downloadFile(exportTemplates(templates));
+  };
+
+  const handleImportTemplates = async (file: File) => {
+    try {
+      const result = importTemplates(await file.text(), templates);
+      setTemplates(prev => [...prev, ...result.templates]);
+      const skipped = [
+        result.duplicates > 0 ? `${result.duplicates} already present` : '',
+        result.invalid > 0 ? `${result.invalid} invalid` : '',
+      ].filter(Boolean).join(', ');
+      setNotice({
+        tone: result.invalid > 0 ? 'warning' : 'info',
+        text: `Imported ${result.templates.length} template${result.templates.length === 1 ? '' : 's'}${skipped ? ` (skipped ${skipped})` : ''}.`,
+      });
+    } catch (error) {
+      setNotice({ tone: 'warning', text: `Import failed: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  };
+
+  // Applies a settings change to the open chat, or to the defaults for new chats when none is open
+  const updateActiveSettings = (patch: Partial<SessionSettings>) => {
+    const session = getCurrentSession();
+    if (session) {
+      handleUpdateSessionSettings({ ...session.settings, ...patch });
+    } else {
+      setSettings(prev => ({ ...prev, ...patch }));
+    }
+  };
+
+  const runSlashCommand = ({ command, argument }: ParsedSlashCommand) => {
+    const session = getCurrentSession();
+    setInput('');
+
+    switch (command) {
+      case SlashCommands.NEW: {
+        const preset = argument ? presets.find(p => p.name.toLowerCase() === argument.toLowerCase()) : undefined;
+        if (argument && !preset) {
+          setNotice({ tone: 'warning', text: `There is no persona preset named "${argument}".` });
+          return;
+        }
+        handleNewChat(preset?.id);
+        return;
+      }
+      case SlashCommands.MODEL: {
+        const current = resolveSettings(session, settings);
+        const nextModel = resolveModelArgument(argument, current.provider);
+        if (!nextModel) {
+          setNotice({
+            tone: argument ? 'warning' : 'info',
+            text: argument
+              ? `"${argument}" is not a model this chat's provider offers. Try /model flash or /model pro.`
+              : `This chat uses ${getModelLabel(current)}. Switch with /model flash or /model pro.`,
+          });
+          return;
+        }
+        updateActiveSettings({ model: nextModel });
+        setNotice({ tone: 'info', text: `Switched ${session ? 'this chat' : 'new chats'} to ${getModelLabel({ ...current, model: nextModel })}.` });
+        return;
+      }
+      case SlashCommands.SYSTEM:
+        if (!argument) {
+          setNotice({ tone: 'info', text: 'Add the new instructions after the command, e.g. /system Answer in French.' });
+          return;
+        }
+        updateActiveSettings({ systemInstruction: argument });
+        setNotice({ tone: 'info', text: `Updated the system instructions of ${session ? 'this chat' : 'new chats'}.` });
+        return;
+      case SlashCommands.CLEAR:
+        if (!session) return;
+        if (isGenerating) {
+          setNotice({ tone: 'warning', text: 'Stop the current reply before clearing the chat.' });
+          return;
+        }
+        setSessions(prev => prev.map(s =>
+          s.id === session.id
+            ? { ...s, messages: [], activeLeafId: undefined, contextSummary: undefined, lastUpdated: Date.now() }
             : s
         ));
-    } finally {
-      setIsGenerating(false);
+        chatInstanceRef.current = null;
+        return;
+      case SlashCommands.EXPORT: {
+        const format = resolveExportFormat(argument);
+        if (!session || !format) {
+          setNotice({
+            tone: 'warning',
+            text: session ? `Unknown export format "${argument}". Use markdown, html or json.` : 'Open a chat to export it.',
+          });
+          return;
+        }
+        handleExportSessions([session.id], format);
+        return;
+      }
+    }
+  };
+
+  const isSlashMenuOpen = !isSlashMenuDismissed && /^\/\S*$/.test(input);
+  const slashMenuItems = isSlashMenuOpen ? getSlashMenuItems(input, templates) : [];
+
+  const handleSelectSlashItem = (item: SlashMenuItem) => {
+    if (item.kind === 'template') {
+      setInput('');
+      handleUseTemplate(item.template);
+    } else if (item.info.requiresArgument) {
+      insertIntoComposer(`/${item.info.command} `);
+    } else {
+      runSlashCommand({ command: item.info.command, argument: '' });
     }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (isSlashMenuOpen) {
+      const count = slashMenuItems.length;
+      if (e.key === 'ArrowDown' && count > 0) {
+        e.preventDefault();
+        setSlashMenuIndex((slashMenuIndex + 1) % count);
+        return;
+      }
+      if (e.key === 'ArrowUp' && count > 0) {
+        e.preventDefault();
+        setSlashMenuIndex((slashMenuIndex - 1 + count) % count);
+        return;
+      }
+      if ((e.key === 'Enter' || e.key === 'Tab') && !e.shiftKey && count > 0) {
+        e.preventDefault();
+        handleSelectSlashItem(slashMenuItems[Math.min(slashMenuIndex, count - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setIsSlashMenuDismissed(true);
+        return;
+      }
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSendMessage();
@@ -251,6 +1220,61 @@ function App() {
   };
 
   const currentSession = getCurrentSession();
+  const activeSettings = resolveSettings(currentSession, settings);
+  const activePath = currentSession ? getActivePath(currentSession) : [];
+  const contextLeafId = activePath.length > 0 ? activePath[activePath.length - 1].id : null;
+  // What the context strategy keeps of the branch shown, as the next message would see it
+  const contextPlan = currentSession
+    ? planContext(activePath, activeSettings.context, activeSettings.systemInstruction, currentSession.contextSummary)
+    : null;
+  const contextStatuses = contextPlan ? getContextStatuses(contextPlan) : new Map<string, 'summarized' | 'excluded'>();
+  const lastExcludedId = contextPlan?.excluded[contextPlan.excluded.length - 1]?.id;
+  const undecidedComparisonId = currentSession ? getUndecidedComparison(currentSession.messages, activePath) : undefined;
+
+  // Measure the prompt size of what would be sent once generation settles, debounced since it may hit the API
+  useEffect(() => {
+    if (!currentSession || !contextPlan || isGenerating) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      getChatProvider(activeSettings)
+        .countTokens({
+          ...pickSessionSettings(activeSettings),
+          systemInstruction: withSummary(activeSettings.systemInstruction, contextPlan.summary?.content),
+          history: contextPlan.included,
+        })
+        .then(tokens => {
+          if (!cancelled) setContextCount({ sessionId: currentSession.id, tokens });
+        })
+        .catch(error => console.error("Failed to count tokens", error));
+    }, 500);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [
+    currentSessionId,
+    contextLeafId,
+    isGenerating,
+    activeSettings.provider,
+    activeSettings.model,
+    activeSettings.systemInstruction,
+    activeSettings.context.strategy,
+    activeSettings.context.maxTokens,
+    contextPlan?.excluded.length,
+    contextPlan?.summary?.coveredMessageId,
+  ]);
+
+  const siblingsByParent = groupByParent(currentSession?.messages || []);
+  const canSend = (input.trim().length > 0 || pendingAttachments.length > 0) && !isLockedElsewhere;
+
+  // Handlers passed to every bubble keep their identity, so a bubble only re-renders when its own props change
+  const onSelectSibling = useStableCallback(handleSelectSibling);
+  const onEditMessage = useStableCallback(handleEditMessage);
+  const onRegenerate = useStableCallback(handleRegenerate);
+  const onRetry = useStableCallback(handleRetry);
+  const onConfirmToolCall = useStableCallback(handleConfirmToolCall);
+  const onSendCodeOutput = useStableCallback(handleSendCodeOutput);
+  const onChooseComparison = useStableCallback(handleSelectBranch);
 
   return (
     <div className="flex h-screen bg-gray-950 text-gray-100 overflow-hidden font-sans">
@@ -264,8 +1288,17 @@ function App() {
               setCurrentSessionId(id);
               chatInstanceRef.current = null; // Reset context on switch
           }}
+          presets={presets}
           onNewChat={handleNewChat}
-          onDeleteSession={handleDeleteSession}
+          onRenameSession={handleRenameSession}
+          onOrganizeSessions={handleOrganizeSessions}
+          onDeleteSessions={handleDeleteSessions}
+          onExportSessions={handleExportSessions}
+          onExportAll={handleExportAll}
+          sortOrder={settings.chatListSort}
+          onChangeSortOrder={(chatListSort) => setSettings(prev => ({ ...prev, chatListSort }))}
+          onImport={handleImport}
+          onOpenSearchResult={handleOpenSearchResult}
         />
       </div>
 
@@ -281,18 +1314,45 @@ function App() {
                         chatInstanceRef.current = null;
                         setIsSidebarOpen(false);
                     }}
-                    onNewChat={() => {
-                        handleNewChat();
+                    presets={presets}
+                    onNewChat={(presetId) => {
+                        handleNewChat(presetId);
+                        setIsSidebarOpen(false);
+                    }}
+                    onRenameSession={handleRenameSession}
+                    onOrganizeSessions={handleOrganizeSessions}
+                    onDeleteSessions={handleDeleteSessions}
+                    onExportSessions={handleExportSessions}
+                    onExportAll={handleExportAll}
+                    sortOrder={settings.chatListSort}
+                    onChangeSortOrder={(chatListSort) => setSettings(prev => ({ ...prev, chatListSort }))}
+                    onImport={handleImport}
+                    onOpenSearchResult={(sessionId, messageId) => {
+                        handleOpenSearchResult(sessionId, messageId);
                         setIsSidebarOpen(false);
                     }}
-                    onDeleteSession={handleDeleteSession}
                 />
               </div>
           </div>
       )}
 
       {/* Main Content */}
-      <div className="flex-1 flex flex-col h-full min-w-0 relative bg-gray-950">
+      <div
+        className="flex-1 flex flex-col h-full min-w-0 relative bg-gray-950"
+        onDragOver={handleDragOver}
+        onDragLeave={(e) => {
+          // Ignore leave events fired when moving between child elements
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFiles(false);
+        }}
+        onDrop={handleDrop}
+      >
+        {isDraggingFiles && (
+          <div className="absolute inset-0 z-30 m-4 flex flex-col items-center justify-center gap-3 rounded-2xl border-2 border-dashed border-blue-500 bg-gray-950/90 text-blue-300 pointer-events-none">
+            <Upload size={32} />
+            <p className="text-lg font-medium">Drop files to attach</p>
+            <p className="text-sm text-gray-400">Images, PDFs and text or code files</p>
+          </div>
+        )}
         
         {/* Header */}
         <header className="h-16 border-b border-gray-800 flex items-center justify-between px-4 bg-gray-950/80 backdrop-blur-md z-10">
@@ -307,79 +1367,249 @@ function App() {
               {currentSession?.title || 'Gemini Chat'}
             </h1>
           </div>
-          <button 
-            onClick={() => setIsSettingsOpen(true)}
-            className="p-2 hover:bg-gray-800 rounded-lg text-gray-400 hover:text-white transition-colors"
-            title="System Instructions & Settings"
-          >
-            <SettingsIcon size={20} />
-          </button>
+          <div className="flex items-center gap-1">
+            {currentSession && (
+              <UsageMeter
+                usage={getSessionUsage(currentSession, settings.pricing)}
+                contextTokens={contextCount?.sessionId === currentSession.id ? contextCount.tokens : null}
+                contextWindow={getContextWindow(activeSettings)}
+                onClick={() => setIsUsageOpen(true)}
+              />
+            )}
+            {currentSession && (
+              <button
+                onClick={() => setIsChatSettingsOpen(true)}
+                className="flex items-center gap-2 px-3 py-2 hover:bg-gray-800 rounded-lg text-gray-400 hover:text-white transition-colors text-sm"
+                title="Chat Settings & Persona"
+              >
+                <SlidersHorizontal size={16} />
+                <span className="hidden sm:inline truncate max-w-[160px]">{getModelLabel(activeSettings)}</span>
+              </button>
+            )}
+            <button 
+              onClick={() => setIsSettingsOpen(true)}
+              className="p-2 hover:bg-gray-800 rounded-lg text-gray-400 hover:text-white transition-colors"
+              title="Default Settings"
+            >
+              <SettingsIcon size={20} />
+            </button>
+          </div>
         </header>
 
         {/* Messages Area */}
-        <main className="flex-1 overflow-y-auto p-4 md:p-8 scroll-smooth relative">
-            {!currentSession || currentSession.messages.length === 0 ? (
+        {!currentSession || activePath.length === 0 ? (
+            <main className="flex-1 overflow-y-auto p-4 md:p-8 relative">
                 <div className="h-full flex flex-col items-center justify-center text-center opacity-0 animate-[fadeIn_0.5s_ease-out_forwards]">
                     <div className="w-20 h-20 bg-gradient-to-br from-blue-600 to-purple-600 rounded-2xl flex items-center justify-center mb-6 shadow-xl shadow-blue-900/20">
                         <Bot size={40} className="text-white" />
                     </div>
                     <h2 className="text-3xl font-bold text-white mb-3">How can I help you today?</h2>
                     <p className="text-gray-400 max-w-md">
-                        I'm using the <strong>{settings.model === ModelIds.FLASH ? 'Gemini 3 Flash' : 'Gemini 3 Pro'}</strong> model. 
+                        I'm using the <strong>{getModelLabel(activeSettings)}</strong> model. 
                         Configure my behavior in settings.
                     </p>
-                    {settings.systemInstruction.length > 0 && (
+                    {activeSettings.systemInstruction.length > 0 && (
                         <div className="mt-8 p-4 bg-gray-900 border border-gray-800 rounded-lg max-w-lg">
                             <p className="text-xs text-gray-500 uppercase tracking-wider mb-2 font-semibold">Active System Instruction</p>
-                            <p className="text-sm text-gray-300 italic line-clamp-3">"{settings.systemInstruction}"</p>
-                        </div>
-                    )}
-                </div>
-            ) : (
-                <div className="max-w-4xl mx-auto pb-4">
-                    {currentSession.messages.map((msg) => (
-                        <MessageBubble key={msg.id} message={msg} />
-                    ))}
-                    {isGenerating && (
-                        <div className="flex justify-start w-full mb-6">
-                           {/* The streaming content is updated in the last message, 
-                               but if we wanted a loading indicator before first token: */}
-                           {currentSession.messages[currentSession.messages.length - 1].role === 'user' && (
-                               <div className="flex items-center gap-2 text-gray-500 ml-2">
-                                   <Loader2 size={16} className="animate-spin" />
-                                   <span className="text-sm">Thinking...</span>
-                               </div>
-                           )}
+                            <p className="text-sm text-gray-300 italic line-clamp-3">"{activeSettings.systemInstruction}"</p>
                         </div>
                     )}
-                    <div ref={messagesEndRef} className="h-4" />
                 </div>
-            )}
-        </main>
+            </main>
+        ) : (
+            <MessageList
+                sessionId={currentSession.id}
+                messages={activePath}
+                scrollToMessageId={highlightedMessageId}
+                renderMessage={(msg) => {
+                    const siblings = siblingsByParent.get(msg.parentId) || [msg];
+                    return (
+                        <>
+                            <MessageBubble
+                                message={msg}
+                                contextStatus={contextStatuses.get(msg.id)}
+                                isHighlighted={msg.id === highlightedMessageId}
+                                isBusy={isGenerating || isLockedElsewhere}
+                                cost={getMessageCost(msg, settings.pricing)}
+                                siblingIndex={siblings.findIndex(m => m.id === msg.id)}
+                                siblingCount={siblings.length}
+                                onSelectSibling={onSelectSibling}
+                                onEdit={onEditMessage}
+                                onRegenerate={onRegenerate}
+                                onRetry={onRetry}
+                                onConfirmToolCall={onConfirmToolCall}
+                                onSendCodeOutput={onSendCodeOutput}
+                            />
+                            {msg.comparison && (
+                                <ComparisonView
+                                    replies={getComparisonReplies(currentSession.messages, msg.comparison.groupId)}
+                                    chosenId={msg.id}
+                                    pricing={settings.pricing}
+                                    isBusy={isGenerating || isLockedElsewhere}
+                                    onChoose={onChooseComparison}
+                                />
+                            )}
+                            {msg.id === lastExcludedId && contextPlan && (
+                                <ContextDivider
+                                    excludedCount={contextPlan.excluded.length}
+                                    summarizedCount={[...contextStatuses.values()].filter(status => status === 'summarized').length}
+                                    summary={contextPlan.summary?.content}
+                                />
+                            )}
+                        </>
+                    );
+                }}
+                footer={
+                    <>
+                        {undecidedComparisonId && (
+                            <ComparisonView
+                                replies={getComparisonReplies(currentSession.messages, undecidedComparisonId)}
+                                pricing={settings.pricing}
+                                isBusy={isGenerating || isLockedElsewhere}
+                                onChoose={onChooseComparison}
+                            />
+                        )}
+                        {isGenerating && !undecidedComparisonId && activePath[activePath.length - 1].role === 'user' && (
+                            <div className="flex items-center gap-2 text-gray-500 ml-2 mb-6">
+                                <Loader2 size={16} className="animate-spin" />
+                                <span className="text-sm">Thinking...</span>
+                            </div>
+                        )}
+                        {isLockedElsewhere && !isGenerating && (
+                            <div className="flex items-center gap-2 text-gray-500 ml-2 mb-6">
+                                <Loader2 size={16} className="animate-spin" />
+                                <span className="text-sm">Another tab is writing a reply in this chat...</span>
+                            </div>
+                        )}
+                    </>
+                }
+            />
+        )}
 
         {/* Input Area */}
         <div className="p-4 border-t border-gray-800 bg-gray-950">
+            {notice && (
+                <div className={`max-w-4xl mx-auto mb-3 rounded-lg px-4 py-2 flex items-center gap-3 border ${
+                    notice.tone === 'warning'
+                        ? 'bg-yellow-900/20 border-yellow-700/50 text-yellow-200'
+                        : 'bg-blue-900/20 border-blue-800/50 text-blue-200'
+                }`}>
+                    {notice.tone === 'warning'
+                        ? <AlertTriangle className="text-yellow-500 flex-shrink-0" size={16} />
+                        : <Info className="text-blue-400 flex-shrink-0" size={16} />}
+                    <p className="flex-1 text-sm">{notice.text}</p>
+                    {notice.action && (
+                        <button
+                            onClick={notice.action.onClick}
+                            className="text-sm font-medium underline underline-offset-2 hover:opacity-80"
+                        >
+                            {notice.action.label}
+                        </button>
+                    )}
+                    <button onClick={() => setNotice(null)} className="opacity-70 hover:opacity-100">
+                        <X size={16} />
+                    </button>
+                </div>
+            )}
             <div className="max-w-4xl mx-auto relative">
+                {comparisonTargets && (
+                    <ComparisonBar
+                        targets={comparisonTargets}
+                        onChange={setComparisonTargets}
+                        onClose={() => setComparisonTargets(null)}
+                        disabled={isGenerating}
+                    />
+                )}
+                {pendingAttachments.length > 0 && (
+                    <div className="mb-3">
+                        <AttachmentList
+                            attachments={pendingAttachments}
+                            onRemove={(id) => setPendingAttachments(prev => prev.filter(a => a.id !== id))}
+                        />
+                    </div>
+                )}
+                {isSlashMenuOpen && (
+                    <SlashCommandMenu
+                        items={slashMenuItems}
+                        activeIndex={Math.min(slashMenuIndex, Math.max(slashMenuItems.length - 1, 0))}
+                        onSelect={handleSelectSlashItem}
+                        onHover={setSlashMenuIndex}
+                        onManageTemplates={() => {
+                            setInput('');
+                            setIsTemplateLibraryOpen(true);
+                        }}
+                    />
+                )}
                 <textarea
                     ref={textareaRef}
                     value={input}
-                    onChange={(e) => setInput(e.target.value)}
+                    onChange={(e) => {
+                        setInput(e.target.value);
+                        setSlashMenuIndex(0);
+                        setIsSlashMenuDismissed(false);
+                    }}
                     onKeyDown={handleKeyDown}
-                    placeholder="Message Gemini..."
-                    className="w-full bg-gray-900 text-white rounded-xl pl-4 pr-12 py-3.5 border border-gray-700 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none resize-none max-h-[200px] shadow-lg"
+                    onPaste={handlePaste}
+                    placeholder="Message Gemini... (type / for commands and templates)"
+                    className="w-full bg-gray-900 text-white rounded-xl pl-28 pr-12 py-3.5 border border-gray-700 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none resize-none max-h-[200px] shadow-lg"
                     rows={1}
                 />
                 <button
-                    onClick={handleSendMessage}
-                    disabled={!input.trim() || isGenerating}
-                    className={`absolute right-2 bottom-2.5 p-2 rounded-lg transition-all duration-200 ${
-                        input.trim() && !isGenerating
-                            ? 'bg-blue-600 text-white hover:bg-blue-500 shadow-md' 
-                            : 'bg-gray-800 text-gray-500 cursor-not-allowed'
+                    onClick={() => fileInputRef.current?.click()}
+                    className="absolute left-2 bottom-2.5 p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-800 transition-colors"
+                    title="Attach files"
+                >
+                    <Paperclip size={18} />
+                </button>
+                <button
+                    onClick={() => setIsTemplateLibraryOpen(true)}
+                    className="absolute left-10 bottom-2.5 p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-800 transition-colors"
+                    title="Prompt templates"
+                >
+                    <Library size={18} />
+                </button>
+                <button
+                    onClick={() => setComparisonTargets(comparisonTargets ? null : createComparisonTargets(activeSettings))}
+                    disabled={isGenerating}
+                    className={`absolute left-[4.5rem] bottom-2.5 p-2 rounded-lg transition-colors disabled:opacity-50 ${
+                        comparisonTargets ? 'text-blue-400 bg-blue-900/30 hover:bg-blue-900/50' : 'text-gray-400 hover:text-white hover:bg-gray-800'
                     }`}
+                    title={comparisonTargets ? 'Leave compare mode' : 'Compare models side by side'}
                 >
-                    {isGenerating ? <Loader2 size={18} className="animate-spin" /> : <Send size={18} />}
+                    <Columns2 size={18} />
                 </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    accept={ACCEPTED_FILE_TYPES}
+                    onChange={(e) => {
+                        handleAddFiles(Array.from(e.target.files || []));
+                        e.target.value = '';
+                    }}
+                    className="hidden"
+                />
+                {isGenerating ? (
+                    <button
+                        onClick={handleStopGenerating}
+                        className="absolute right-2 bottom-2.5 p-2 rounded-lg transition-all duration-200 bg-gray-700 text-white hover:bg-red-600 shadow-md"
+                        title="Stop generating"
+                    >
+                        <StopCircle size={18} />
+                    </button>
+                ) : (
+                    <button
+                        onClick={handleSendMessage}
+                        disabled={!canSend}
+                        className={`absolute right-2 bottom-2.5 p-2 rounded-lg transition-all duration-200 ${
+                            canSend
+                                ? 'bg-blue-600 text-white hover:bg-blue-500 shadow-md' 
+                                : 'bg-gray-800 text-gray-500 cursor-not-allowed'
+                        }`}
+                    >
+                        <Send size={18} />
+                    </button>
+                )}
             </div>
             <div className="text-center mt-2">
                  <p className="text-[10px] text-gray-600">Gemini can make mistakes. Check important info.</p>
@@ -394,6 +1624,48 @@ function App() {
         settings={settings}
         onSave={setSettings}
       />
+
+      <TemplateLibraryModal
+        isOpen={isTemplateLibraryOpen}
+        onClose={() => setIsTemplateLibraryOpen(false)}
+        templates={templates}
+        onSave={handleSaveTemplate}
+        onDelete={handleDeleteTemplate}
+        onUse={handleUseTemplate}
+        onImport={handleImportTemplates}
+        onExport={handleExportTemplates}
+      />
+
+      <TemplateVariablesModal
+        template={fillingTemplate}
+        onClose={() => setFillingTemplate(null)}
+        onInsert={(text) => {
+          setFillingTemplate(null);
+          insertIntoComposer(text);
+        }}
+      />
+
+      <UsageModal
+        isOpen={isUsageOpen}
+        onClose={() => setIsUsageOpen(false)}
+        ledger={usageLedger}
+        pricing={settings.pricing}
+      />
+
+      {currentSession && (
+        <ChatSettingsModal
+          isOpen={isChatSettingsOpen}
+          onClose={() => setIsChatSettingsOpen(false)}
+          settings={currentSession.settings}
+          presets={presets}
+          onSave={handleUpdateSessionSettings}
+          onSavePreset={handleSavePreset}
+          onDeletePreset={handleDeletePreset}
+          schemas={schemas}
+          onSaveSchema={handleSaveSchema}
+          onDeleteSchema={handleDeleteSchema}
+        />
+      )}
       
       <style>{`
         @keyframes fadeIn {
@@ -0,0 +1,59 @@
+import React from 'react';
+import { FileText, File, X } from 'lucide-react';
+import { Attachment } from '../types';
+import { formatFileSize, isImageAttachment, toDataUrl } from '../services/attachmentService';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  // Shown in the composer, where attachments can still be removed
+  onRemove?: (id: string) => void;
+  size?: 'sm' | 'lg';
+}
+
+const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, onRemove, size = 'sm' }) => {
+  if (attachments.length === 0) return null;
+
+  const thumbnailSize = size === 'lg' ? 'h-32 max-w-[12rem]' : 'h-16 w-16';
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map(attachment => (
+        <div key={attachment.id} className="relative group/attachment">
+          {isImageAttachment(attachment) ? (
+            <a href={toDataUrl(attachment)} target="_blank" rel="noopener noreferrer" title={attachment.name}>
+              <img
+                src={toDataUrl(attachment)}
+                alt={attachment.name}
+                className={`${thumbnailSize} object-cover rounded-lg border border-gray-700`}
+              />
+            </a>
+          ) : (
+            <div
+              className="flex items-center gap-2 bg-gray-800 border border-gray-700 rounded-lg pl-2 pr-3 py-1.5 max-w-[16rem]"
+              title={attachment.name}
+            >
+              {attachment.mimeType === 'application/pdf'
+                ? <File size={16} className="text-red-400 flex-shrink-0" />
+                : <FileText size={16} className="text-blue-400 flex-shrink-0" />}
+              <div className="min-w-0">
+                <p className="text-xs text-gray-200 truncate">{attachment.name}</p>
+                <p className="text-[10px] text-gray-500">{formatFileSize(attachment.size)}</p>
+              </div>
+            </div>
+          )}
+          {onRemove && (
+            <button
+              onClick={() => onRemove(attachment.id)}
+              className="absolute -top-1.5 -right-1.5 p-0.5 bg-gray-700 hover:bg-red-600 text-white rounded-full shadow"
+              title="Remove Attachment"
+            >
+              <X size={12} />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AttachmentList;
@@ -1,73 +1,406 @@
-import React from 'react';
-import { MessageSquare, Trash2, Plus } from 'lucide-react';
-import { ChatSession } from '../types';
+import React, { useDeferredValue, useMemo, useRef, useState } from 'react';
+import { Trash2, Plus, ChevronDown, ChevronRight, UserCircle, Upload, Search, SlidersHorizontal, X, Folder, FolderOpen, FolderInput, Archive, ArchiveRestore, CheckSquare } from 'lucide-react';
+import { ChatSession, PersonaPreset, SessionOrganization, SessionSortOrders } from '../types';
+import { ExportFormat } from '../services/exportService';
+import { EMPTY_SEARCH_FILTERS, SearchFilters, getMessageModel, searchSessions } from '../services/searchService';
+import { buildFolderTree, countFolderSessions, FolderNode, getFolderPaths, sortSessions, SORT_ORDER_LABELS } from '../services/chatListService';
+import ExportMenu from './ExportMenu';
+import SearchResults from './SearchResults';
+import ChatListItem from './ChatListItem';
+import FolderPicker from './FolderPicker';
 
 interface ChatListProps {
   sessions: ChatSession[];
   currentSessionId: string | null;
   onSelectSession: (id: string) => void;
-  onNewChat: () => void;
-  onDeleteSession: (id: string, e: React.MouseEvent) => void;
+  presets: PersonaPreset[];
+  onNewChat: (presetId?: string) => void;
+  onRenameSession: (id: string, title: string) => void;
+  onOrganizeSessions: (ids: string[], patch: SessionOrganization) => void;
+  onDeleteSessions: (ids: string[]) => void;
+  onExportSessions: (ids: string[], format: ExportFormat) => void;
+  onExportAll: (format: ExportFormat) => void;
+  sortOrder: SessionSortOrders;
+  onChangeSortOrder: (order: SessionSortOrders) => void;
+  onImport: (file: File) => void;
+  onOpenSearchResult: (sessionId: string, messageId: string) => void;
 }
 
 const ChatList: React.FC<ChatListProps> = ({ 
   sessions, 
   currentSessionId, 
   onSelectSession, 
+  presets,
   onNewChat,
-  onDeleteSession 
+  onRenameSession,
+  onOrganizeSessions,
+  onDeleteSessions,
+  onExportSessions,
+  onExportAll,
+  sortOrder,
+  onChangeSortOrder,
+  onImport,
+  onOpenSearchResult
 }) => {
-  // Sort sessions by lastUpdated descending
-  const sortedSessions = [...sessions].sort((a, b) => b.lastUpdated - a.lastUpdated);
+  const [isPresetMenuOpen, setIsPresetMenuOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  return (
-    <div className="flex flex-col h-full bg-gray-900 border-r border-gray-800 w-72 flex-shrink-0">
-      <div className="p-4">
+  // Organization
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(new Set());
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isBulkFolderPickerOpen, setIsBulkFolderPickerOpen] = useState(false);
+
+  const sortedSessions = useMemo(() => sortSessions(sessions, sortOrder), [sessions, sortOrder]);
+  const folderTree = useMemo(() => buildFolderTree(sortedSessions.filter(s => !s.archived)), [sortedSessions]);
+  const archivedSessions = sortedSessions.filter(s => s.archived);
+  const folders = useMemo(() => getFolderPaths(sessions), [sessions]);
+  // Chats deleted elsewhere drop out of the selection
+  const selected = sortedSessions.filter(s => selectedIds.has(s.id));
+  const selectedIdList = selected.map(s => s.id);
+
+  // Search
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_SEARCH_FILTERS);
+  const [isFilterOpen, setIsFilterOpen] = useState(false);
+  // Deferred so typing stays responsive while large histories are scanned
+  const deferredQuery = useDeferredValue(query);
+  const deferredFilters = useDeferredValue(filters);
+  const isSearching = query.trim().length > 0;
+  const searchResults = useMemo(
+    () => searchSessions(sessions, deferredQuery, deferredFilters),
+    [sessions, deferredQuery, deferredFilters]
+  );
+  const models = useMemo(
+    () => Array.from(new Set(sessions.flatMap(s => [s.settings.model, ...s.messages.map(m => getMessageModel(s, m))]))).sort(),
+    [sessions]
+  );
+  const hasActiveFilters = filters.model !== '' || filters.from !== '' || filters.to !== '';
+
+  const toggleFolder = (path: string) => {
+    setCollapsedFolders(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  const renderSession = (session: ChatSession, depth: number) => (
+    <ChatListItem
+      key={session.id}
+      session={session}
+      isActive={currentSessionId === session.id}
+      depth={depth}
+      folders={folders}
+      isSelecting={isSelecting}
+      isSelected={selectedIds.has(session.id)}
+      onToggleSelected={() => toggleSelected(session.id)}
+      onSelect={() => onSelectSession(session.id)}
+      onRename={(title) => onRenameSession(session.id, title)}
+      onOrganize={(patch) => onOrganizeSessions([session.id], patch)}
+      onDelete={() => onDeleteSessions([session.id])}
+      onExport={(format) => onExportSessions([session.id], format)}
+    />
+  );
+
+  // Subfolders come before the chats filed directly in a folder
+  const renderFolder = (node: FolderNode, depth: number): React.ReactNode => {
+    const isCollapsed = collapsedFolders.has(node.path);
+    return (
+      <div key={node.path}>
         <button
-          onClick={onNewChat}
-          className="w-full flex items-center gap-2 justify-center bg-gray-800 hover:bg-gray-700 text-white py-3 px-4 rounded-xl border border-gray-700 transition-all shadow-sm hover:shadow-md group"
+          onClick={() => toggleFolder(node.path)}
+          style={{ paddingLeft: `${0.75 + depth * 0.75}rem` }}
+          className="w-full flex items-center gap-2 py-2 pr-3 rounded-lg text-sm text-gray-400 hover:bg-gray-800 hover:text-gray-200 transition-colors"
+          title={node.path}
         >
-          <Plus size={20} className="text-blue-400 group-hover:text-blue-300" />
-          <span className="font-medium">New Chat</span>
+          {isCollapsed ? <ChevronRight size={14} className="flex-shrink-0" /> : <ChevronDown size={14} className="flex-shrink-0" />}
+          {isCollapsed
+            ? <Folder size={16} className="text-yellow-500/80 flex-shrink-0" />
+            : <FolderOpen size={16} className="text-yellow-500/80 flex-shrink-0" />}
+          <span className="truncate font-medium">{node.name}</span>
+          <span className="ml-auto text-xs text-gray-600 tabular-nums">{countFolderSessions(node)}</span>
         </button>
+        {!isCollapsed && (
+          <div className="space-y-1 mt-1">
+            {node.folders.map(folder => renderFolder(folder, depth + 1))}
+            {node.sessions.map(session => renderSession(session, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const allSelectedArchived = selected.length > 0 && selected.every(s => s.archived);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = ''; // Allow importing the same file again
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-gray-900 border-r border-gray-800 w-72 flex-shrink-0">
+      <div className="p-4 relative">
+        <div className="flex gap-2">
+          <button
+            onClick={() => onNewChat()}
+            className="flex-1 flex items-center gap-2 justify-center bg-gray-800 hover:bg-gray-700 text-white py-3 px-4 rounded-xl border border-gray-700 transition-all shadow-sm hover:shadow-md group"
+          >
+            <Plus size={20} className="text-blue-400 group-hover:text-blue-300" />
+            <span className="font-medium">New Chat</span>
+          </button>
+          {presets.length > 0 && (
+            <button
+              onClick={() => setIsPresetMenuOpen(!isPresetMenuOpen)}
+              className="flex items-center justify-center bg-gray-800 hover:bg-gray-700 text-gray-400 hover:text-white px-3 rounded-xl border border-gray-700 transition-all"
+              title="New Chat from Preset"
+            >
+              <ChevronDown size={18} />
+            </button>
+          )}
+        </div>
+
+        {isPresetMenuOpen && presets.length > 0 && (
+          <div className="absolute left-4 right-4 top-full -mt-2 z-10 bg-gray-800 border border-gray-700 rounded-xl shadow-xl py-1 max-h-64 overflow-y-auto">
+            {presets.map(preset => (
+              <button
+                key={preset.id}
+                onClick={() => {
+                  setIsPresetMenuOpen(false);
+                  onNewChat(preset.id);
+                }}
+                className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white text-left"
+              >
+                <UserCircle size={16} className="text-purple-400 flex-shrink-0" />
+                <span className="truncate">{preset.name}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Search */}
+      <div className="px-4 pb-3">
+        <div className="flex items-center gap-2 bg-gray-800 border border-gray-700 rounded-lg px-3 focus-within:border-blue-500">
+          <Search size={14} className="text-gray-500 flex-shrink-0" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search messages..."
+            className="flex-1 min-w-0 bg-transparent py-2 text-sm text-white placeholder-gray-500 outline-none"
+          />
+          {query && (
+            <button onClick={() => setQuery('')} className="text-gray-500 hover:text-white" title="Clear Search">
+              <X size={14} />
+            </button>
+          )}
+          <button
+            onClick={() => setIsFilterOpen(!isFilterOpen)}
+            className={`${hasActiveFilters ? 'text-blue-400' : 'text-gray-500'} hover:text-white`}
+            title="Search Filters"
+          >
+            <SlidersHorizontal size={14} />
+          </button>
+        </div>
+
+        {isFilterOpen && (
+          <div className="mt-2 p-3 bg-gray-800/50 border border-gray-700 rounded-lg space-y-2 text-xs">
+            <select
+              value={filters.model}
+              onChange={(e) => setFilters({ ...filters, model: e.target.value })}
+              className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-gray-200 outline-none"
+            >
+              <option value="">All models</option>
+              {models.map(model => (
+                <option key={model} value={model}>{model}</option>
+              ))}
+            </select>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={filters.from}
+                onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-200 outline-none [color-scheme:dark]"
+                title="From"
+              />
+              <span className="text-gray-500">–</span>
+              <input
+                type="date"
+                value={filters.to}
+                onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-200 outline-none [color-scheme:dark]"
+                title="To"
+              />
+            </div>
+            {hasActiveFilters && (
+              <button
+                onClick={() => setFilters(EMPTY_SEARCH_FILTERS)}
+                className="text-gray-400 hover:text-white"
+              >
+                Clear filters
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
+      {/* Sorting and multi-select */}
+      {!isSearching && sessions.length > 0 && (
+        <div className="px-4 pb-2 flex items-center gap-2 text-xs">
+          <select
+            value={sortOrder}
+            onChange={(e) => onChangeSortOrder(e.target.value as SessionSortOrders)}
+            className="flex-1 min-w-0 bg-transparent text-gray-400 hover:text-gray-200 outline-none cursor-pointer"
+            title="Sort Chats"
+          >
+            {Object.values(SessionSortOrders).map(order => (
+              <option key={order} value={order} className="bg-gray-800">Sort: {SORT_ORDER_LABELS[order]}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => (isSelecting ? stopSelecting() : setIsSelecting(true))}
+            className={`flex items-center gap-1 px-2 py-1 rounded-md transition-colors ${isSelecting ? 'bg-blue-900/40 text-blue-300' : 'text-gray-400 hover:text-white hover:bg-gray-800'}`}
+          >
+            <CheckSquare size={14} />
+            {isSelecting ? 'Done' : 'Select'}
+          </button>
+        </div>
+      )}
+
+      {isSelecting && !isSearching && (
+        <div className="mx-2 mb-2 px-2 py-1.5 flex items-center gap-1 bg-gray-800/70 border border-gray-700 rounded-lg text-xs">
+          <button
+            onClick={() => setSelectedIds(selected.length === sessions.length ? new Set() : new Set(sessions.map(s => s.id)))}
+            className="px-1.5 py-1 text-gray-300 hover:text-white"
+            title={selected.length === sessions.length ? 'Select none' : 'Select all'}
+          >
+            {selected.length} selected
+          </button>
+          <div className="ml-auto flex items-center">
+            <div className="relative">
+              <button
+                onClick={() => setIsBulkFolderPickerOpen(true)}
+                disabled={selected.length === 0}
+                className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed rounded-md"
+                title="Move to Folder"
+              >
+                <FolderInput size={14} />
+              </button>
+              {isBulkFolderPickerOpen && (
+                <FolderPicker
+                  folders={folders}
+                  onPick={(folder) => onOrganizeSessions(selectedIdList, { folder })}
+                  onClose={() => setIsBulkFolderPickerOpen(false)}
+                />
+              )}
+            </div>
+            <button
+              onClick={() => onOrganizeSessions(selectedIdList, { archived: !allSelectedArchived })}
+              disabled={selected.length === 0}
+              className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed rounded-md"
+              title={allSelectedArchived ? 'Unarchive' : 'Archive'}
+            >
+              {allSelectedArchived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+            </button>
+            {selected.length > 0 && (
+              <ExportMenu
+                onExport={(format) => onExportSessions(selectedIdList, format)}
+                title="Export Selected"
+                className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded-md"
+              />
+            )}
+            <button
+              onClick={() => {
+                onDeleteSessions(selectedIdList);
+                setSelectedIds(new Set());
+              }}
+              disabled={selected.length === 0}
+              className="p-1.5 text-gray-400 hover:text-red-400 hover:bg-red-900/30 disabled:opacity-40 disabled:cursor-not-allowed rounded-md"
+              title="Delete Selected"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="flex-1 overflow-y-auto px-2 space-y-1 pb-4">
-        {sortedSessions.length === 0 ? (
+        {isSearching ? (
+            <SearchResults results={searchResults} onOpenResult={onOpenSearchResult} />
+        ) : sortedSessions.length === 0 ? (
             <div className="text-center text-gray-500 mt-10 text-sm">
                 No saved chats.
             </div>
         ) : (
-            sortedSessions.map((session) => (
-            <div
-                key={session.id}
-                onClick={() => onSelectSession(session.id)}
-                className={`group flex items-center justify-between p-3 rounded-lg cursor-pointer transition-colors border border-transparent ${
-                currentSessionId === session.id
-                    ? 'bg-blue-900/20 border-blue-800 text-white'
-                    : 'text-gray-400 hover:bg-gray-800 hover:text-gray-200'
-                }`}
-            >
-                <div className="flex items-center gap-3 overflow-hidden">
-                <MessageSquare size={16} className={currentSessionId === session.id ? 'text-blue-400' : 'text-gray-500'} />
-                <span className="truncate text-sm font-medium max-w-[140px]">
-                    {session.title}
-                </span>
+            <>
+              {folderTree.folders.map(folder => renderFolder(folder, 0))}
+              {folderTree.sessions.map(session => renderSession(session, 0))}
+
+              {archivedSessions.length > 0 && (
+                <div className="pt-3">
+                  <button
+                    onClick={() => setIsArchiveOpen(!isArchiveOpen)}
+                    className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-xs uppercase tracking-wider font-semibold text-gray-500 hover:text-gray-300 hover:bg-gray-800 transition-colors"
+                  >
+                    {isArchiveOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                    <Archive size={14} />
+                    Archived
+                    <span className="ml-auto tabular-nums">{archivedSessions.length}</span>
+                  </button>
+                  {isArchiveOpen && (
+                    <div className="space-y-1 mt-1">
+                      {archivedSessions.map(session => renderSession(session, 1))}
+                    </div>
+                  )}
                 </div>
-                <button
-                onClick={(e) => onDeleteSession(session.id, e)}
-                className="opacity-0 group-hover:opacity-100 p-1.5 hover:bg-red-900/30 text-gray-500 hover:text-red-400 rounded-md transition-all"
-                title="Delete Chat"
-                >
-                <Trash2 size={14} />
-                </button>
-            </div>
-            ))
+              )}
+            </>
         )}
       </div>
       
-      <div className="p-4 border-t border-gray-800 text-xs text-gray-600 text-center">
-        Powered by Gemini 3 Flash
+      <div className="p-3 border-t border-gray-800 flex items-center justify-between gap-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1.5 text-xs text-gray-400 hover:text-white px-2 py-1.5 rounded-md hover:bg-gray-800 transition-colors"
+          title="Import chats from a JSON export"
+        >
+          <Upload size={14} />
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        {sessions.length > 0 && (
+          <ExportMenu
+            onExport={onExportAll}
+            title="Export all chats"
+            label="Export all"
+            placement="up"
+            className="flex items-center gap-1.5 text-xs text-gray-400 hover:text-white px-2 py-1.5 rounded-md hover:bg-gray-800 transition-colors"
+          />
+        )}
       </div>
     </div>
   );
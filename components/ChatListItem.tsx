@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { MessageSquare, Trash2, MoreHorizontal, Pencil, Pin, PinOff, FolderInput, Archive, ArchiveRestore } from 'lucide-react';
+import { ChatSession, SessionOrganization } from '../types';
+import { ExportFormat } from '../services/exportService';
+import ExportMenu from './ExportMenu';
+import FolderPicker from './FolderPicker';
+
+interface ChatListItemProps {
+  session: ChatSession;
+  isActive: boolean;
+  // Nesting level in the folder tree, used for indentation
+  depth: number;
+  folders: string[];
+  // Multi-select mode replaces the row actions with a checkbox
+  isSelecting: boolean;
+  isSelected: boolean;
+  onToggleSelected: () => void;
+  onSelect: () => void;
+  onRename: (title: string) => void;
+  onOrganize: (patch: SessionOrganization) => void;
+  onDelete: () => void;
+  onExport: (format: ExportFormat) => void;
+}
+
+const MENU_ITEM_CLASS = 'w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white text-left';
+
+const ChatListItem: React.FC<ChatListItemProps> = ({
+  session,
+  isActive,
+  depth,
+  folders,
+  isSelecting,
+  isSelected,
+  onToggleSelected,
+  onSelect,
+  onRename,
+  onOrganize,
+  onDelete,
+  onExport,
+}) => {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isFolderPickerOpen, setIsFolderPickerOpen] = useState(false);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftTitle, setDraftTitle] = useState(session.title);
+
+  const startRenaming = () => {
+    setIsMenuOpen(false);
+    setDraftTitle(session.title);
+    setIsRenaming(true);
+  };
+
+  const finishRenaming = () => {
+    setIsRenaming(false);
+    const title = draftTitle.trim();
+    if (title && title !== session.title) onRename(title);
+  };
+
+  const runMenuAction = (action: () => void) => {
+    setIsMenuOpen(false);
+    action();
+  };
+
+  return (
+    <div
+      onClick={isSelecting ? onToggleSelected : onSelect}
+      onDoubleClick={isSelecting ? undefined : startRenaming}
+      style={{ paddingLeft: `${0.75 + depth * 0.75}rem` }}
+      className={`group relative flex items-center justify-between py-2.5 pr-2 rounded-lg cursor-pointer transition-colors border border-transparent ${
+        isActive && !isSelecting
+          ? 'bg-blue-900/20 border-blue-800 text-white'
+          : isSelected
+            ? 'bg-gray-800 text-gray-200'
+            : 'text-gray-400 hover:bg-gray-800 hover:text-gray-200'
+      }`}
+    >
+      <div className="flex items-center gap-3 overflow-hidden flex-1 min-w-0">
+        {isSelecting ? (
+          <input
+            type="checkbox"
+            checked={isSelected}
+            onChange={onToggleSelected}
+            onClick={(e) => e.stopPropagation()}
+            className="accent-blue-500 flex-shrink-0"
+          />
+        ) : session.pinned ? (
+          <Pin size={16} className="text-yellow-500/80 flex-shrink-0" />
+        ) : (
+          <MessageSquare size={16} className={`flex-shrink-0 ${isActive ? 'text-blue-400' : 'text-gray-500'}`} />
+        )}
+        {isRenaming ? (
+          <input
+            type="text"
+            value={draftTitle}
+            onChange={(e) => setDraftTitle(e.target.value)}
+            onClick={(e) => e.stopPropagation()}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') finishRenaming();
+              else if (e.key === 'Escape') setIsRenaming(false);
+            }}
+            onBlur={finishRenaming}
+            autoFocus
+            onFocus={(e) => e.target.select()}
+            className="flex-1 min-w-0 bg-gray-900 border border-blue-500 rounded px-2 py-0.5 text-sm text-white outline-none"
+          />
+        ) : (
+          <span className="truncate text-sm font-medium" title={session.title}>
+            {session.title}
+          </span>
+        )}
+      </div>
+
+      {!isSelecting && !isRenaming && (
+        <div
+          className={`flex items-center transition-all ${isMenuOpen || isFolderPickerOpen ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <ExportMenu
+            onExport={onExport}
+            title="Export Chat"
+            className="p-1.5 hover:bg-gray-700 text-gray-500 hover:text-gray-200 rounded-md transition-all"
+          />
+          <div className="relative">
+            <button
+              onClick={() => setIsMenuOpen(!isMenuOpen)}
+              className="p-1.5 hover:bg-gray-700 text-gray-500 hover:text-gray-200 rounded-md transition-all"
+              title="More Actions"
+            >
+              <MoreHorizontal size={14} />
+            </button>
+            {isMenuOpen && (
+              <>
+                <div className="fixed inset-0 z-40" onClick={() => setIsMenuOpen(false)} />
+                <div className="absolute right-0 top-full mt-1 z-50 w-44 bg-gray-800 border border-gray-700 rounded-lg shadow-xl py-1">
+                  <button onClick={startRenaming} className={MENU_ITEM_CLASS}>
+                    <Pencil size={14} />
+                    Rename
+                  </button>
+                  <button onClick={() => runMenuAction(() => onOrganize({ pinned: !session.pinned }))} className={MENU_ITEM_CLASS}>
+                    {session.pinned ? <PinOff size={14} /> : <Pin size={14} />}
+                    {session.pinned ? 'Unpin' : 'Pin'}
+                  </button>
+                  <button onClick={() => runMenuAction(() => setIsFolderPickerOpen(true))} className={MENU_ITEM_CLASS}>
+                    <FolderInput size={14} />
+                    Move to folder
+                  </button>
+                  <button onClick={() => runMenuAction(() => onOrganize({ archived: !session.archived }))} className={MENU_ITEM_CLASS}>
+                    {session.archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+                    {session.archived ? 'Unarchive' : 'Archive'}
+                  </button>
+                  <button
+                    onClick={() => runMenuAction(onDelete)}
+                    className="w-full flex items-center gap-2 px-3 py-2 text-sm text-red-400 hover:bg-red-900/30 text-left"
+                  >
+                    <Trash2 size={14} />
+                    Delete
+                  </button>
+                </div>
+              </>
+            )}
+            {isFolderPickerOpen && (
+              <FolderPicker
+                folders={folders}
+                current={session.folder}
+                onPick={(folder) => onOrganize({ folder })}
+                onClose={() => setIsFolderPickerOpen(false)}
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatListItem;
@@ -0,0 +1,175 @@
+import React, { useState, useEffect } from 'react';
+import { X, Save, BookmarkPlus, Trash2 } from 'lucide-react';
+import { PersonaPreset, SavedSchema, SessionSettings } from '../types';
+import { hasSessionSettingsErrors, pickSessionSettings } from '../services/sessionSettings';
+import SessionSettingsForm from './SessionSettingsForm';
+import StructuredOutputForm from './StructuredOutputForm';
+
+interface ChatSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: SessionSettings;
+  presets: PersonaPreset[];
+  onSave: (settings: SessionSettings) => void;
+  onSavePreset: (name: string, settings: SessionSettings) => void;
+  onDeletePreset: (id: string) => void;
+  schemas: SavedSchema[];
+  onSaveSchema: (name: string, schema: string) => void;
+  onDeleteSchema: (id: string) => void;
+}
+
+const ChatSettingsModal: React.FC<ChatSettingsModalProps> = ({
+  isOpen,
+  onClose,
+  settings,
+  presets,
+  onSave,
+  onSavePreset,
+  onDeletePreset,
+  schemas,
+  onSaveSchema,
+  onDeleteSchema,
+}) => {
+  const [localSettings, setLocalSettings] = useState<SessionSettings>(settings);
+  const [selectedPresetId, setSelectedPresetId] = useState('');
+  const [presetName, setPresetName] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setLocalSettings(settings);
+      setSelectedPresetId('');
+      setPresetName('');
+    }
+  }, [isOpen, settings]);
+
+  if (!isOpen) return null;
+
+  const hasErrors = hasSessionSettingsErrors(localSettings);
+
+  const handleApplyPreset = (id: string) => {
+    setSelectedPresetId(id);
+    const preset = presets.find(p => p.id === id);
+    if (preset) {
+      setLocalSettings(pickSessionSettings(preset.settings));
+    }
+  };
+
+  const handleSavePreset = () => {
+    if (!presetName.trim() || hasErrors) return;
+    onSavePreset(presetName.trim(), localSettings);
+    setPresetName('');
+  };
+
+  const handleSave = () => {
+    onSave(localSettings);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 border border-gray-700 rounded-xl shadow-2xl w-full max-w-2xl transform transition-all">
+        <div className="flex justify-between items-center p-6 border-b border-gray-700">
+          <h2 className="text-xl font-semibold text-white">Chat Settings</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
+          {/* Persona Presets */}
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Persona Preset
+            </label>
+            {presets.length === 0 ? (
+              <p className="text-xs text-gray-500">No saved presets yet. Save the settings below to reuse them in other chats.</p>
+            ) : (
+              <div className="flex gap-2">
+                <select
+                  value={selectedPresetId}
+                  onChange={(e) => handleApplyPreset(e.target.value)}
+                  className="flex-1 bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
+                >
+                  <option value="">Apply a preset...</option>
+                  {presets.map(preset => (
+                    <option key={preset.id} value={preset.id}>{preset.name}</option>
+                  ))}
+                </select>
+                {selectedPresetId && (
+                  <button
+                    onClick={() => {
+                      onDeletePreset(selectedPresetId);
+                      setSelectedPresetId('');
+                    }}
+                    className="p-2 text-gray-400 hover:text-red-400 hover:bg-red-900/30 rounded-lg transition-colors"
+                    title="Delete Preset"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          <SessionSettingsForm
+            value={localSettings}
+            onChange={setLocalSettings}
+            instructionHint="These instructions only apply to this chat. The conversation so far is kept as context."
+          />
+
+          <StructuredOutputForm
+            value={localSettings.structuredOutput}
+            onChange={(structuredOutput) => setLocalSettings({ ...localSettings, structuredOutput })}
+            schemas={schemas}
+            onSaveSchema={onSaveSchema}
+            onDeleteSchema={onDeleteSchema}
+          />
+
+          {/* Save as Preset */}
+          <div className="pt-6 border-t border-gray-700">
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Save as Preset
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+                className="flex-1 bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 text-white placeholder-gray-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm"
+                placeholder="e.g. Code Reviewer"
+              />
+              <button
+                onClick={handleSavePreset}
+                disabled={!presetName.trim() || hasErrors}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+              >
+                <BookmarkPlus size={18} />
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-700 bg-gray-800/50 rounded-b-xl">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-300 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={hasErrors}
+            className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors shadow-lg shadow-blue-900/20"
+          >
+            <Save size={18} />
+            Apply to Chat
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChatSettingsModal;
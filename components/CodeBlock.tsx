@@ -0,0 +1,206 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { Check, Copy, Download, Loader2, Play, Send, Square, X } from 'lucide-react';
+import { downloadFile } from '../services/exportService';
+import { formatSnippetOutput, getSnippetLanguage, runSnippet, SandboxResult } from '../services/sandboxService';
+
+// Fence labels models commonly use that Prism knows under another name
+const PRISM_LANGUAGES: Record<string, string> = {
+  'c++': 'cpp',
+  'objective-c': 'objectivec',
+  'c#': 'csharp',
+  'f#': 'fsharp',
+  'sh': 'bash',
+  'shell': 'bash',
+  'zsh': 'bash',
+};
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  javascript: 'js',
+  typescript: 'ts',
+  python: 'py',
+  ruby: 'rb',
+  rust: 'rs',
+  kotlin: 'kt',
+  csharp: 'cs',
+  cpp: 'cpp',
+  objectivec: 'm',
+  fsharp: 'fs',
+  bash: 'sh',
+  markdown: 'md',
+  yaml: 'yml',
+  text: 'txt',
+};
+
+const getFileExtension = (language: string) =>
+  FILE_EXTENSIONS[language] ?? (/^[a-z0-9]+$/.test(language) ? language : 'txt');
+
+const getLogLineColor = (line: string) => {
+  if (line.startsWith('[error] ')) return 'text-red-300';
+  if (line.startsWith('[warn] ')) return 'text-yellow-300';
+  return 'text-gray-300';
+};
+
+interface RunOutputProps {
+  outcome: SandboxResult;
+  onSend?: () => void;
+  onClose: () => void;
+}
+
+const RunOutput: React.FC<RunOutputProps> = ({ outcome, onSend, onClose }) => (
+  <div className="border-t border-gray-700 bg-gray-950 text-xs font-mono">
+    <div className="flex items-center justify-between px-3 py-1 text-gray-500 font-sans">
+      <span>{outcome.error ? 'Failed' : 'Output'} · {outcome.durationMs} ms</span>
+      <div className="flex items-center gap-1">
+        {onSend && (
+          <button
+            onClick={onSend}
+            className="flex items-center gap-1 px-1.5 py-0.5 rounded hover:text-gray-200 hover:bg-gray-700 transition-colors"
+            title="Send this output to the chat as a new message"
+          >
+            <Send size={12} />
+            Send to chat
+          </button>
+        )}
+        <button
+          onClick={onClose}
+          className="p-0.5 rounded hover:text-gray-200 hover:bg-gray-700 transition-colors"
+          title="Clear output"
+        >
+          <X size={12} />
+        </button>
+      </div>
+    </div>
+    <div className="px-3 pb-3 space-y-1 max-h-72 overflow-y-auto whitespace-pre-wrap break-words">
+      {outcome.logs.map((line, index) => (
+        <div key={index} className={getLogLineColor(line)}>{line}</div>
+      ))}
+      {outcome.result !== undefined && <div className="text-blue-300">← {outcome.result}</div>}
+      {outcome.error && <div className="text-red-400">{outcome.error}</div>}
+      {outcome.logs.length === 0 && outcome.result === undefined && !outcome.error && (
+        <div className="text-gray-500 italic font-sans">No output</div>
+      )}
+    </div>
+  </div>
+);
+
+interface CodeBlockProps {
+  // Label from the opening fence; empty when the block has none
+  language: string;
+  code: string;
+  // The buttons need a live page; static exports leave them out
+  showActions?: boolean;
+  // Shown instead of the highlighted code, e.g. a rendered diagram
+  children?: React.ReactNode;
+  // Posts the output of a run as a chat message; the option is hidden when not set
+  onSendOutput?: (text: string) => void;
+}
+
+const CodeBlock: React.FC<CodeBlockProps> = ({ language, code, showActions = true, children, onSendOutput }) => {
+  const [copied, setCopied] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [outcome, setOutcome] = useState<SandboxResult | null>(null);
+  const runControllerRef = useRef<AbortController | null>(null);
+  const normalizedLanguage = language.toLowerCase();
+  // The label comes from the reply, so only the map's own entries count, not e.g. "constructor"
+  const prismLanguage = Object.hasOwn(PRISM_LANGUAGES, normalizedLanguage)
+    ? PRISM_LANGUAGES[normalizedLanguage]
+    : normalizedLanguage || 'text';
+  const snippetLanguage = showActions ? getSnippetLanguage(normalizedLanguage) : null;
+
+  // A run outliving its block, e.g. after switching chats, is stopped along with its worker
+  useEffect(() => () => runControllerRef.current?.abort(), []);
+
+  const handleRun = async () => {
+    if (!snippetLanguage || isRunning) return;
+    const controller = new AbortController();
+    runControllerRef.current = controller;
+    setIsRunning(true);
+    const result = await runSnippet(code, snippetLanguage, controller.signal);
+    if (runControllerRef.current === controller) runControllerRef.current = null;
+    setIsRunning(false);
+    setOutcome(result);
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleDownload = () => {
+    downloadFile({
+      filename: `snippet.${getFileExtension(prismLanguage)}`,
+      content: code,
+      mimeType: 'text/plain',
+    });
+  };
+
+  return (
+    <div className="rounded-md overflow-hidden my-2 border border-gray-700">
+      <div className="flex items-center justify-between bg-gray-800 px-3 py-1 text-xs text-gray-400 border-b border-gray-700">
+        <span className="font-mono">{language || 'text'}</span>
+        {showActions && (
+          <div className="flex items-center gap-1">
+            {snippetLanguage && (
+              isRunning ? (
+                <button
+                  onClick={() => runControllerRef.current?.abort()}
+                  className="flex items-center gap-1 px-1.5 py-0.5 rounded hover:text-gray-200 hover:bg-gray-700 transition-colors"
+                  title="Stop the run"
+                >
+                  <Loader2 size={12} className="animate-spin" />
+                  <Square size={10} />
+                </button>
+              ) : (
+                <button
+                  onClick={handleRun}
+                  className="flex items-center gap-1 px-1.5 py-0.5 rounded hover:text-gray-200 hover:bg-gray-700 transition-colors"
+                  title="Run in a sandboxed worker without page, network or storage access"
+                >
+                  <Play size={12} />
+                  Run
+                </button>
+              )
+            )}
+            <button
+              onClick={handleCopy}
+              className="flex items-center gap-1 px-1.5 py-0.5 rounded hover:text-gray-200 hover:bg-gray-700 transition-colors"
+              title="Copy code"
+            >
+              {copied ? <Check size={12} className="text-green-400" /> : <Copy size={12} />}
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+            <button
+              onClick={handleDownload}
+              className="flex items-center gap-1 px-1.5 py-0.5 rounded hover:text-gray-200 hover:bg-gray-700 transition-colors"
+              title="Download as file"
+            >
+              <Download size={12} />
+            </button>
+          </div>
+        )}
+      </div>
+      {children ?? (
+        <SyntaxHighlighter
+          style={vscDarkPlus}
+          language={prismLanguage}
+          PreTag="div"
+          customStyle={{ margin: 0, padding: '1rem', background: '#111827' }}
+        >
+          {code}
+        </SyntaxHighlighter>
+      )}
+      {outcome && (
+        <RunOutput
+          outcome={outcome}
+          onSend={onSendOutput ? () => onSendOutput(formatSnippetOutput(language, outcome)) : undefined}
+          onClose={() => setOutcome(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CodeBlock;
@@ -0,0 +1,117 @@
+import React from 'react';
+import { Columns2, Plus, X } from 'lucide-react';
+import { ComparisonTarget, ModelIds, ProviderIds } from '../types';
+import { getDefaultModel } from '../services/chatProvider';
+import { MAX_COMPARISON_TARGETS, MIN_COMPARISON_TARGETS } from '../services/comparisonService';
+
+interface ComparisonBarProps {
+  targets: ComparisonTarget[];
+  onChange: (targets: ComparisonTarget[]) => void;
+  onClose: () => void;
+  disabled?: boolean;
+}
+
+const FIELD_CLASS = 'bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-xs text-white outline-none focus:border-blue-500 disabled:opacity-50';
+
+/**
+ * Picks the configurations compare mode sends the next message to, shown above the composer.
+ */
+const ComparisonBar: React.FC<ComparisonBarProps> = ({ targets, onChange, onClose, disabled = false }) => {
+  const updateTarget = (id: string, patch: Partial<ComparisonTarget>) => {
+    onChange(targets.map(target => (target.id === id ? { ...target, ...patch } : target)));
+  };
+
+  const addTarget = () => {
+    const last = targets[targets.length - 1];
+    onChange([...targets, { ...last, id: crypto.randomUUID() }]);
+  };
+
+  return (
+    <div className="mb-3 rounded-lg border border-gray-800 bg-gray-900/60 px-3 py-2">
+      <div className="flex items-center gap-2 mb-2 text-xs text-gray-400">
+        <Columns2 size={14} className="text-blue-400" />
+        <span className="flex-1">Compare mode: the next message is answered by each of these, side by side. Tools and grounding are off.</span>
+        <button onClick={onClose} className="p-1 text-gray-500 hover:text-white transition-colors" title="Leave compare mode">
+          <X size={14} />
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {targets.map(target => (
+          <div key={target.id} className="flex items-center gap-1.5 rounded-md border border-gray-700 bg-gray-800/60 px-2 py-1.5">
+            <select
+              value={target.provider}
+              onChange={(e) => {
+                const provider = e.target.value as ProviderIds;
+                updateTarget(target.id, { provider, model: getDefaultModel(provider) });
+              }}
+              disabled={disabled}
+              className={FIELD_CLASS}
+            >
+              <option value={ProviderIds.GEMINI}>Gemini</option>
+              <option value={ProviderIds.OPENAI_COMPATIBLE}>OpenAI-compatible</option>
+              <option value={ProviderIds.MOCK}>Mock</option>
+            </select>
+            {target.provider === ProviderIds.GEMINI ? (
+              <select
+                value={target.model}
+                onChange={(e) => updateTarget(target.id, { model: e.target.value })}
+                disabled={disabled}
+                className={FIELD_CLASS}
+              >
+                <option value={ModelIds.FLASH}>Gemini 3 Flash</option>
+                <option value={ModelIds.PRO}>Gemini 3 Pro</option>
+              </select>
+            ) : (
+              <input
+                type="text"
+                value={target.model}
+                onChange={(e) => updateTarget(target.id, { model: e.target.value })}
+                disabled={disabled || target.provider === ProviderIds.MOCK}
+                className={`${FIELD_CLASS} w-28 font-mono`}
+                placeholder="Model"
+              />
+            )}
+            <label className="flex items-center gap-1 text-[11px] text-gray-500" title="Temperature">
+              T
+              <input
+                type="number"
+                min={0}
+                max={2}
+                step={0.1}
+                value={target.temperature}
+                onChange={(e) => {
+                  const temperature = Number(e.target.value);
+                  if (e.target.value !== '' && temperature >= 0 && temperature <= 2) updateTarget(target.id, { temperature });
+                }}
+                disabled={disabled}
+                className={`${FIELD_CLASS} w-14`}
+              />
+            </label>
+            {targets.length > MIN_COMPARISON_TARGETS && (
+              <button
+                onClick={() => onChange(targets.filter(t => t.id !== target.id))}
+                disabled={disabled}
+                className="p-0.5 text-gray-500 hover:text-red-400 disabled:opacity-50 transition-colors"
+                title="Remove"
+              >
+                <X size={12} />
+              </button>
+            )}
+          </div>
+        ))}
+        {targets.length < MAX_COMPARISON_TARGETS && (
+          <button
+            onClick={addTarget}
+            disabled={disabled}
+            className="flex items-center gap-1 px-2 py-1.5 text-xs text-gray-400 hover:text-white border border-dashed border-gray-700 hover:border-gray-500 rounded-md disabled:opacity-50 transition-colors"
+          >
+            <Plus size={12} />
+            Add
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonBar;
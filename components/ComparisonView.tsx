@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Check, ChevronDown, ChevronRight, Columns2, Loader2, StopCircle } from 'lucide-react';
+import Markdown from './Markdown';
+import { Message, ModelPricing } from '../types';
+import { formatDuration } from '../services/comparisonService';
+import { getErrorGuidance } from '../services/errorService';
+import { formatCost, formatTokenCount, getMessageCost } from '../services/usageService';
+
+interface ComparisonViewProps {
+  // Every reply of the comparison, in the order they were started
+  replies: Message[];
+  // Reply that continues the conversation; unset while the user has not picked one
+  chosenId?: string;
+  pricing: Record<string, ModelPricing>;
+  isBusy: boolean;
+  onChoose: (messageId: string) => void;
+}
+
+interface ComparisonColumnProps {
+  message: Message;
+  isChosen: boolean;
+  canChoose: boolean;
+  cost: number | null;
+  onChoose: (messageId: string) => void;
+}
+
+const ComparisonColumn: React.FC<ComparisonColumnProps> = ({ message, isChosen, canChoose, cost, onChoose }) => {
+  const failure = message.status === 'error' ? message.error : undefined;
+  const isStreaming = !message.status;
+
+  return (
+    <div className={`flex flex-col min-w-0 rounded-xl border ${isChosen ? 'border-blue-600 bg-blue-900/10' : 'border-gray-800 bg-gray-900/40'}`}>
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-gray-800">
+        <span className="text-xs font-medium text-gray-300 truncate flex-1" title={message.comparison?.label}>
+          {message.comparison?.label ?? message.model}
+        </span>
+        {isStreaming && <Loader2 size={14} className="animate-spin text-gray-500 flex-shrink-0" />}
+        {message.interrupted && <StopCircle size={14} className="text-gray-500 flex-shrink-0" aria-label="Stopped" />}
+      </div>
+
+      <div className="flex-1 px-4 py-3 text-sm text-gray-100 min-w-0 overflow-x-auto">
+        {message.content && <Markdown content={message.content} />}
+        {failure && (
+          <div className="text-red-300">
+            <div className="flex items-center gap-2 font-medium">
+              <AlertTriangle size={14} />
+              {getErrorGuidance(failure.kind).title}
+            </div>
+            {failure.message && <p className="mt-1 text-xs text-gray-500 font-mono break-words">{failure.message}</p>}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 px-4 py-2 border-t border-gray-800 text-[11px] text-gray-500 tabular-nums">
+        <div className="flex-1 min-w-0 space-y-0.5">
+          {message.latency && (
+            <div title="Time to the first text, and to the end of the reply">
+              {message.latency.firstTokenMs !== undefined && <>first token {formatDuration(message.latency.firstTokenMs)} · </>}
+              {formatDuration(message.latency.totalMs)} total
+            </div>
+          )}
+          {message.usage && (
+            <div>
+              {formatTokenCount(message.usage.promptTokens)} in · {formatTokenCount(message.usage.outputTokens)} out
+              {message.usage.thinkingTokens > 0 && <> · {formatTokenCount(message.usage.thinkingTokens)} thinking</>}
+              {cost !== null && <> · {formatCost(cost)}</>}
+            </div>
+          )}
+        </div>
+        {isChosen ? (
+          <span className="flex items-center gap-1 text-xs text-blue-400 flex-shrink-0">
+            <Check size={12} />
+            Continued
+          </span>
+        ) : (
+          <button
+            onClick={() => onChoose(message.id)}
+            disabled={!canChoose || !!failure}
+            className="px-2.5 py-1 text-xs text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-md transition-colors flex-shrink-0"
+          >
+            Continue with this
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Streams re-render the view every frame; columns that did not change are skipped
+const MemoizedColumn = React.memo(ComparisonColumn);
+
+/**
+ * Answers from several configurations side by side. Until one is chosen the columns are shown
+ * in full; afterwards they fold into a line below the chosen answer and can be expanded again.
+ */
+const ComparisonView: React.FC<ComparisonViewProps> = ({ replies, chosenId, pricing, isBusy, onChoose }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const isDecided = chosenId !== undefined;
+  const columns = (
+    <div className={`grid grid-cols-1 gap-3 ${replies.length >= 3 ? 'lg:grid-cols-3' : 'md:grid-cols-2'}`}>
+      {replies.map(reply => (
+        <MemoizedColumn
+          key={reply.id}
+          message={reply}
+          isChosen={reply.id === chosenId}
+          canChoose={!isBusy}
+          cost={getMessageCost(reply, pricing)}
+          onChoose={onChoose}
+        />
+      ))}
+    </div>
+  );
+
+  if (!isDecided) {
+    return <div className="mb-6">{columns}</div>;
+  }
+
+  return (
+    <div className="mb-6 -mt-3 ml-12">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-gray-300 transition-colors"
+      >
+        {isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        <Columns2 size={12} />
+        Compared with {replies.length - 1} other {replies.length === 2 ? 'answer' : 'answers'}
+      </button>
+      {isExpanded && <div className="mt-3">{columns}</div>}
+    </div>
+  );
+};
+
+export default ComparisonView;
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Layers } from 'lucide-react';
+import Markdown from './Markdown';
+
+interface ContextDividerProps {
+  // Messages above the divider that are not sent in full
+  excludedCount: number;
+  // How many of those are covered by the summary
+  summarizedCount: number;
+  summary?: string;
+}
+
+/**
+ * Marks where the model's context starts, with the rolling summary that stands in for older messages.
+ */
+const ContextDivider: React.FC<ContextDividerProps> = ({ excludedCount, summarizedCount, summary }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const notSent = excludedCount - summarizedCount;
+
+  const label = [
+    summarizedCount > 0 && `${summarizedCount} earlier ${summarizedCount === 1 ? 'message is' : 'messages are'} summarized`,
+    notSent > 0 && `${notSent} ${notSent === 1 ? 'is' : 'are'} not sent to the model`,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center gap-3 text-xs text-gray-500">
+        <div className="flex-1 border-t border-dashed border-gray-700" />
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          disabled={!summary}
+          className="flex items-center gap-1.5 hover:text-gray-300 disabled:hover:text-gray-500 transition-colors"
+          title={summary ? 'Show summary' : undefined}
+        >
+          <Layers size={12} />
+          {label}
+          {summary && (isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />)}
+        </button>
+        <div className="flex-1 border-t border-dashed border-gray-700" />
+      </div>
+      {isExpanded && summary && (
+        <div className="mt-3 mx-auto max-w-2xl bg-gray-900 border border-gray-800 rounded-lg px-4 py-3 text-sm text-gray-300">
+          <Markdown content={summary} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContextDivider;
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { Download, FileJson, FileText, FileCode } from 'lucide-react';
+import { ExportFormat } from '../services/exportService';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  title: string;
+  label?: string;
+  className?: string;
+  iconSize?: number;
+  placement?: 'up' | 'down';
+}
+
+const FORMATS: { format: ExportFormat; label: string; icon: React.ReactNode }[] = [
+  { format: 'json', label: 'JSON (re-importable)', icon: <FileJson size={14} /> },
+  { format: 'markdown', label: 'Markdown', icon: <FileText size={14} /> },
+  { format: 'html', label: 'HTML transcript', icon: <FileCode size={14} /> },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, title, label, className, iconSize = 14, placement = 'down' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={className}
+        title={title}
+      >
+        <Download size={iconSize} />
+        {label}
+      </button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className={`absolute right-0 ${placement === 'up' ? 'bottom-full mb-1' : 'top-full mt-1'} z-50 w-48 bg-gray-800 border border-gray-700 rounded-lg shadow-xl py-1`}>
+            {FORMATS.map(({ format, label: formatLabel, icon }) => (
+              <button
+                key={format}
+                onClick={() => {
+                  setIsOpen(false);
+                  onExport(format);
+                }}
+                className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white text-left"
+              >
+                {icon}
+                {formatLabel}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
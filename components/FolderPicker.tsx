@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Folder, FolderPlus, Home } from 'lucide-react';
+import { normalizeFolderPath } from '../services/chatListService';
+
+interface FolderPickerProps {
+  folders: string[];
+  // Folder the chats are in now, highlighted in the list
+  current?: string;
+  onPick: (folder: string | undefined) => void;
+  onClose: () => void;
+  placement?: 'up' | 'down';
+}
+
+/**
+ * Dropdown for moving chats into an existing folder, a new one, or back to the top level.
+ * Nested folders are typed as paths, e.g. "Work/Reports".
+ */
+const FolderPicker: React.FC<FolderPickerProps> = ({ folders, current, onPick, onClose, placement = 'down' }) => {
+  const [newFolder, setNewFolder] = useState('');
+
+  const pick = (folder: string | undefined) => {
+    onPick(folder);
+    onClose();
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onClick={onClose} />
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className={`absolute right-0 ${placement === 'up' ? 'bottom-full mb-1' : 'top-full mt-1'} z-50 w-56 bg-gray-800 border border-gray-700 rounded-lg shadow-xl py-1`}
+      >
+        <button
+          onClick={() => pick(undefined)}
+          className={`w-full flex items-center gap-2 px-3 py-2 text-sm text-left hover:bg-gray-700 ${current ? 'text-gray-300' : 'text-white font-medium'}`}
+        >
+          <Home size={14} className="flex-shrink-0" />
+          No folder
+        </button>
+        <div className="max-h-48 overflow-y-auto">
+          {folders.map(folder => (
+            <button
+              key={folder}
+              onClick={() => pick(folder)}
+              className={`w-full flex items-center gap-2 px-3 py-2 text-sm text-left hover:bg-gray-700 ${folder === current ? 'text-white font-medium' : 'text-gray-300'}`}
+              title={folder}
+            >
+              <Folder size={14} className="flex-shrink-0 text-yellow-500/80" />
+              <span className="truncate">{folder}</span>
+            </button>
+          ))}
+        </div>
+        <div className="border-t border-gray-700 mt-1 px-2 pt-2 pb-1 flex items-center gap-1.5">
+          <FolderPlus size={14} className="text-gray-500 flex-shrink-0" />
+          <input
+            type="text"
+            value={newFolder}
+            onChange={(e) => setNewFolder(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && normalizeFolderPath(newFolder)) pick(normalizeFolderPath(newFolder));
+              else if (e.key === 'Escape') onClose();
+            }}
+            autoFocus
+            placeholder="New folder, e.g. Work/Reports"
+            className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-white placeholder-gray-500 outline-none focus:border-blue-500"
+          />
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default FolderPicker;
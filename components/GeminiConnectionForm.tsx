@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { CheckCircle2, Loader2, Plus, Trash2, XCircle } from 'lucide-react';
+import { ApiKeyProfile, AppSettings } from '../types';
+import { checkGeminiConnection, GeminiConfig } from '../services/geminiService';
+import { maskKey, validateKeyProfile } from '../services/apiKeyService';
+import { getErrorGuidance, toChatError } from '../services/errorService';
+
+type GeminiConnection = Pick<AppSettings, 'geminiProxyUrl' | 'geminiKeyProfiles' | 'activeGeminiKeyProfileId'>;
+
+// Result of the last "Test" per proxy or profile
+type CheckResult = { state: 'checking' } | { state: 'ok' } | { state: 'failed'; message: string };
+
+// Key for the result of testing the proxy; profiles use their id
+const PROXY_CHECK_ID = 'proxy';
+
+interface GeminiConnectionFormProps {
+  value: GeminiConnection;
+  onChange: (connection: GeminiConnection) => void;
+}
+
+const INPUT_CLASS = 'w-full bg-gray-900 border rounded-lg px-3 py-2 text-white placeholder-gray-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none font-mono text-sm';
+
+const CheckStatus: React.FC<{ result?: CheckResult }> = ({ result }) => {
+  if (!result) return null;
+  if (result.state === 'checking') return <Loader2 size={14} className="animate-spin text-gray-400" />;
+  if (result.state === 'ok') return <CheckCircle2 size={14} className="text-green-400" aria-label="Works" />;
+  return (
+    <span className="flex items-center gap-1 text-xs text-red-400 min-w-0" title={result.message}>
+      <XCircle size={14} className="flex-shrink-0" />
+      <span className="truncate">{result.message}</span>
+    </span>
+  );
+};
+
+/**
+ * How the app reaches Gemini: a proxy that keeps the key on a server, or named keys stored in
+ * this browser that can be switched and rotated without rebuilding the app.
+ */
+const GeminiConnectionForm: React.FC<GeminiConnectionFormProps> = ({ value, onChange }) => {
+  const [newName, setNewName] = useState('');
+  const [newKey, setNewKey] = useState('');
+  const [checks, setChecks] = useState<Record<string, CheckResult>>({});
+
+  const draft = { name: newName, key: newKey };
+  const errors = validateKeyProfile(draft, value.geminiKeyProfiles);
+  const isProxied = value.geminiProxyUrl.trim().length > 0;
+
+  const runCheck = async (id: string, config: GeminiConfig) => {
+    setChecks(prev => ({ ...prev, [id]: { state: 'checking' } }));
+    try {
+      await checkGeminiConnection(config);
+      setChecks(prev => ({ ...prev, [id]: { state: 'ok' } }));
+    } catch (error) {
+      const chatError = toChatError(error);
+      setChecks(prev => ({ ...prev, [id]: { state: 'failed', message: `${getErrorGuidance(chatError.kind).title}: ${chatError.message}` } }));
+    }
+  };
+
+  const addProfile = () => {
+    if (errors.name || errors.key) return;
+    const profile: ApiKeyProfile = { id: crypto.randomUUID(), name: newName.trim(), key: newKey.trim() };
+    onChange({
+      ...value,
+      geminiKeyProfiles: [...value.geminiKeyProfiles, profile],
+      // The first key entered is used right away
+      activeGeminiKeyProfileId: value.activeGeminiKeyProfileId ?? profile.id,
+    });
+    setNewName('');
+    setNewKey('');
+  };
+
+  const deleteProfile = (id: string) => {
+    onChange({
+      ...value,
+      geminiKeyProfiles: value.geminiKeyProfiles.filter(p => p.id !== id),
+      activeGeminiKeyProfileId: value.activeGeminiKeyProfileId === id ? null : value.activeGeminiKeyProfileId,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Proxy URL <span className="text-gray-500 font-normal">(optional)</span>
+        </label>
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={value.geminiProxyUrl}
+            onChange={(e) => onChange({ ...value, geminiProxyUrl: e.target.value })}
+            className={`${INPUT_CLASS} border-gray-600`}
+            placeholder="http://localhost:8787"
+          />
+          <button
+            onClick={() => runCheck(PROXY_CHECK_ID, { proxyUrl: value.geminiProxyUrl.trim() })}
+            disabled={!isProxied}
+            className="px-3 py-2 text-sm text-gray-300 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+          >
+            Test
+          </button>
+        </div>
+        <div className="mt-1 flex items-center gap-2 min-h-[1rem]">
+          <CheckStatus result={checks[PROXY_CHECK_ID]} />
+          {!checks[PROXY_CHECK_ID] && (
+            <p className="text-xs text-gray-500">
+              Started with <code className="font-mono">npm run proxy</code>, it holds the key so it never reaches the browser. When set, the keys below are not used.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className={isProxied ? 'opacity-50' : ''}>
+        <label className="block text-sm font-medium text-gray-300 mb-2">API keys</label>
+        <div className="space-y-1">
+          <label className="flex items-center gap-3 px-3 py-2 rounded-lg bg-gray-900/50 cursor-pointer">
+            <input
+              type="radio"
+              name="gemini-key-profile"
+              checked={value.activeGeminiKeyProfileId === null}
+              onChange={() => onChange({ ...value, activeGeminiKeyProfileId: null })}
+              className="accent-blue-500"
+            />
+            <span className="text-sm text-gray-300 flex-1">Key from .env.local</span>
+            <span className="text-xs text-gray-500">{process.env.API_KEY ? 'built into the app' : 'not set'}</span>
+          </label>
+          {value.geminiKeyProfiles.map(profile => (
+            <div key={profile.id} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-gray-900/50">
+              <input
+                type="radio"
+                name="gemini-key-profile"
+                checked={value.activeGeminiKeyProfileId === profile.id}
+                onChange={() => onChange({ ...value, activeGeminiKeyProfileId: profile.id })}
+                className="accent-blue-500"
+                aria-label={`Use ${profile.name}`}
+              />
+              <span className="text-sm text-gray-200 truncate">{profile.name}</span>
+              <span className="text-xs text-gray-500 font-mono">{maskKey(profile.key)}</span>
+              <div className="flex-1 flex justify-end min-w-0">
+                <CheckStatus result={checks[profile.id]} />
+              </div>
+              <button
+                onClick={() => runCheck(profile.id, { apiKey: profile.key })}
+                className="px-2 py-1 text-xs text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-md transition-colors"
+              >
+                Test
+              </button>
+              <button
+                onClick={() => deleteProfile(profile.id)}
+                className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+                title="Delete key"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-3 grid grid-cols-1 md:grid-cols-[10rem_1fr_auto] gap-2 items-start">
+          <div>
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              className={`${INPUT_CLASS} ${newName && errors.name ? 'border-red-500' : 'border-gray-600'}`}
+              placeholder="Name, e.g. Personal"
+            />
+            {newName && errors.name && <p className="text-xs text-red-400 mt-1">{errors.name}</p>}
+          </div>
+          <div>
+            <input
+              type="password"
+              value={newKey}
+              onChange={(e) => setNewKey(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addProfile()}
+              className={`${INPUT_CLASS} ${newKey && errors.key ? 'border-red-500' : 'border-gray-600'}`}
+              placeholder="AIza..."
+              autoComplete="off"
+            />
+            {newKey && errors.key && <p className="text-xs text-red-400 mt-1">{errors.key}</p>}
+          </div>
+          <button
+            onClick={addProfile}
+            disabled={!!(errors.name || errors.key)}
+            className="flex items-center justify-center gap-1.5 px-3 py-2 text-sm text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+          >
+            <Plus size={14} />
+            Add key
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          Keys are stored in this browser only. Anyone with access to this browser profile can read them, so use the proxy for shared deployments.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default GeminiConnectionForm;
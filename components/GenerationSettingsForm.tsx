@@ -0,0 +1,273 @@
+import React, { useState } from 'react';
+import { RotateCcw, X } from 'lucide-react';
+import { GenerationSettings, HarmCategories, SafetyThresholds } from '../types';
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  GenerationSettingsErrors,
+  MAX_STOP_SEQUENCES,
+} from '../services/sessionSettings';
+
+interface GenerationSettingsFormProps {
+  value: GenerationSettings;
+  errors: GenerationSettingsErrors;
+  onChange: (generation: GenerationSettings) => void;
+}
+
+interface FieldProps {
+  label: string;
+  hint?: string;
+  error?: string;
+  isDefault: boolean;
+  onReset: () => void;
+  children: React.ReactNode;
+}
+
+const HARM_CATEGORY_LABELS: Record<HarmCategories, string> = {
+  [HarmCategories.HARASSMENT]: 'Harassment',
+  [HarmCategories.HATE_SPEECH]: 'Hate speech',
+  [HarmCategories.SEXUALLY_EXPLICIT]: 'Sexually explicit',
+  [HarmCategories.DANGEROUS_CONTENT]: 'Dangerous content',
+};
+
+const THRESHOLD_LABELS: Record<SafetyThresholds, string> = {
+  [SafetyThresholds.DEFAULT]: 'Model default',
+  [SafetyThresholds.BLOCK_LOW_AND_ABOVE]: 'Block low and above',
+  [SafetyThresholds.BLOCK_MEDIUM_AND_ABOVE]: 'Block medium and above',
+  [SafetyThresholds.BLOCK_ONLY_HIGH]: 'Block only high',
+  [SafetyThresholds.BLOCK_NONE]: 'Block none',
+  [SafetyThresholds.OFF]: 'Off',
+};
+
+const inputClassName = (error?: string) =>
+  `w-full bg-gray-900 border ${error ? 'border-red-500' : 'border-gray-600'} rounded-lg px-3 py-2 text-white text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none`;
+
+// Empty inputs become NaN so validation reports them instead of silently saving 0
+const parseNumber = (value: string) => (value === '' ? NaN : Number(value));
+
+const formatNumber = (value: number) => (Number.isNaN(value) ? '' : value);
+
+const Field: React.FC<FieldProps> = ({ label, hint, error, isDefault, onReset, children }) => (
+  <div>
+    <div className="flex justify-between items-center mb-1.5">
+      <label className="block text-sm font-medium text-gray-300">{label}</label>
+      {!isDefault && (
+        <button
+          onClick={onReset}
+          className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-300 transition-colors"
+          title="Reset to default"
+        >
+          <RotateCcw size={12} />
+          Reset
+        </button>
+      )}
+    </div>
+    {children}
+    {error ? (
+      <p className="text-xs text-red-400 mt-1">{error}</p>
+    ) : hint ? (
+      <p className="text-xs text-gray-500 mt-1">{hint}</p>
+    ) : null}
+  </div>
+);
+
+const GenerationSettingsForm: React.FC<GenerationSettingsFormProps> = ({ value, errors, onChange }) => {
+  const [stopSequenceDraft, setStopSequenceDraft] = useState('');
+
+  const update = <K extends keyof GenerationSettings>(key: K, fieldValue: GenerationSettings[K]) => {
+    onChange({ ...value, [key]: fieldValue });
+  };
+
+  const reset = (key: keyof GenerationSettings) => {
+    update(key, DEFAULT_GENERATION_SETTINGS[key]);
+  };
+
+  const handleAddStopSequence = () => {
+    if (!stopSequenceDraft) return;
+    update('stopSequences', [...value.stopSequences, stopSequenceDraft]);
+    setStopSequenceDraft('');
+  };
+
+  const isSafetyDefault = Object.values(HarmCategories).every(
+    category => value.safetySettings[category] === DEFAULT_GENERATION_SETTINGS.safetySettings[category]
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Field
+          label="Temperature"
+          hint="0 – 2. Higher values give more varied answers."
+          error={errors.temperature}
+          isDefault={value.temperature === DEFAULT_GENERATION_SETTINGS.temperature}
+          onReset={() => reset('temperature')}
+        >
+          <input
+            type="number"
+            min={0}
+            max={2}
+            step={0.05}
+            value={formatNumber(value.temperature)}
+            onChange={(e) => update('temperature', parseNumber(e.target.value))}
+            className={inputClassName(errors.temperature)}
+          />
+        </Field>
+
+        <Field
+          label="Top-P"
+          hint="0 – 1. Nucleus sampling cutoff."
+          error={errors.topP}
+          isDefault={value.topP === DEFAULT_GENERATION_SETTINGS.topP}
+          onReset={() => reset('topP')}
+        >
+          <input
+            type="number"
+            min={0}
+            max={1}
+            step={0.01}
+            value={formatNumber(value.topP)}
+            onChange={(e) => update('topP', parseNumber(e.target.value))}
+            className={inputClassName(errors.topP)}
+          />
+        </Field>
+
+        <Field
+          label="Top-K"
+          hint="Gemini only. Number of candidate tokens to sample from."
+          error={errors.topK}
+          isDefault={value.topK === DEFAULT_GENERATION_SETTINGS.topK}
+          onReset={() => reset('topK')}
+        >
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={formatNumber(value.topK)}
+            onChange={(e) => update('topK', parseNumber(e.target.value))}
+            className={inputClassName(errors.topK)}
+          />
+        </Field>
+
+        <Field
+          label="Max Output Tokens"
+          error={errors.maxOutputTokens}
+          isDefault={value.maxOutputTokens === DEFAULT_GENERATION_SETTINGS.maxOutputTokens}
+          onReset={() => reset('maxOutputTokens')}
+        >
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={formatNumber(value.maxOutputTokens)}
+            onChange={(e) => update('maxOutputTokens', parseNumber(e.target.value))}
+            className={inputClassName(errors.maxOutputTokens)}
+          />
+        </Field>
+
+        <Field
+          label="Thinking Budget"
+          hint="Gemini only. -1 lets the model decide, 0 turns thinking off where the model allows it."
+          error={errors.thinkingBudget}
+          isDefault={
+            value.thinkingBudget === DEFAULT_GENERATION_SETTINGS.thinkingBudget &&
+            value.includeThoughts === DEFAULT_GENERATION_SETTINGS.includeThoughts
+          }
+          onReset={() => onChange({
+            ...value,
+            thinkingBudget: DEFAULT_GENERATION_SETTINGS.thinkingBudget,
+            includeThoughts: DEFAULT_GENERATION_SETTINGS.includeThoughts,
+          })}
+        >
+          <input
+            type="number"
+            min={-1}
+            step={1}
+            value={formatNumber(value.thinkingBudget)}
+            onChange={(e) => update('thinkingBudget', parseNumber(e.target.value))}
+            className={inputClassName(errors.thinkingBudget)}
+          />
+          <label
+            className={`flex items-center gap-2 mt-2 text-xs text-gray-400 ${value.thinkingBudget === 0 ? 'opacity-50' : 'cursor-pointer'}`}
+            title="Gemini sends summaries of its thinking; OpenAI-compatible servers send the reasoning of models that share it"
+          >
+            <input
+              type="checkbox"
+              checked={value.includeThoughts}
+              disabled={value.thinkingBudget === 0}
+              onChange={(e) => update('includeThoughts', e.target.checked)}
+              className="accent-blue-500"
+            />
+            Show thought summaries
+          </label>
+        </Field>
+
+        <Field
+          label="Stop Sequences"
+          hint={`Up to ${MAX_STOP_SEQUENCES}. Press Enter to add.`}
+          error={errors.stopSequences}
+          isDefault={value.stopSequences.length === 0}
+          onReset={() => reset('stopSequences')}
+        >
+          <input
+            type="text"
+            value={stopSequenceDraft}
+            onChange={(e) => setStopSequenceDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAddStopSequence();
+              }
+            }}
+            disabled={value.stopSequences.length >= MAX_STOP_SEQUENCES}
+            className={`${inputClassName(errors.stopSequences)} disabled:opacity-50`}
+            placeholder="e.g. ###"
+          />
+          {value.stopSequences.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mt-2">
+              {value.stopSequences.map((sequence, index) => (
+                <span key={index} className="flex items-center gap-1 bg-gray-700 text-gray-200 text-xs font-mono rounded px-2 py-1">
+                  {JSON.stringify(sequence)}
+                  <button
+                    onClick={() => update('stopSequences', value.stopSequences.filter((_, i) => i !== index))}
+                    className="text-gray-400 hover:text-white"
+                  >
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </Field>
+      </div>
+
+      {/* Safety Settings */}
+      <Field
+        label="Safety Thresholds"
+        hint="Gemini only. Categories left at the model default are not sent."
+        isDefault={isSafetyDefault}
+        onReset={() => reset('safetySettings')}
+      >
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {Object.values(HarmCategories).map(category => (
+            <div key={category}>
+              <span className="block text-xs text-gray-400 mb-1">{HARM_CATEGORY_LABELS[category]}</span>
+              <select
+                value={value.safetySettings[category]}
+                onChange={(e) => update('safetySettings', {
+                  ...value.safetySettings,
+                  [category]: e.target.value as SafetyThresholds,
+                })}
+                className={inputClassName()}
+              >
+                {Object.values(SafetyThresholds).map(threshold => (
+                  <option key={threshold} value={threshold}>{THRESHOLD_LABELS[threshold]}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      </Field>
+    </div>
+  );
+};
+
+export default GenerationSettingsForm;
@@ -1,54 +1,116 @@
-import React from 'react';
-import ReactMarkdown from 'react-markdown';
-import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
-import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import React, { createContext, useContext, useMemo } from 'react';
+import ReactMarkdown, { Components, Options } from 'react-markdown';
+import type { Element } from 'hast';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import CodeBlock from './CodeBlock';
+import MermaidDiagram from './MermaidDiagram';
+import { SOURCE_ANCHOR_PREFIX } from '../services/groundingService';
 
 interface MarkdownProps {
   content: string;
+  // Rendered outside the app, e.g. into an exported file: no buttons, and math as MathML,
+  // which browsers display without KaTeX's stylesheet
+  standalone?: boolean;
+  // Lets the output of a code block run be sent to the chat
+  onSendCodeOutput?: (text: string) => void;
 }
 
-const Markdown: React.FC<MarkdownProps> = ({ content }) => {
+const REMARK_PLUGINS: Options['remarkPlugins'] = [remarkGfm, remarkMath];
+const APP_REHYPE_PLUGINS: Options['rehypePlugins'] = [[rehypeKatex, { output: 'htmlAndMathml' }]];
+const STANDALONE_REHYPE_PLUGINS: Options['rehypePlugins'] = [[rehypeKatex, { output: 'mathml' }]];
+
+const CLOSING_FENCE = /^\s*(`{3,}|~{3,})\s*$/;
+
+/**
+ * While a reply streams in, its last code block may not have a closing fence yet. Markdown still
+ * renders it as a block running to the end of the text, which is fine for code but not for
+ * diagrams, so those wait until the fence is closed.
+ */
+const isFenceClosed = (content: string, node: Element | undefined): boolean => {
+  const start = node?.position?.start.offset;
+  const end = node?.position?.end.offset;
+  if (start === undefined || end === undefined) return true;
+  const lines = content.slice(start, end).trimEnd().split('\n');
+  return lines.length > 1 && CLOSING_FENCE.test(lines[lines.length - 1]);
+};
+
+// What the renderers below need from the Markdown being rendered. They are defined once at module
+// scope, since a new renderer on each render would be a new component type and remount every block.
+const MarkdownContext = createContext<MarkdownProps>({ content: '' });
+
+// Fenced and indented blocks; inline code is handled by `renderCode`
+const renderPre: Components['pre'] = ({ node, children }) => {
+  const { content, standalone, onSendCodeOutput } = useContext(MarkdownContext);
+  const codeElement = React.Children.toArray(children)[0] as React.ReactElement<{ className?: string; children?: React.ReactNode }>;
+  const className = codeElement?.props?.className || '';
+  // Fence labels can contain symbols, e.g. c++ or objective-c
+  const language = /language-(\S+)/.exec(className)?.[1] ?? '';
+  const code = String(codeElement?.props?.children ?? '').replace(/\n$/, '');
+  if (language === 'mermaid' && !standalone && isFenceClosed(content, node)) {
+    return <MermaidDiagram code={code} />;
+  }
+  return <CodeBlock language={language} code={code} showActions={!standalone} onSendOutput={onSendCodeOutput} />;
+};
+
+// `node` is taken out so it does not end up as a DOM attribute
+const renderCode: Components['code'] = ({ node, children, ...props }) => (
+  <code {...props} className="bg-gray-800 px-1.5 py-0.5 rounded text-pink-300 font-mono text-sm">
+    {children}
+  </code>
+);
+
+const COMPONENTS: Components = {
+  pre: renderPre,
+  code: renderCode,
+  p: ({ children }) => <p className="mb-2 last:mb-0 leading-relaxed">{children}</p>,
+  ul: ({ children, className }) => (
+    <ul className={className?.includes('contains-task-list') ? 'ml-1 mb-2 space-y-1' : 'list-disc ml-4 mb-2 space-y-1'}>{children}</ul>
+  ),
+  ol: ({ children }) => <ol className="list-decimal ml-4 mb-2 space-y-1">{children}</ol>,
+  li: ({ children, className }) => (
+    <li className={className?.includes('task-list-item') ? 'mb-1 list-none flex items-start gap-2' : 'mb-1'}>{children}</li>
+  ),
+  input: ({ type, checked }) => type === 'checkbox'
+    ? <input type="checkbox" checked={!!checked} readOnly disabled className="mt-1.5 accent-blue-500" />
+    : null,
+  del: ({ children }) => <del className="line-through text-gray-400">{children}</del>,
+  table: ({ children }) => (
+    <div className="overflow-x-auto my-2">
+      <table className="border-collapse text-sm">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => <th style={style} className="border border-gray-700 bg-gray-800 px-3 py-1.5 text-left font-semibold">{children}</th>,
+  td: ({ children, style }) => <td style={style} className="border border-gray-700 px-3 py-1.5">{children}</td>,
+  a: ({ href, children }) => href?.startsWith(`#${SOURCE_ANCHOR_PREFIX}`) ? (
+      // Citation marker pointing at an entry in the reply's source list
+      <a href={href} className="citation inline-flex items-center justify-center min-w-[1.1rem] h-[1.1rem] px-1 mx-0.5 align-super text-[10px] leading-none rounded bg-gray-700 text-gray-200 no-underline hover:bg-blue-600">
+          {children}
+      </a>
+  ) : (
+      <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">
+          {children}
+      </a>
+  ),
+};
+
+const Markdown: React.FC<MarkdownProps> = ({ content, standalone = false, onSendCodeOutput }) => {
+  const context = useMemo(() => ({ content, standalone, onSendCodeOutput }), [content, standalone, onSendCodeOutput]);
+
   return (
-    <ReactMarkdown
-      className="prose prose-invert prose-sm max-w-none break-words"
-      components={{
-        code({ node, inline, className, children, ...props }: any) {
-          const match = /language-(\w+)/.exec(className || '');
-          return !inline && match ? (
-            <div className="rounded-md overflow-hidden my-2 border border-gray-700">
-                <div className="bg-gray-800 px-3 py-1 text-xs text-gray-400 border-b border-gray-700 font-mono">
-                    {match[1]}
-                </div>
-                <SyntaxHighlighter
-                {...props}
-                style={vscDarkPlus}
-                language={match[1]}
-                PreTag="div"
-                customStyle={{ margin: 0, padding: '1rem', background: '#111827' }}
-                >
-                {String(children).replace(/\n$/, '')}
-                </SyntaxHighlighter>
-            </div>
-          ) : (
-            <code {...props} className="bg-gray-800 px-1.5 py-0.5 rounded text-pink-300 font-mono text-sm">
-              {children}
-            </code>
-          );
-        },
-        p: ({ children }) => <p className="mb-2 last:mb-0 leading-relaxed">{children}</p>,
-        ul: ({ children }) => <ul className="list-disc ml-4 mb-2 space-y-1">{children}</ul>,
-        ol: ({ children }) => <ol className="list-decimal ml-4 mb-2 space-y-1">{children}</ol>,
-        li: ({ children }) => <li className="mb-1">{children}</li>,
-        a: ({ href, children }) => (
-            <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">
-                {children}
-            </a>
-        ),
-      }}
-    >
-      {content}
-    </ReactMarkdown>
+    <div className="prose prose-invert prose-sm max-w-none break-words">
+      <MarkdownContext.Provider value={context}>
+        <ReactMarkdown
+          remarkPlugins={REMARK_PLUGINS}
+          rehypePlugins={standalone ? STANDALONE_REHYPE_PLUGINS : APP_REHYPE_PLUGINS}
+          components={COMPONENTS}
+        >
+          {content}
+        </ReactMarkdown>
+      </MarkdownContext.Provider>
+    </div>
   );
 };
 
-export default Markdown;
\ No newline at end of file
+export default Markdown;
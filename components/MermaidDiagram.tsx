@@ -0,0 +1,70 @@
+import React, { useEffect, useId, useState } from 'react';
+import type { Mermaid } from 'mermaid';
+import CodeBlock from './CodeBlock';
+
+// Mermaid is large, so it is only loaded once a reply actually contains a diagram
+let mermaidPromise: Promise<Mermaid> | null = null;
+
+const loadMermaid = () => {
+  mermaidPromise ??= import('mermaid').then(({ default: mermaid }) => {
+    mermaid.initialize({ startOnLoad: false, theme: 'dark', securityLevel: 'strict' });
+    return mermaid;
+  });
+  return mermaidPromise;
+};
+
+interface MermaidDiagramProps {
+  code: string;
+}
+
+/**
+ * Renders a Mermaid diagram, falling back to its source with the parse error when the syntax is invalid.
+ */
+const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ code }) => {
+  // useId contains colons, which Mermaid cannot use in the selectors it builds from the id
+  const diagramId = `mermaid-${useId().replace(/[^a-zA-Z0-9_-]/g, '')}`;
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const render = async () => {
+      try {
+        const mermaid = await loadMermaid();
+        // Parsing first keeps Mermaid from drawing its own error graphic into the page
+        await mermaid.parse(code);
+        const result = await mermaid.render(diagramId, code);
+        if (cancelled) return;
+        setSvg(result.svg);
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        setSvg(null);
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    };
+    render();
+    return () => { cancelled = true; };
+  }, [code, diagramId]);
+
+  if (error) {
+    return (
+      <div>
+        <p className="text-xs text-red-400 mb-1">Could not render the diagram: {error.split('\n')[0]}</p>
+        <CodeBlock language="mermaid" code={code} />
+      </div>
+    );
+  }
+
+  return (
+    <CodeBlock language="mermaid" code={code}>
+      {svg ? (
+        <div className="flex justify-center overflow-x-auto bg-gray-900 p-4" dangerouslySetInnerHTML={{ __html: svg }} />
+      ) : (
+        <div className="bg-gray-900 p-4 text-xs text-gray-500">Rendering diagram…</div>
+      )}
+    </CodeBlock>
+  );
+};
+
+export default MermaidDiagram;
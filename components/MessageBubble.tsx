@@ -1,15 +1,81 @@
 import React from 'react';
-import { User, Sparkles, Copy, Check } from 'lucide-react';
+import { User, Sparkles, Copy, Check, StopCircle, Pencil, RefreshCw, ChevronLeft, ChevronRight, AlertTriangle, RotateCcw } from 'lucide-react';
 import Markdown from './Markdown';
+import AttachmentList from './AttachmentList';
+import ToolCallBlock from './ToolCallBlock';
+import SourceList from './SourceList';
+import StructuredReply from './StructuredReply';
+import ThoughtPanel from './ThoughtPanel';
+import { formatCost, formatTokenCount } from '../services/usageService';
+import { hasGrounding, insertCitationMarkers, toSourceAnchorLink } from '../services/groundingService';
+import { getErrorGuidance } from '../services/errorService';
 import { Message } from '../types';
 
 interface MessageBubbleProps {
   message: Message;
+  isHighlighted?: boolean;
+  // Disables actions that would start a new generation
+  isBusy?: boolean;
+  // Position among the alternative versions of this message
+  siblingIndex?: number;
+  siblingCount?: number;
+  // Callbacks take the message id, so the list can pass the same functions to every bubble
+  onSelectSibling?: (messageId: string, index: number) => void;
+  onEdit?: (messageId: string, content: string) => void;
+  onRegenerate?: (messageId: string) => void;
+  // Sends the same turn again after this reply failed
+  onRetry?: (messageId: string) => void;
+  // Estimated price of this reply; null when its model has no price set
+  cost?: number | null;
+  // Set when the context strategy no longer sends this message in full
+  contextStatus?: 'summarized' | 'excluded';
+  onConfirmToolCall?: (callId: string, approved: boolean) => void;
+  // Sends the output of a code block run as a new message
+  onSendCodeOutput?: (text: string) => void;
 }
 
-const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
+const MessageBubble: React.FC<MessageBubbleProps> = ({
+  message,
+  isHighlighted = false,
+  isBusy = false,
+  siblingIndex = 0,
+  siblingCount = 1,
+  onSelectSibling,
+  onEdit,
+  onRegenerate,
+  onRetry,
+  cost = null,
+  contextStatus,
+  onConfirmToolCall,
+  onSendCodeOutput,
+}) => {
   const isUser = message.role === 'user';
+  const failure = message.status === 'error' ? message.error : undefined;
+  const guidance = failure ? getErrorGuidance(failure.kind) : null;
   const [copied, setCopied] = React.useState(false);
+  const [isEditing, setIsEditing] = React.useState(false);
+  const [draft, setDraft] = React.useState(message.content);
+
+  const renderedContent = React.useMemo(
+    () => message.grounding
+      ? insertCitationMarkers(message.content, message.grounding.citations, index => toSourceAnchorLink(message.id, index))
+      : message.content,
+    [message.id, message.content, message.grounding]
+  );
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  // A prompt with attachments may be sent without text
+  const canSubmitEdit = (!!draft.trim() || !!message.attachments?.length) && !isBusy;
+
+  const handleSubmitEdit = () => {
+    if (!canSubmitEdit) return;
+    setIsEditing(false);
+    onEdit?.(message.id, draft);
+  };
 
   const handleCopy = () => {
     navigator.clipboard.writeText(message.content);
@@ -18,8 +84,13 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
   };
 
   return (
-    <div className={`flex w-full mb-6 ${isUser ? 'justify-end' : 'justify-start'}`}>
-      <div className={`flex max-w-4xl w-full gap-4 ${isUser ? 'flex-row-reverse' : 'flex-row'}`}>
+    <div
+      id={`message-${message.id}`}
+      className={`flex w-full mb-6 rounded-2xl transition-colors duration-700 ${isUser ? 'justify-end' : 'justify-start'} ${
+        isHighlighted ? 'bg-yellow-500/10 ring-1 ring-yellow-500/40' : ''
+      }`}
+    >
+      <div className={`flex max-w-4xl w-full gap-4 ${isUser ? 'flex-row-reverse' : 'flex-row'} ${contextStatus ? 'opacity-50 hover:opacity-100 transition-opacity' : ''}`}>
         
         {/* Avatar */}
         <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${
@@ -35,21 +106,187 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
                  {/* Action buttons could go here */}
              </div>
           )}
-          
-          <div className="text-gray-100 text-base">
-            <Markdown content={message.content} />
-          </div>
 
-          {/* Footer actions for model messages */}
-          {!isUser && (
-            <div className="mt-2 flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-               <button 
-                onClick={handleCopy}
-                className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-gray-300 px-2 py-1 rounded bg-gray-800/50 hover:bg-gray-700 transition-colors"
-               >
-                 {copied ? <Check size={12} className="text-green-400" /> : <Copy size={12} />}
-                 {copied ? 'Copied' : 'Copy'}
-               </button>
+          {message.thoughts && (
+            <ThoughtPanel thoughts={message.thoughts} isThinking={!message.status && !message.content && !message.toolCalls?.length} />
+          )}
+
+          {message.toolCalls && message.toolCalls.length > 0 && (
+            <div className={`space-y-2 ${message.content ? 'mb-3' : ''}`}>
+              {message.toolCalls.map(call => (
+                <ToolCallBlock key={call.id} call={call} onConfirm={onConfirmToolCall} />
+              ))}
+            </div>
+          )}
+
+          {isEditing ? (
+            <div>
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    handleSubmitEdit();
+                  } else if (e.key === 'Escape') {
+                    setIsEditing(false);
+                  }
+                }}
+                autoFocus
+                rows={Math.min(10, draft.split('\n').length + 1)}
+                className="w-full bg-gray-900 text-white rounded-lg p-3 border border-gray-700 focus:border-blue-500 outline-none resize-none text-base"
+              />
+              <div className="mt-2 flex justify-end gap-2">
+                <button
+                  onClick={() => setIsEditing(false)}
+                  className="px-3 py-1.5 text-sm text-gray-300 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSubmitEdit}
+                  disabled={!canSubmitEdit}
+                  className="px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                >
+                  Save & Submit
+                </button>
+              </div>
+            </div>
+          ) : message.structured ? (
+            (message.content || !failure) && (
+              <StructuredReply content={message.content} structured={message.structured} isComplete={!!message.status} />
+            )
+          ) : message.content && (
+            <div className="text-gray-100 text-base">
+              <Markdown content={renderedContent} onSendCodeOutput={isBusy ? undefined : onSendCodeOutput} />
+            </div>
+          )}
+
+          {failure && guidance && (
+            <div className={`${message.content ? 'mt-3' : ''} rounded-xl border border-red-900/50 bg-red-950/20 px-4 py-3`}>
+              <div className="flex items-center gap-2 text-sm font-medium text-red-300">
+                <AlertTriangle size={16} />
+                {guidance.title}
+              </div>
+              <p className="mt-1 text-sm text-gray-300">{guidance.hint}</p>
+              {failure.message && (
+                <p className="mt-1 text-xs text-gray-500 font-mono break-words">{failure.message}</p>
+              )}
+              {onRetry && (
+                <button
+                  onClick={() => onRetry(message.id)}
+                  disabled={isBusy}
+                  className="mt-3 flex items-center gap-1.5 text-xs text-white px-3 py-1.5 rounded-lg bg-red-700/70 hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <RotateCcw size={12} />
+                  Retry
+                </button>
+              )}
+            </div>
+          )}
+
+          {hasGrounding(message.grounding) && (
+            <div className="mt-3">
+              <SourceList messageId={message.id} grounding={message.grounding} />
+            </div>
+          )}
+
+          {message.attachments && message.attachments.length > 0 && (
+            <div className={message.content ? 'mt-3' : ''}>
+              <AttachmentList attachments={message.attachments} size="lg" />
+            </div>
+          )}
+
+          {message.interrupted && (
+            <div className="mt-2 flex items-center gap-1.5 text-xs text-gray-500 italic">
+              <StopCircle size={12} />
+              Response stopped
+            </div>
+          )}
+
+          {/* Footer: version navigation and actions */}
+          {!isEditing && (
+            <div className={`mt-2 flex items-center gap-2 ${isUser ? 'justify-end' : ''}`}>
+              {siblingCount > 1 && onSelectSibling && (
+                <div className="flex items-center gap-0.5 text-xs text-gray-500">
+                  <button
+                    onClick={() => onSelectSibling(message.id, siblingIndex - 1)}
+                    disabled={siblingIndex === 0 || isBusy}
+                    className="p-0.5 rounded hover:text-gray-200 disabled:opacity-30 disabled:cursor-not-allowed"
+                    title="Previous version"
+                  >
+                    <ChevronLeft size={14} />
+                  </button>
+                  <span className="tabular-nums">{siblingIndex + 1}/{siblingCount}</span>
+                  <button
+                    onClick={() => onSelectSibling(message.id, siblingIndex + 1)}
+                    disabled={siblingIndex === siblingCount - 1 || isBusy}
+                    className="p-0.5 rounded hover:text-gray-200 disabled:opacity-30 disabled:cursor-not-allowed"
+                    title="Next version"
+                  >
+                    <ChevronRight size={14} />
+                  </button>
+                </div>
+              )}
+
+              <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                {isUser ? (
+                  onEdit && (
+                    <button
+                      onClick={startEditing}
+                      disabled={isBusy}
+                      className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-gray-300 px-2 py-1 rounded bg-gray-800/50 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      <Pencil size={12} />
+                      Edit
+                    </button>
+                  )
+                ) : (
+                  <>
+                    {message.content && (
+                      <button
+                        onClick={handleCopy}
+                        className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-gray-300 px-2 py-1 rounded bg-gray-800/50 hover:bg-gray-700 transition-colors"
+                      >
+                        {copied ? <Check size={12} className="text-green-400" /> : <Copy size={12} />}
+                        {copied ? 'Copied' : 'Copy'}
+                      </button>
+                    )}
+                    {onRegenerate && !failure && (
+                      <button
+                        onClick={() => onRegenerate(message.id)}
+                        disabled={isBusy}
+                        className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-gray-300 px-2 py-1 rounded bg-gray-800/50 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        <RefreshCw size={12} />
+                        Regenerate
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+
+              {contextStatus && (
+                <span
+                  className={`text-[11px] px-1.5 py-0.5 rounded border ${isUser ? '' : 'ml-auto'} border-gray-700 text-gray-500`}
+                  title={contextStatus === 'summarized'
+                    ? 'Covered by the summary of earlier messages instead of being sent in full'
+                    : 'Left out of the context to stay within the token budget'}
+                >
+                  {contextStatus === 'summarized' ? 'Summarized' : 'Not in context'}
+                </span>
+              )}
+
+              {message.usage && (
+                <span
+                  className="ml-auto text-[11px] text-gray-600 tabular-nums"
+                  title={`Prompt: ${message.usage.promptTokens} tokens\nOutput: ${message.usage.outputTokens} tokens\nThinking: ${message.usage.thinkingTokens} tokens`}
+                >
+                  {formatTokenCount(message.usage.promptTokens)} in · {formatTokenCount(message.usage.outputTokens)} out
+                  {message.usage.thinkingTokens > 0 && <> · {formatTokenCount(message.usage.thinkingTokens)} thinking</>}
+                  {cost !== null && <> · {formatCost(cost)}</>}
+                </span>
+              )}
             </div>
           )}
         </div>
@@ -58,4 +295,5 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
   );
 };
 
-export default MessageBubble;
\ No newline at end of file
+// Only the bubble whose props changed re-renders, e.g. the one being streamed into
+export default React.memo(MessageBubble);
\ No newline at end of file
@@ -0,0 +1,205 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { ArrowDown } from 'lucide-react';
+import { Message } from '../types';
+import { getItemOffsets, getVisibleRange } from '../services/virtualList';
+
+interface MessageListProps {
+  // Switching sessions starts again at the latest message
+  sessionId: string;
+  messages: Message[];
+  renderMessage: (message: Message) => React.ReactNode;
+  // Shown after the last message, e.g. a progress indicator
+  footer?: React.ReactNode;
+  // Message to bring into view, e.g. one opened from search
+  scrollToMessageId?: string | null;
+}
+
+// Height rendered beyond the viewport on both sides
+const OVERSCAN_PX = 1000;
+// Distance from the bottom within which the list keeps following new content
+const FOLLOW_THRESHOLD_PX = 80;
+
+interface MeasuredRowProps {
+  id: string;
+  observer: ResizeObserver | null;
+  children: React.ReactNode;
+}
+
+// flow-root keeps the bubble's bottom margin inside the row, so it is part of the measured height
+const MeasuredRow: React.FC<MeasuredRowProps> = ({ id, observer, children }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const element = ref.current;
+    if (!element || !observer) return;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, [observer]);
+
+  return (
+    <div ref={ref} data-message-id={id} className="flow-root">
+      {children}
+    </div>
+  );
+};
+
+/**
+ * Scrollable list of the messages in a branch. Only the messages near the viewport are rendered;
+ * the rest are stood in for by padding based on their measured or estimated heights.
+ * The list follows new content while scrolled to the bottom, and offers a button back to the
+ * latest message once the user scrolls up.
+ */
+const MessageList: React.FC<MessageListProps> = ({ sessionId, messages, renderMessage, footer, scrollToMessageId }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const offsetsRef = useRef<number[]>([0]);
+  const indexByIdRef = useRef(new Map<string, number>());
+  const isFollowingRef = useRef(true);
+  const lastScrollTopRef = useRef(0);
+  const lastMessageIdRef = useRef<string | null>(null);
+  // Message to center once it has been rendered
+  const pendingScrollIdRef = useRef<string | null>(null);
+  const [observer, setObserver] = useState<ResizeObserver | null>(null);
+  const [, setMeasureCount] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [isFollowing, setIsFollowing] = useState(true);
+
+  const follow = (value: boolean) => {
+    isFollowingRef.current = value;
+    setIsFollowing(value);
+  };
+
+  // Records row heights. Rows that change entirely above the viewport shift the scroll position
+  // by the same amount, so what the user is reading stays put
+  useEffect(() => {
+    const rowObserver = new ResizeObserver(entries => {
+      const scroller = scrollRef.current;
+      const top = scroller?.scrollTop ?? 0;
+      let shift = 0;
+      let changed = false;
+      for (const entry of entries) {
+        const id = (entry.target as HTMLElement).dataset.messageId;
+        if (!id) continue;
+        const height = entry.target.getBoundingClientRect().height;
+        const index = indexByIdRef.current.get(id);
+        const previous = index === undefined ? undefined : offsetsRef.current[index + 1] - offsetsRef.current[index];
+        if (previous === height) continue;
+        if (index !== undefined && previous !== undefined && offsetsRef.current[index + 1] <= top) {
+          shift += height - previous;
+        }
+        heightsRef.current.set(id, height);
+        changed = true;
+      }
+      if (!changed) return;
+      if (scroller && shift !== 0 && !isFollowingRef.current) scroller.scrollTop += shift;
+      setMeasureCount(count => count + 1);
+    });
+    setObserver(rowObserver);
+    return () => rowObserver.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    const viewportObserver = new ResizeObserver(() => setViewportHeight(scroller.clientHeight));
+    viewportObserver.observe(scroller);
+    return () => viewportObserver.disconnect();
+  }, []);
+
+  useLayoutEffect(() => {
+    follow(true);
+    lastMessageIdRef.current = null;
+  }, [sessionId]);
+
+  useLayoutEffect(() => {
+    if (!scrollToMessageId || !indexByIdRef.current.has(scrollToMessageId)) return;
+    const scroller = scrollRef.current;
+    const index = indexByIdRef.current.get(scrollToMessageId)!;
+    follow(false);
+    pendingScrollIdRef.current = scrollToMessageId;
+    // Jump to the estimated position so the message gets rendered, then center it once it is
+    if (scroller) scroller.scrollTop = offsetsRef.current[index] - scroller.clientHeight / 2;
+  }, [scrollToMessageId, sessionId]);
+
+  // Runs after every render: keeps the bottom in view while following, and finishes scrolling
+  // to a requested message once it is on screen
+  useLayoutEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    const lastMessage = messages[messages.length - 1];
+    // A message the user just sent is always shown
+    if (lastMessage && lastMessage.id !== lastMessageIdRef.current && lastMessage.role === 'user' && lastMessageIdRef.current) {
+      follow(true);
+    }
+    lastMessageIdRef.current = lastMessage?.id ?? null;
+
+    const pendingId = pendingScrollIdRef.current;
+    const pendingElement = pendingId ? document.getElementById(`message-${pendingId}`) : null;
+    if (pendingElement) {
+      pendingScrollIdRef.current = null;
+      pendingElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    } else if (isFollowingRef.current) {
+      scroller.scrollTop = scroller.scrollHeight;
+    }
+  });
+
+  const handleScroll = () => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    const distance = scroller.scrollHeight - scroller.scrollTop - scroller.clientHeight;
+    if (distance <= FOLLOW_THRESHOLD_PX) {
+      if (!isFollowingRef.current) follow(true);
+    } else if (scroller.scrollTop < lastScrollTopRef.current && isFollowingRef.current) {
+      follow(false);
+    }
+    lastScrollTopRef.current = scroller.scrollTop;
+    setScrollTop(scroller.scrollTop);
+  };
+
+  const jumpToLatest = () => {
+    const scroller = scrollRef.current;
+    follow(true);
+    if (scroller) scroller.scrollTop = scroller.scrollHeight;
+  };
+
+  const ids = messages.map(m => m.id);
+  const offsets = getItemOffsets(ids, heightsRef.current);
+  offsetsRef.current = offsets;
+  indexByIdRef.current = new Map(ids.map((id, index) => [id, index]));
+  const range = getVisibleRange(offsets, scrollTop, viewportHeight || window.innerHeight, OVERSCAN_PX);
+
+  return (
+    <main className="flex-1 min-h-0 relative">
+      <div
+        ref={scrollRef}
+        onScroll={handleScroll}
+        // Scroll position is corrected by hand when rows above the viewport change size
+        style={{ overflowAnchor: 'none' }}
+        className="h-full overflow-y-auto p-4 md:p-8"
+      >
+        <div className="max-w-4xl mx-auto pb-4">
+          <div style={{ height: range.paddingTop }} />
+          {messages.slice(range.start, range.end).map(message => (
+            <MeasuredRow key={message.id} id={message.id} observer={observer}>
+              {renderMessage(message)}
+            </MeasuredRow>
+          ))}
+          <div style={{ height: range.paddingBottom }} />
+          {footer}
+        </div>
+      </div>
+      {!isFollowing && (
+        <button
+          onClick={jumpToLatest}
+          className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-gray-800 border border-gray-700 text-sm text-gray-200 hover:bg-gray-700 shadow-lg transition-colors"
+        >
+          <ArrowDown size={14} />
+          Jump to latest
+        </button>
+      )}
+    </main>
+  );
+};
+
+export default MessageList;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { User, Sparkles } from 'lucide-react';
+import { SearchResult } from '../services/searchService';
+
+interface SearchResultsProps {
+  results: SearchResult[];
+  onOpenResult: (sessionId: string, messageId: string) => void;
+}
+
+const SearchResults: React.FC<SearchResultsProps> = ({ results, onOpenResult }) => {
+  if (results.length === 0) {
+    return (
+      <div className="text-center text-gray-500 mt-10 text-sm">
+        No matching messages.
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {results.map(result => (
+        <button
+          key={result.messageId}
+          onClick={() => onOpenResult(result.sessionId, result.messageId)}
+          className="w-full text-left p-3 rounded-lg text-gray-400 hover:bg-gray-800 hover:text-gray-200 transition-colors"
+        >
+          <div className="flex items-center gap-2 mb-1 text-xs text-gray-500">
+            {result.role === 'user'
+              ? <User size={12} className="text-blue-400 flex-shrink-0" />
+              : <Sparkles size={12} className="text-purple-400 flex-shrink-0" />}
+            <span className="truncate font-medium text-gray-300">{result.sessionTitle}</span>
+            <span className="ml-auto flex-shrink-0">{new Date(result.timestamp).toLocaleDateString()}</span>
+          </div>
+          <p className="text-xs leading-relaxed line-clamp-3 break-words">
+            {result.snippet.map((part, index) =>
+              part.isMatch
+                ? <mark key={index} className="bg-yellow-500/30 text-yellow-100 rounded px-0.5">{part.text}</mark>
+                : <span key={index}>{part.text}</span>
+            )}
+          </p>
+        </button>
+      ))}
+      {results.length >= 100 && (
+        <div className="text-center text-gray-600 text-xs py-2">
+          Showing the 100 most recent matches. Refine your search to see more.
+        </div>
+      )}
+    </>
+  );
+};
+
+export default SearchResults;
@@ -0,0 +1,216 @@
+import React from 'react';
+import { ContextStrategies, GroundingSettings, ModelIds, ProviderIds, SessionSettings } from '../types';
+import { getDefaultModel } from '../services/chatProvider';
+import { MIN_CONTEXT_TOKENS, validateContextSettings, validateGenerationSettings } from '../services/sessionSettings';
+import { listTools } from '../services/toolService';
+import GenerationSettingsForm from './GenerationSettingsForm';
+
+const GROUNDING_OPTIONS: { key: keyof GroundingSettings; title: string; description: string }[] = [
+  { key: 'googleSearch', title: 'Google Search', description: 'Lets the model search the web and cite the pages it used.' },
+  { key: 'urlContext', title: 'URL context', description: 'Lets the model read pages at links you include in a message.' },
+];
+
+const STRATEGY_HINTS: Record<ContextStrategies, string> = {
+  [ContextStrategies.FULL]: 'Always sends the whole conversation. Long chats can exceed the model\'s context window.',
+  [ContextStrategies.SLIDING_WINDOW]: 'Sends the most recent messages that fit the budget and leaves older ones out.',
+  [ContextStrategies.PINNED_FIRST]: 'Like the sliding window, but always keeps the first message, e.g. a task description.',
+  [ContextStrategies.ROLLING_SUMMARY]: 'Replaces older messages with a summary written by an extra model call.',
+};
+
+interface SessionSettingsFormProps {
+  value: SessionSettings;
+  onChange: (settings: SessionSettings) => void;
+  instructionHint: React.ReactNode;
+}
+
+const SessionSettingsForm: React.FC<SessionSettingsFormProps> = ({ value, onChange, instructionHint }) => {
+  const contextErrors = validateContextSettings(value.context);
+
+  const toggleTool = (name: string, enabled: boolean) => {
+    const enabledTools = enabled
+      ? [...value.enabledTools, name]
+      : value.enabledTools.filter(toolName => toolName !== name);
+    onChange({ ...value, enabledTools });
+  };
+
+  const supportsGrounding = value.provider !== ProviderIds.OPENAI_COMPATIBLE;
+  const isGrounded = value.grounding.googleSearch || value.grounding.urlContext;
+
+  return (
+    <div className="space-y-6">
+      {/* Provider Selection */}
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Provider
+        </label>
+        <select
+          value={value.provider}
+          onChange={(e) => {
+            const provider = e.target.value as ProviderIds;
+            onChange({ ...value, provider, model: getDefaultModel(provider) });
+          }}
+          className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
+        >
+          <option value={ProviderIds.GEMINI}>Google Gemini</option>
+          <option value={ProviderIds.OPENAI_COMPATIBLE}>OpenAI-compatible (OpenAI, Ollama, llama.cpp)</option>
+          <option value={ProviderIds.MOCK}>Offline mock (no network)</option>
+        </select>
+      </div>
+
+      {/* Model Selection */}
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Model
+        </label>
+        {value.provider === ProviderIds.GEMINI ? (
+          <select
+            value={value.model}
+            onChange={(e) => onChange({ ...value, model: e.target.value })}
+            className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
+          >
+            <option value={ModelIds.FLASH}>Gemini 3.0 Flash (Fast & Efficient)</option>
+            <option value={ModelIds.PRO}>Gemini 3.0 Pro (Complex Reasoning)</option>
+          </select>
+        ) : (
+          <input
+            type="text"
+            value={value.model}
+            onChange={(e) => onChange({ ...value, model: e.target.value })}
+            disabled={value.provider === ProviderIds.MOCK}
+            className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 text-white placeholder-gray-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none font-mono text-sm disabled:opacity-50"
+            placeholder="e.g. llama3.1, qwen2.5-coder, gpt-4o-mini"
+          />
+        )}
+      </div>
+
+      {/* Generation Parameters */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-300 mb-3">Generation Parameters</h4>
+        <GenerationSettingsForm
+          value={value.generation}
+          errors={validateGenerationSettings(value.generation, value.model)}
+          onChange={(generation) => onChange({ ...value, generation })}
+        />
+      </div>
+
+      {/* Context Management */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-300 mb-3">Context Management</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1.5">Strategy</label>
+            <select
+              value={value.context.strategy}
+              onChange={(e) => onChange({ ...value, context: { ...value.context, strategy: e.target.value as ContextStrategies } })}
+              className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+            >
+              <option value={ContextStrategies.FULL}>Full history</option>
+              <option value={ContextStrategies.SLIDING_WINDOW}>Sliding window</option>
+              <option value={ContextStrategies.PINNED_FIRST}>Sliding window, pin first message</option>
+              <option value={ContextStrategies.ROLLING_SUMMARY}>Rolling summary</option>
+            </select>
+            <p className="text-xs text-gray-500 mt-1">{STRATEGY_HINTS[value.context.strategy]}</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1.5">Token budget</label>
+            <input
+              type="number"
+              min={MIN_CONTEXT_TOKENS}
+              step={1000}
+              value={Number.isNaN(value.context.maxTokens) ? '' : value.context.maxTokens}
+              onChange={(e) => onChange({
+                ...value,
+                context: { ...value.context, maxTokens: e.target.value === '' ? NaN : Number(e.target.value) },
+              })}
+              disabled={value.context.strategy === ContextStrategies.FULL}
+              className={`w-full bg-gray-900 border ${contextErrors.maxTokens ? 'border-red-500' : 'border-gray-600'} rounded-lg px-3 py-2 text-white text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none disabled:opacity-50`}
+            />
+            {contextErrors.maxTokens ? (
+              <p className="text-xs text-red-400 mt-1">{contextErrors.maxTokens}</p>
+            ) : (
+              <p className="text-xs text-gray-500 mt-1">Estimated tokens for the system instruction and history sent with each message.</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Tools */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-300 mb-1">Tools</h4>
+        <p className="text-xs text-gray-500 mb-3">Functions the model may call. Tools marked "asks first" wait for your approval every time.</p>
+        <div className="space-y-2">
+          {listTools().map(tool => (
+            <label key={tool.name} className="flex items-start gap-3 p-3 bg-gray-900 border border-gray-700 rounded-lg cursor-pointer hover:border-gray-600">
+              <input
+                type="checkbox"
+                checked={value.enabledTools.includes(tool.name)}
+                onChange={(e) => toggleTool(tool.name, e.target.checked)}
+                className="mt-0.5 accent-blue-500"
+              />
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-gray-200">{tool.title}</span>
+                  {tool.requiresConfirmation && (
+                    <span className="text-[10px] uppercase tracking-wider text-yellow-400 border border-yellow-700/60 rounded px-1">Asks first</span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-0.5 line-clamp-2">{tool.description}</p>
+              </div>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Grounding */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-300 mb-1">Grounding</h4>
+        <p className="text-xs text-gray-500 mb-3">
+          {supportsGrounding
+            ? 'Answers come with numbered citations linked to a list of their sources.'
+            : 'Only available with Google Gemini.'}
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {GROUNDING_OPTIONS.map(option => (
+            <label
+              key={option.key}
+              className={`flex items-start gap-3 p-3 bg-gray-900 border border-gray-700 rounded-lg ${supportsGrounding ? 'cursor-pointer hover:border-gray-600' : 'opacity-50'}`}
+            >
+              <input
+                type="checkbox"
+                checked={value.grounding[option.key]}
+                disabled={!supportsGrounding}
+                onChange={(e) => onChange({ ...value, grounding: { ...value.grounding, [option.key]: e.target.checked } })}
+                className="mt-0.5 accent-blue-500"
+              />
+              <div className="min-w-0">
+                <span className="text-sm text-gray-200">{option.title}</span>
+                <p className="text-xs text-gray-500 mt-0.5">{option.description}</p>
+              </div>
+            </label>
+          ))}
+        </div>
+        {value.provider === ProviderIds.GEMINI && isGrounded && value.enabledTools.length > 0 && (
+          <p className="text-xs text-yellow-400/80 mt-2">Gemini cannot combine grounding with function tools, so the tools above are not offered while it is on.</p>
+        )}
+      </div>
+
+      {/* System Instructions */}
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          System Instructions
+        </label>
+        <p className="text-xs text-gray-400 mb-3">
+          {instructionHint}
+        </p>
+        <textarea
+          value={value.systemInstruction}
+          onChange={(e) => onChange({ ...value, systemInstruction: e.target.value })}
+          className="w-full h-48 bg-gray-900 border border-gray-600 rounded-lg p-4 text-white placeholder-gray-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none font-mono text-sm leading-relaxed"
+          placeholder="e.g., You are a senior Python engineer. Always provide code snippets. Be concise."
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SessionSettingsForm;
@@ -1,6 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { X, Save, AlertTriangle } from 'lucide-react';
-import { AppSettings, ModelIds } from '../types';
+import { AppSettings, ModelIds, ModelPricing } from '../types';
+import SessionSettingsForm from './SessionSettingsForm';
+import GeminiConnectionForm from './GeminiConnectionForm';
+import { hasSessionSettingsErrors } from '../services/sessionSettings';
+
+// Cleared inputs are kept as NaN so they fail validation instead of saving a price of 0
+const formatPrice = (value: number | undefined) => (value === undefined || Number.isNaN(value) ? '' : value);
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -20,6 +26,18 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
 
   if (!isOpen) return null;
 
+  const hasInvalidPrice = Object.values(localSettings.pricing).some(
+    price => !(price.inputPerMillion >= 0) || !(price.outputPerMillion >= 0)
+  );
+  const hasErrors = hasSessionSettingsErrors(localSettings) || hasInvalidPrice;
+
+  const updatePrice = (model: string, patch: Partial<ModelPricing>) => {
+    setLocalSettings({
+      ...localSettings,
+      pricing: { ...localSettings.pricing, [model]: { ...localSettings.pricing[model], ...patch } },
+    });
+  };
+
   const handleSave = () => {
     onSave(localSettings);
     onClose();
@@ -35,42 +53,97 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
           </button>
         </div>
 
-        <div className="p-6 space-y-6">
-          {/* Model Selection */}
+        <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
+          {/* Connection */}
           <div>
-            <label className="block text-sm font-medium text-gray-300 mb-2">
-              Model
-            </label>
-            <select
-              value={localSettings.model}
-              onChange={(e) => setLocalSettings({ ...localSettings, model: e.target.value })}
-              className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
-            >
-              <option value={ModelIds.FLASH}>Gemini 3.0 Flash (Fast & Efficient)</option>
-              <option value={ModelIds.PRO}>Gemini 3.0 Pro (Complex Reasoning)</option>
-            </select>
+            <h3 className="text-sm font-semibold text-gray-200 mb-3">Google Gemini</h3>
+            <GeminiConnectionForm
+              value={localSettings}
+              onChange={(connection) => setLocalSettings({ ...localSettings, ...connection })}
+            />
           </div>
 
-          {/* System Instructions */}
-          <div>
-            <label className="block text-sm font-medium text-gray-300 mb-2">
-              System Instructions
-            </label>
-            <p className="text-xs text-gray-400 mb-3">
-              These instructions will be applied to <strong>every</strong> chat session. Use this to define the persona, strict rules, or formatting preferences for Gemini.
-            </p>
-            <textarea
-              value={localSettings.systemInstruction}
-              onChange={(e) => setLocalSettings({ ...localSettings, systemInstruction: e.target.value })}
-              className="w-full h-48 bg-gray-900 border border-gray-600 rounded-lg p-4 text-white placeholder-gray-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none font-mono text-sm leading-relaxed"
-              placeholder="e.g., You are a senior Python engineer. Always provide code snippets. Be concise."
+          <div className="pt-6 border-t border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-200 mb-3">OpenAI-compatible server</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Base URL
+                </label>
+                <input
+                  type="text"
+                  value={localSettings.openAiBaseUrl}
+                  onChange={(e) => setLocalSettings({ ...localSettings, openAiBaseUrl: e.target.value })}
+                  className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 text-white placeholder-gray-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none font-mono text-sm"
+                  placeholder="http://localhost:11434/v1"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  API Key <span className="text-gray-500 font-normal">(optional for local servers)</span>
+                </label>
+                <input
+                  type="password"
+                  value={localSettings.openAiApiKey}
+                  onChange={(e) => setLocalSettings({ ...localSettings, openAiApiKey: e.target.value })}
+                  className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 text-white placeholder-gray-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none font-mono text-sm"
+                  placeholder="sk-..."
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Defaults for new chats */}
+          <div className="pt-6 border-t border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-200 mb-3">Defaults for new chats</h3>
+            <SessionSettingsForm
+              value={localSettings}
+              onChange={(sessionSettings) => setLocalSettings({ ...localSettings, ...sessionSettings })}
+              instructionHint={<>These instructions are used by every <strong>new</strong> chat. Use this to define the persona, strict rules, or formatting preferences for Gemini.</>}
             />
           </div>
 
+          {/* Pricing */}
+          <div className="pt-6 border-t border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-200 mb-1">Pricing</h3>
+            <p className="text-xs text-gray-500 mb-3">USD per million tokens, used for cost estimates. Thinking tokens are billed as output.</p>
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_8rem_8rem] gap-3 text-xs text-gray-500">
+                <span>Model</span>
+                <span>Input</span>
+                <span>Output</span>
+              </div>
+              {Object.values(ModelIds).map(model => (
+                <div key={model} className="grid grid-cols-[1fr_8rem_8rem] gap-3 items-center">
+                  <span className="text-sm text-gray-300 font-mono truncate">{model}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={formatPrice(localSettings.pricing[model]?.inputPerMillion)}
+                    onChange={(e) => updatePrice(model, { inputPerMillion: e.target.value === '' ? NaN : Number(e.target.value) })}
+                    className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={formatPrice(localSettings.pricing[model]?.outputPerMillion)}
+                    onChange={(e) => updatePrice(model, { outputPerMillion: e.target.value === '' ? NaN : Number(e.target.value) })}
+                    className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm"
+                  />
+                </div>
+              ))}
+              {hasInvalidPrice && (
+                <p className="text-xs text-red-400">Prices must be zero or more.</p>
+              )}
+            </div>
+          </div>
+
           <div className="bg-yellow-900/20 border border-yellow-700/50 rounded-lg p-4 flex gap-3">
             <AlertTriangle className="text-yellow-500 flex-shrink-0" size={20} />
             <p className="text-sm text-yellow-200">
-              Updating system instructions will apply to new messages in current chats and all new chats. Existing context in active chats remains until reset.
+              Changing these defaults only affects chats you start from now on. Existing chats keep their own settings, which you can change from the chat header.
             </p>
           </div>
         </div>
@@ -84,7 +157,8 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
           </button>
           <button
             onClick={handleSave}
-            className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white font-medium rounded-lg transition-colors shadow-lg shadow-blue-900/20"
+            disabled={hasErrors}
+            className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors shadow-lg shadow-blue-900/20"
           >
             <Save size={18} />
             Save Changes
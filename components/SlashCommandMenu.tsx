@@ -0,0 +1,69 @@
+import React, { useEffect, useRef } from 'react';
+import { FileText, Library, Terminal } from 'lucide-react';
+import { SlashMenuItem } from '../services/slashCommands';
+
+interface SlashCommandMenuProps {
+  items: SlashMenuItem[];
+  activeIndex: number;
+  onSelect: (item: SlashMenuItem) => void;
+  onHover: (index: number) => void;
+  onManageTemplates: () => void;
+}
+
+const getItemKey = (item: SlashMenuItem) =>
+  item.kind === 'command' ? `command-${item.info.command}` : `template-${item.template.id}`;
+
+const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({ items, activeIndex, onSelect, onHover, onManageTemplates }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the item picked with the arrow keys visible
+  useEffect(() => {
+    const active = listRef.current?.querySelector<HTMLElement>(`[data-index="${activeIndex}"]`);
+    active?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 z-30 bg-gray-800 border border-gray-700 rounded-xl shadow-2xl overflow-hidden">
+      <div ref={listRef} className="max-h-72 overflow-y-auto py-1">
+        {items.length === 0 && (
+          <p className="px-4 py-3 text-sm text-gray-500">No matching commands or templates.</p>
+        )}
+        {items.map((item, index) => (
+          <button
+            key={getItemKey(item)}
+            data-index={index}
+            // Keep focus in the composer so typing and arrow keys keep working
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onSelect(item)}
+            onMouseEnter={() => onHover(index)}
+            className={`w-full flex items-start gap-3 px-4 py-2 text-left transition-colors ${
+              index === activeIndex ? 'bg-gray-700' : 'hover:bg-gray-700/50'
+            }`}
+          >
+            {item.kind === 'command'
+              ? <Terminal size={16} className="mt-0.5 text-blue-400 flex-shrink-0" />
+              : <FileText size={16} className="mt-0.5 text-purple-400 flex-shrink-0" />}
+            <div className="min-w-0">
+              <p className="text-sm text-gray-100 font-mono">
+                {item.kind === 'command' ? item.info.usage : `/${item.command}`}
+              </p>
+              <p className="text-xs text-gray-400 truncate">
+                {item.kind === 'command' ? item.info.description : `${item.template.name} · ${item.template.content}`}
+              </p>
+            </div>
+          </button>
+        ))}
+      </div>
+      <button
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={onManageTemplates}
+        className="w-full flex items-center gap-2 px-4 py-2 text-xs text-gray-400 hover:text-white hover:bg-gray-700/50 border-t border-gray-700"
+      >
+        <Library size={14} />
+        Manage templates…
+      </button>
+    </div>
+  );
+};
+
+export default SlashCommandMenu;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Globe, Search } from 'lucide-react';
+import { Grounding } from '../types';
+import { getSourceAnchorId, getSourceDomain, isWebUrl } from '../services/groundingService';
+
+interface SourceListProps {
+  messageId: string;
+  grounding: Grounding;
+}
+
+const SourceList: React.FC<SourceListProps> = ({ messageId, grounding }) => (
+  <div className="space-y-2">
+    {grounding.sources.length > 0 && (
+      <ol className="flex flex-wrap gap-2">
+        {grounding.sources.map((source, index) => (
+          // Citation markers in the text link to these anchors
+          <li key={`${index}-${source.uri}`} id={getSourceAnchorId(messageId, index)} className="scroll-mt-24">
+            <a
+              href={isWebUrl(source.uri) ? source.uri : undefined}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={source.uri}
+              className="flex items-center gap-2 bg-gray-800/80 border border-gray-700 hover:border-blue-500/60 rounded-lg pl-2 pr-3 py-1.5 max-w-[16rem] transition-colors"
+            >
+              <span className="flex-shrink-0 w-4 h-4 rounded bg-gray-700 text-[10px] font-medium text-gray-300 flex items-center justify-center tabular-nums">
+                {index + 1}
+              </span>
+              <div className="min-w-0">
+                <p className="text-xs text-gray-200 truncate">{source.title}</p>
+                <p className="flex items-center gap-1 text-[10px] text-gray-500 truncate">
+                  <Globe size={10} className="flex-shrink-0" />
+                  {getSourceDomain(source)}
+                </p>
+              </div>
+            </a>
+          </li>
+        ))}
+      </ol>
+    )}
+    {grounding.searchQueries.length > 0 && (
+      <p className="flex items-center gap-1.5 text-xs text-gray-500">
+        <Search size={12} className="flex-shrink-0" />
+        <span className="truncate">Searched for: {grounding.searchQueries.join(' · ')}</span>
+      </p>
+    )}
+  </div>
+);
+
+export default SourceList;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { BookmarkPlus, Braces, Trash2 } from 'lucide-react';
+import { SavedSchema, StructuredOutputSettings } from '../types';
+import { validateStructuredOutput } from '../services/sessionSettings';
+
+interface StructuredOutputFormProps {
+  value: StructuredOutputSettings;
+  onChange: (structuredOutput: StructuredOutputSettings) => void;
+  schemas: SavedSchema[];
+  onSaveSchema: (name: string, schema: string) => void;
+  onDeleteSchema: (id: string) => void;
+}
+
+const INPUT_CLASS = 'w-full bg-gray-900 border rounded-lg px-3 py-2 text-white placeholder-gray-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none font-mono text-sm';
+
+/**
+ * Turns structured output on for a chat and edits the JSON schema replies must follow.
+ * Schemas are saved by name, so the same shape can be picked again in other chats.
+ */
+const StructuredOutputForm: React.FC<StructuredOutputFormProps> = ({ value, onChange, schemas, onSaveSchema, onDeleteSchema }) => {
+  const [selectedSchemaId, setSelectedSchemaId] = useState('');
+  const errors = validateStructuredOutput(value);
+  const savedUnderName = schemas.find(s => s.name === value.name);
+
+  const handleApplySchema = (id: string) => {
+    setSelectedSchemaId(id);
+    const saved = schemas.find(s => s.id === id);
+    if (saved) {
+      onChange({ ...value, name: saved.name, schema: saved.schema });
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-300 mb-1">Structured Output</h4>
+      <p className="text-xs text-gray-500 mb-3">Replies are JSON following the schema, checked when they finish and shown as a tree.</p>
+      <label className="flex items-start gap-3 p-3 bg-gray-900 border border-gray-700 rounded-lg cursor-pointer hover:border-gray-600">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+          className="mt-0.5 accent-blue-500"
+        />
+        <div className="min-w-0">
+          <span className="flex items-center gap-2 text-sm text-gray-200">
+            <Braces size={14} className="text-blue-400" />
+            Answer with JSON
+          </span>
+          <p className="text-xs text-gray-500 mt-0.5">Tools are not offered while this is on.</p>
+        </div>
+      </label>
+
+      {value.enabled && (
+        <div className="mt-3 space-y-3">
+          {schemas.length > 0 && (
+            <div className="flex gap-2">
+              <select
+                value={selectedSchemaId}
+                onChange={(e) => handleApplySchema(e.target.value)}
+                className="flex-1 bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              >
+                <option value="">Use a saved schema...</option>
+                {schemas.map(schema => (
+                  <option key={schema.id} value={schema.id}>{schema.name}</option>
+                ))}
+              </select>
+              {selectedSchemaId && (
+                <button
+                  onClick={() => {
+                    onDeleteSchema(selectedSchemaId);
+                    setSelectedSchemaId('');
+                  }}
+                  className="p-2 text-gray-400 hover:text-red-400 hover:bg-red-900/30 rounded-lg transition-colors"
+                  title="Delete Schema"
+                >
+                  <Trash2 size={18} />
+                </button>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1.5">Name</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={value.name}
+                onChange={(e) => onChange({ ...value, name: e.target.value })}
+                className={`${INPUT_CLASS} ${errors.name ? 'border-red-500' : 'border-gray-600'}`}
+                placeholder="e.g. invoice"
+              />
+              <button
+                onClick={() => onSaveSchema(value.name, value.schema)}
+                disabled={!!(errors.name || errors.schema)}
+                className="flex items-center gap-2 px-3 py-2 text-sm bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors whitespace-nowrap"
+                title={savedUnderName ? `Replace the saved schema "${savedUnderName.name}"` : 'Save for use in other chats'}
+              >
+                <BookmarkPlus size={16} />
+                {savedUnderName ? 'Update saved' : 'Save schema'}
+              </button>
+            </div>
+            {errors.name && <p className="text-xs text-red-400 mt-1">{errors.name}</p>}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1.5">JSON Schema</label>
+            <textarea
+              value={value.schema}
+              onChange={(e) => onChange({ ...value, schema: e.target.value })}
+              spellCheck={false}
+              className={`${INPUT_CLASS} h-56 resize-y leading-relaxed ${errors.schema ? 'border-red-500' : 'border-gray-600'}`}
+            />
+            {errors.schema ? (
+              <p className="text-xs text-red-400 mt-1">{errors.schema}</p>
+            ) : (
+              <p className="text-xs text-gray-500 mt-1">
+                Sent as the response schema. Gemini and OpenAI support a subset of JSON Schema; replies are checked against all of it.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StructuredOutputForm;
@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Braces, Check, CheckCircle2, ChevronDown, ChevronRight, Copy, Download } from 'lucide-react';
+import { SchemaError, StructuredReply as StructuredReplyInfo } from '../types';
+import { parseStructuredReply, toPointer } from '../services/jsonSchemaService';
+import { downloadFile } from '../services/exportService';
+
+interface StructuredReplyProps {
+  content: string;
+  structured: StructuredReplyInfo;
+  // False while the reply is still streaming in
+  isComplete: boolean;
+}
+
+// Objects and arrays nested deeper than this start collapsed
+const EXPANDED_DEPTH = 2;
+
+interface JsonNodeProps {
+  name?: string | number;
+  value: unknown;
+  path: string;
+  depth: number;
+  errorsByPath: Map<string, string[]>;
+  // Paths with an error at or below them, so collapsed branches can point to problems inside
+  errorBranches: Set<string>;
+  isLast: boolean;
+}
+
+const formatScalar = (value: unknown) => {
+  if (typeof value === 'string') return <span className="text-green-300">{JSON.stringify(value)}</span>;
+  if (typeof value === 'number') return <span className="text-blue-300">{value}</span>;
+  if (typeof value === 'boolean') return <span className="text-purple-300">{String(value)}</span>;
+  return <span className="text-gray-500">null</span>;
+};
+
+const JsonNode: React.FC<JsonNodeProps> = ({ name, value, path, depth, errorsByPath, errorBranches, isLast }) => {
+  const [isExpanded, setIsExpanded] = useState(depth < EXPANDED_DEPTH || errorBranches.has(path));
+  const errors = errorsByPath.get(path);
+  const isContainer = typeof value === 'object' && value !== null;
+  const entries: [string | number, unknown][] = Array.isArray(value)
+    ? value.map((item, index) => [index, item])
+    : isContainer ? Object.entries(value as Record<string, unknown>) : [];
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+  const label = name === undefined ? null : (
+    <span className={typeof name === 'number' ? 'text-gray-500' : 'text-sky-300'}>
+      {typeof name === 'number' ? name : JSON.stringify(name)}
+      <span className="text-gray-500">: </span>
+    </span>
+  );
+  const comma = isLast ? null : <span className="text-gray-500">,</span>;
+
+  return (
+    <div className={errors ? 'rounded bg-red-950/40 ring-1 ring-red-800/60' : ''}>
+      <div className="flex items-start">
+        {isContainer && entries.length > 0 ? (
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="-ml-4 w-4 h-5 flex items-center justify-center text-gray-500 hover:text-gray-200 flex-shrink-0"
+            aria-label={isExpanded ? 'Collapse' : 'Expand'}
+          >
+            {isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+          </button>
+        ) : null}
+        <div className="min-w-0 break-words">
+          {label}
+          {!isContainer && <>{formatScalar(value)}{comma}</>}
+          {isContainer && (entries.length === 0 || !isExpanded) && (
+            <>
+              <span className="text-gray-400">{open}</span>
+              {entries.length > 0 && (
+                <button onClick={() => setIsExpanded(true)} className="px-1 text-gray-500 hover:text-gray-200">
+                  {Array.isArray(value) ? `${entries.length} items` : `${entries.length} keys`}
+                </button>
+              )}
+              <span className="text-gray-400">{close}</span>
+              {comma}
+              {errorBranches.has(path) && !errors && (
+                <AlertTriangle size={12} className="inline ml-1.5 text-red-400" aria-label="Contains problems" />
+              )}
+            </>
+          )}
+          {isContainer && entries.length > 0 && isExpanded && <span className="text-gray-400">{open}</span>}
+        </div>
+      </div>
+      {errors && errors.map((message, index) => (
+        <div key={index} className="pl-1 text-xs text-red-300 font-sans">{message}</div>
+      ))}
+      {isContainer && entries.length > 0 && isExpanded && (
+        <>
+          <div className="pl-5 border-l border-gray-800 ml-0.5">
+            {entries.map(([key, item], index) => (
+              <JsonNode
+                key={key}
+                name={key}
+                value={item}
+                path={toPointer(path, key)}
+                depth={depth + 1}
+                errorsByPath={errorsByPath}
+                errorBranches={errorBranches}
+                isLast={index === entries.length - 1}
+              />
+            ))}
+          </div>
+          <div><span className="text-gray-400">{close}</span>{comma}</div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const groupErrors = (errors: SchemaError[]) => {
+  const errorsByPath = new Map<string, string[]>();
+  const errorBranches = new Set<string>();
+  for (const { path, message } of errors) {
+    errorsByPath.set(path, [...(errorsByPath.get(path) || []), message]);
+    // Every ancestor of the path, from the root down
+    const segments = path.split('/');
+    for (let i = 1; i <= segments.length; i++) errorBranches.add(segments.slice(0, i).join('/'));
+  }
+  return { errorsByPath, errorBranches };
+};
+
+/**
+ * A reply written in structured output mode: a collapsible JSON tree with the places that break
+ * the schema highlighted, or the raw text while it streams or when it is not valid JSON.
+ */
+const StructuredReply: React.FC<StructuredReplyProps> = ({ content, structured, isComplete }) => {
+  const [copied, setCopied] = useState(false);
+  const parsed = useMemo(() => (isComplete ? parseStructuredReply(content) : null), [content, isComplete]);
+  const errors = structured.errors;
+  const { errorsByPath, errorBranches } = useMemo(() => groupErrors(errors || []), [errors]);
+  const json = parsed && 'value' in parsed ? JSON.stringify(parsed.value, null, 2) : content;
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(json);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="rounded-xl border border-gray-800 bg-gray-900/60 text-sm">
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-gray-800">
+        <Braces size={14} className="text-blue-400 flex-shrink-0" />
+        <span className="text-xs font-mono text-gray-300 truncate">{structured.schemaName}</span>
+        {errors && (errors.length === 0 ? (
+          <span className="flex items-center gap-1 text-xs text-green-400">
+            <CheckCircle2 size={12} />
+            Matches schema
+          </span>
+        ) : (
+          <span className="flex items-center gap-1 text-xs text-red-400">
+            <AlertTriangle size={12} />
+            {errors.length} {errors.length === 1 ? 'problem' : 'problems'}
+          </span>
+        ))}
+        {isComplete && content && (
+          <div className="ml-auto flex items-center gap-1">
+            <button
+              onClick={handleCopy}
+              className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-gray-300 px-2 py-1 rounded hover:bg-gray-700 transition-colors"
+            >
+              {copied ? <Check size={12} className="text-green-400" /> : <Copy size={12} />}
+              {copied ? 'Copied' : 'Copy JSON'}
+            </button>
+            <button
+              onClick={() => downloadFile({ filename: `${structured.schemaName}.json`, content: json, mimeType: 'application/json' })}
+              className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-gray-300 px-2 py-1 rounded hover:bg-gray-700 transition-colors"
+            >
+              <Download size={12} />
+              Download
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="px-4 py-3 pl-8 font-mono text-xs leading-5 overflow-x-auto">
+        {parsed && 'value' in parsed ? (
+          <JsonNode value={parsed.value} path="" depth={0} errorsByPath={errorsByPath} errorBranches={errorBranches} isLast />
+        ) : (
+          <pre className="-ml-4 whitespace-pre-wrap break-words text-gray-300">{content}</pre>
+        )}
+      </div>
+
+      {errors && errors.length > 0 && (
+        <ul className="px-4 py-2 border-t border-gray-800 space-y-0.5 text-xs">
+          {errors.map((error, index) => (
+            <li key={index} className="text-red-300">
+              <code className="font-mono text-red-400">{error.path || '/'}</code> {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default StructuredReply;
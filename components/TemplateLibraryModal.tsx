@@ -0,0 +1,202 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Plus, Save, Trash2, Upload, Download, CornerDownLeft } from 'lucide-react';
+import { PromptTemplate } from '../types';
+import { getTemplateCommand, getTemplateVariables } from '../services/templateService';
+
+interface TemplateLibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  templates: PromptTemplate[];
+  onSave: (template: PromptTemplate) => void;
+  onDelete: (id: string) => void;
+  onUse: (template: PromptTemplate) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+interface Draft {
+  // Null while writing a new template
+  id: string | null;
+  name: string;
+  content: string;
+}
+
+const EMPTY_DRAFT: Draft = { id: null, name: '', content: '' };
+
+const TemplateLibraryModal: React.FC<TemplateLibraryModalProps> = ({
+  isOpen,
+  onClose,
+  templates,
+  onSave,
+  onDelete,
+  onUse,
+  onImport,
+  onExport,
+}) => {
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) setDraft(EMPTY_DRAFT);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const saved = templates.find(t => t.id === draft.id);
+  const isDirty = !saved || saved.name !== draft.name || saved.content !== draft.content;
+  const canSave = draft.name.trim().length > 0 && draft.content.trim().length > 0 && isDirty;
+  const variables = getTemplateVariables(draft.content);
+
+  const handleSave = () => {
+    if (!canSave) return;
+    const template: PromptTemplate = {
+      id: draft.id ?? crypto.randomUUID(),
+      name: draft.name.trim(),
+      content: draft.content,
+      createdAt: saved?.createdAt ?? Date.now(),
+    };
+    onSave(template);
+    setDraft({ id: template.id, name: template.name, content: template.content });
+  };
+
+  const handleDelete = () => {
+    if (!draft.id) return;
+    onDelete(draft.id);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 border border-gray-700 rounded-xl shadow-2xl w-full max-w-4xl">
+        <div className="flex justify-between items-center p-6 border-b border-gray-700">
+          <h2 className="text-xl font-semibold text-white">Prompt Templates</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-gray-300 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+              title="Import templates from a JSON file"
+            >
+              <Upload size={16} />
+              Import
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = '';
+              }}
+              className="hidden"
+            />
+            <button
+              onClick={onExport}
+              disabled={templates.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-gray-300 hover:text-white hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+              title="Download all templates as JSON"
+            >
+              <Download size={16} />
+              Export
+            </button>
+            <button onClick={onClose} className="ml-2 text-gray-400 hover:text-white transition-colors">
+              <X size={24} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-col md:flex-row max-h-[70vh]">
+          {/* Template list */}
+          <div className="md:w-64 border-b md:border-b-0 md:border-r border-gray-700 overflow-y-auto p-3 space-y-1">
+            <button
+              onClick={() => setDraft(EMPTY_DRAFT)}
+              className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors ${
+                draft.id === null ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-700/50'
+              }`}
+            >
+              <Plus size={16} />
+              New template
+            </button>
+            {templates.map(template => (
+              <button
+                key={template.id}
+                onClick={() => setDraft({ id: template.id, name: template.name, content: template.content })}
+                className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+                  draft.id === template.id ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-700/50'
+                }`}
+              >
+                <p className="text-sm truncate">{template.name}</p>
+                <p className="text-xs text-gray-500 font-mono truncate">/{getTemplateCommand(template)}</p>
+              </button>
+            ))}
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 p-6 space-y-4 overflow-y-auto">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1.5">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="w-full bg-gray-900 border border-gray-600 rounded-lg px-4 py-2 text-white placeholder-gray-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm"
+                placeholder="e.g. Review a pull request"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1.5">Prompt</label>
+              <textarea
+                value={draft.content}
+                onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+                className="w-full h-56 bg-gray-900 border border-gray-600 rounded-lg p-4 text-white placeholder-gray-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none font-mono text-sm leading-relaxed"
+                placeholder={'e.g. Review this {{language}} diff for bugs and style issues:\n\n{{diff}}'}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                {variables.length > 0
+                  ? <>Asks for: {variables.map(name => <code key={name} className="mx-0.5 px-1 rounded bg-gray-900 text-pink-300">{name}</code>)}</>
+                  : <>Write <code className="px-1 rounded bg-gray-900 text-pink-300">{'{{name}}'}</code> where a value should be filled in each time.</>}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-between gap-3 p-6 border-t border-gray-700 bg-gray-800/50 rounded-b-xl">
+          <div>
+            {draft.id && (
+              <button
+                onClick={handleDelete}
+                className="flex items-center gap-2 px-4 py-2 text-gray-400 hover:text-red-400 hover:bg-red-900/30 rounded-lg transition-colors"
+              >
+                <Trash2 size={18} />
+                Delete
+              </button>
+            )}
+          </div>
+          <div className="flex gap-3">
+            {saved && (
+              <button
+                onClick={() => onUse(saved)}
+                disabled={isDirty}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                title={isDirty ? 'Save your changes first' : 'Fill in this template and put it in the message box'}
+              >
+                <CornerDownLeft size={18} />
+                Use
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={!canSave}
+              className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors shadow-lg shadow-blue-900/20"
+            >
+              <Save size={18} />
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateLibraryModal;
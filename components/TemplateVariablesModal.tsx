@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { X, CornerDownLeft } from 'lucide-react';
+import { PromptTemplate } from '../types';
+import { fillTemplate, getTemplateVariables } from '../services/templateService';
+
+interface TemplateVariablesModalProps {
+  // The template being filled in; the modal is closed while this is null
+  template: PromptTemplate | null;
+  onClose: () => void;
+  onInsert: (text: string) => void;
+}
+
+const TemplateVariablesModal: React.FC<TemplateVariablesModalProps> = ({ template, onClose, onInsert }) => {
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setValues({});
+  }, [template]);
+
+  if (!template) return null;
+
+  const variables = getTemplateVariables(template.content);
+
+  const handleInsert = () => {
+    onInsert(fillTemplate(template.content, values));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 border border-gray-700 rounded-xl shadow-2xl w-full max-w-lg">
+        <div className="flex justify-between items-center p-6 border-b border-gray-700">
+          <h2 className="text-xl font-semibold text-white">{template.name}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 max-h-[60vh] overflow-y-auto">
+          {variables.map((name, index) => (
+            <div key={name}>
+              <label className="block text-sm font-medium text-gray-300 mb-1.5">{name}</label>
+              <textarea
+                value={values[name] ?? ''}
+                onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                    e.preventDefault();
+                    handleInsert();
+                  }
+                }}
+                autoFocus={index === 0}
+                rows={2}
+                className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-y"
+              />
+            </div>
+          ))}
+          <p className="text-xs text-gray-500">The filled-in prompt goes into the message box, where you can review it before sending. Empty fields keep their placeholder.</p>
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-700 bg-gray-800/50 rounded-b-xl">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-300 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleInsert}
+            className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white font-medium rounded-lg transition-colors shadow-lg shadow-blue-900/20"
+            title="Insert (Ctrl+Enter)"
+          >
+            <CornerDownLeft size={18} />
+            Insert
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateVariablesModal;
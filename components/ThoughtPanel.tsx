@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import { Brain, ChevronDown, ChevronRight } from 'lucide-react';
+import Markdown from './Markdown';
+
+interface ThoughtPanelProps {
+  thoughts: string;
+  // True while thoughts stream in and the answer has not started yet
+  isThinking: boolean;
+}
+
+/**
+ * Summaries of the model's thinking above a reply. Open while the model thinks, so they can be
+ * followed live, and folded away once the answer starts unless the user opened or closed it.
+ */
+const ThoughtPanel: React.FC<ThoughtPanelProps> = ({ thoughts, isThinking }) => {
+  // Null follows the stream; set once the user toggles the panel themselves
+  const [isOpen, setIsOpen] = useState<boolean | null>(null);
+  const isExpanded = isOpen ?? isThinking;
+
+  return (
+    <div className="mb-3 rounded-xl border border-gray-800 bg-gray-900/40">
+      <button
+        onClick={() => setIsOpen(!isExpanded)}
+        className="w-full flex items-center gap-2 px-4 py-2 text-xs text-gray-400 hover:text-gray-200 transition-colors"
+        aria-expanded={isExpanded}
+      >
+        {isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        <Brain size={14} className={isThinking ? 'text-purple-400 animate-pulse' : ''} />
+        {isThinking ? 'Thinking…' : 'Thoughts'}
+      </button>
+      {isExpanded && (
+        <div className="px-4 py-3 border-t border-gray-800 text-sm text-gray-400 max-h-80 overflow-y-auto">
+          <Markdown content={thoughts} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThoughtPanel;
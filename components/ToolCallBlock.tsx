@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Wrench, ChevronDown, ChevronRight, Loader2, Check, X, Ban, ShieldQuestion } from 'lucide-react';
+import { ToolCall } from '../types';
+import { getTool } from '../services/toolService';
+
+interface ToolCallBlockProps {
+  call: ToolCall;
+  onConfirm?: (callId: string, approved: boolean) => void;
+}
+
+const formatValue = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value, null, 2));
+
+const STATUS_LABELS: Record<ToolCall['status'], string> = {
+  'pending': 'Queued',
+  'awaiting-confirmation': 'Waiting for approval',
+  'running': 'Running',
+  'done': 'Done',
+  'error': 'Failed',
+  'denied': 'Declined',
+};
+
+const StatusIcon: React.FC<{ status: ToolCall['status'] }> = ({ status }) => {
+  switch (status) {
+    case 'running':
+    case 'pending':
+      return <Loader2 size={12} className="animate-spin text-blue-400" />;
+    case 'awaiting-confirmation':
+      return <ShieldQuestion size={12} className="text-yellow-400" />;
+    case 'done':
+      return <Check size={12} className="text-green-400" />;
+    case 'denied':
+      return <Ban size={12} className="text-gray-500" />;
+    case 'error':
+    default:
+      return <X size={12} className="text-red-400" />;
+  }
+};
+
+/**
+ * Collapsible trace of a single tool call: its arguments, result or error, and the approval prompt for sensitive tools.
+ */
+const ToolCallBlock: React.FC<ToolCallBlockProps> = ({ call, onConfirm }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const isAwaitingConfirmation = call.status === 'awaiting-confirmation';
+  const showDetails = isExpanded || isAwaitingConfirmation;
+
+  return (
+    <div className={`rounded-lg border text-sm ${isAwaitingConfirmation ? 'border-yellow-700/60 bg-yellow-900/10' : 'border-gray-800 bg-gray-900/60'}`}>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left text-gray-300 hover:text-white"
+      >
+        {showDetails ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <Wrench size={14} className="text-gray-500" />
+        <span className="font-medium">{getTool(call.name)?.title || call.name}</span>
+        <code className="text-xs text-gray-500 truncate">{call.name}</code>
+        <span className="ml-auto flex items-center gap-1.5 text-xs text-gray-500 flex-shrink-0">
+          <StatusIcon status={call.status} />
+          {STATUS_LABELS[call.status]}
+        </span>
+      </button>
+
+      {showDetails && (
+        <div className="px-3 pb-3 space-y-2">
+          <div>
+            <p className="text-xs text-gray-500 mb-1">Arguments</p>
+            <pre className="text-xs bg-gray-950 border border-gray-800 rounded p-2 overflow-x-auto whitespace-pre-wrap break-words text-gray-300">{formatValue(call.args)}</pre>
+          </div>
+          {call.status === 'done' && (
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Result</p>
+              <pre className="text-xs bg-gray-950 border border-gray-800 rounded p-2 overflow-x-auto whitespace-pre-wrap break-words text-gray-300 max-h-64">{formatValue(call.result)}</pre>
+            </div>
+          )}
+          {call.error && (
+            <p className="text-xs text-red-300 whitespace-pre-wrap">{call.error}</p>
+          )}
+          {isAwaitingConfirmation && onConfirm && (
+            <div className="flex items-center gap-2 pt-1">
+              <p className="flex-1 text-xs text-yellow-200">The model wants to run this tool. Allow it?</p>
+              <button
+                onClick={() => onConfirm(call.id, false)}
+                className="px-3 py-1 text-xs text-gray-300 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                Deny
+              </button>
+              <button
+                onClick={() => onConfirm(call.id, true)}
+                className="px-3 py-1 text-xs bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors"
+              >
+                Allow
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ToolCallBlock;
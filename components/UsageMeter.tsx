@@ -0,0 +1,52 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { formatCost, formatTokenCount, UsageTotals } from '../services/usageService';
+
+interface UsageMeterProps {
+  usage: UsageTotals;
+  // Prompt size of the branch shown; null while it is being counted
+  contextTokens: number | null;
+  // Null when the model's context limit is unknown
+  contextWindow: number | null;
+  onClick: () => void;
+}
+
+const UsageMeter: React.FC<UsageMeterProps> = ({ usage, contextTokens, contextWindow, onClick }) => {
+  const ratio = contextTokens !== null && contextWindow ? Math.min(contextTokens / contextWindow, 1) : null;
+  const barColor = ratio === null ? 'bg-gray-600' : ratio > 0.9 ? 'bg-red-500' : ratio > 0.7 ? 'bg-yellow-500' : 'bg-blue-500';
+  const totalTokens = usage.promptTokens + usage.outputTokens + usage.thinkingTokens;
+
+  const contextLabel = contextTokens === null
+    ? 'Counting context…'
+    : contextWindow
+      ? `Context: ${contextTokens.toLocaleString()} of ${contextWindow.toLocaleString()} tokens (${((ratio ?? 0) * 100).toFixed(1)}%)`
+      : `Context: about ${contextTokens.toLocaleString()} tokens`;
+  const usageLabel = [
+    `This chat: ${usage.promptTokens.toLocaleString()} prompt, ${usage.outputTokens.toLocaleString()} output, ${usage.thinkingTokens.toLocaleString()} thinking tokens`,
+    usage.cost !== null ? `Estimated cost: ${formatCost(usage.cost)}` : 'No price set for this model',
+    'Click for monthly usage',
+  ].join('\n');
+
+  return (
+    <button
+      onClick={onClick}
+      className="hidden md:flex items-center gap-3 px-3 py-2 hover:bg-gray-800 rounded-lg text-gray-400 hover:text-white transition-colors text-xs tabular-nums"
+      title={`${contextLabel}\n${usageLabel}`}
+    >
+      <div className="flex items-center gap-1.5">
+        <Gauge size={14} />
+        <div className="w-16 h-1.5 bg-gray-800 rounded-full overflow-hidden">
+          <div className={`h-full ${barColor} transition-all`} style={{ width: `${(ratio ?? 0) * 100}%` }} />
+        </div>
+        <span>{contextTokens === null ? '…' : formatTokenCount(contextTokens)}</span>
+      </div>
+      {usage.replies > 0 && (
+        <span className="text-gray-500">
+          {formatTokenCount(totalTokens)} used{usage.cost !== null && <> · {formatCost(usage.cost)}</>}
+        </span>
+      )}
+    </button>
+  );
+};
+
+export default UsageMeter;
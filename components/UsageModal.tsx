@@ -0,0 +1,75 @@
+import React from 'react';
+import { X, BarChart3 } from 'lucide-react';
+import { ModelPricing, UsageLedger } from '../types';
+import { formatCost, formatTokenCount, getMonthlyUsage } from '../services/usageService';
+
+interface UsageModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  ledger: UsageLedger;
+  pricing: Record<string, ModelPricing>;
+}
+
+const formatMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+};
+
+const UsageModal: React.FC<UsageModalProps> = ({ isOpen, onClose, ledger, pricing }) => {
+  if (!isOpen) return null;
+
+  const months = getMonthlyUsage(ledger, pricing);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 border border-gray-700 rounded-xl shadow-2xl w-full max-w-2xl transform transition-all">
+        <div className="flex justify-between items-center p-6 border-b border-gray-700">
+          <h2 className="text-xl font-semibold text-white flex items-center gap-2">
+            <BarChart3 size={20} />
+            Usage
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 max-h-[70vh] overflow-y-auto">
+          {months.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-8">No usage recorded yet.</p>
+          ) : (
+            <table className="w-full text-sm tabular-nums">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase tracking-wider">
+                  <th className="pb-3 font-semibold">Month</th>
+                  <th className="pb-3 font-semibold text-right">Replies</th>
+                  <th className="pb-3 font-semibold text-right">Prompt</th>
+                  <th className="pb-3 font-semibold text-right">Output</th>
+                  <th className="pb-3 font-semibold text-right">Thinking</th>
+                  <th className="pb-3 font-semibold text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {months.map(entry => (
+                  <tr key={entry.month} className="text-gray-300">
+                    <td className="py-2.5">{formatMonth(entry.month)}</td>
+                    <td className="py-2.5 text-right">{entry.replies}</td>
+                    <td className="py-2.5 text-right">{formatTokenCount(entry.promptTokens)}</td>
+                    <td className="py-2.5 text-right">{formatTokenCount(entry.outputTokens)}</td>
+                    <td className="py-2.5 text-right">{formatTokenCount(entry.thinkingTokens)}</td>
+                    <td className="py-2.5 text-right">{entry.cost !== null ? formatCost(entry.cost) : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="mt-6 text-xs text-gray-500">
+            Costs are estimates based on the prices set in Settings. Replies on every branch are counted, including those in chats deleted since.
+            Models without a price are counted in tokens only.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageModal;
@@ -0,0 +1,157 @@
+/**
+ * Relays the app's Gemini calls and adds the API key on the way, so the key never reaches
+ * the browser. Only the endpoints the app uses are relayed.
+ *
+ * Configuration, read from the environment or .env.local:
+ *   GEMINI_API_KEY         the key to add to every request
+ *   PROXY_HOST             interface to listen on, 127.0.0.1 by default; set 0.0.0.0 to
+ *                          accept connections from other machines
+ *   PROXY_PORT             port to listen on, 8787 by default
+ *   PROXY_ALLOWED_ORIGINS  comma-separated origins allowed to call the proxy,
+ *                          http://localhost:3000 by default
+ *
+ * Requests without an allowed Origin header are refused, so neither other websites nor
+ * scripts outside the browser can spend the key.
+ */
+import { createServer } from 'node:http';
+import { Readable } from 'node:stream';
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local; the environment has to provide the settings
+}
+
+const UPSTREAM_URL = 'https://generativelanguage.googleapis.com';
+// Chat and streaming replies, titles and summaries, and token counts
+const ALLOWED_PATH = /^\/v1beta\/models\/[\w.-]+:(generateContent|streamGenerateContent|countTokens)$/;
+// Attachments are sent inline, so requests can be large
+const MAX_BODY_BYTES = 32 * 1024 * 1024;
+
+const apiKey = process.env.GEMINI_API_KEY;
+const host = process.env.PROXY_HOST || '127.0.0.1';
+const port = Number(process.env.PROXY_PORT) || 8787;
+const allowedOrigins = (process.env.PROXY_ALLOWED_ORIGINS || 'http://localhost:3000')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+
+if (!apiKey) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local or the environment.');
+  process.exit(1);
+}
+
+const isAllowedOrigin = req => {
+  const origin = req.headers.origin;
+  return !!origin && allowedOrigins.includes(origin);
+};
+
+const setCorsHeaders = (req, res) => {
+  res.setHeader('Vary', 'Origin');
+  if (isAllowedOrigin(req)) {
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin);
+  }
+};
+
+const sendError = (res, status, message) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  // Same shape as the API's own errors, so the app reports them the same way
+  res.end(JSON.stringify({ error: { code: status, message } }));
+};
+
+const readBody = req =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const relay = async (req, res, url) => {
+  let body;
+  try {
+    body = await readBody(req);
+  } catch {
+    sendError(res, 413, 'The request is too large for the proxy.');
+    return;
+  }
+
+  // Stop the upstream request when the app cancels, e.g. when the user stops a reply
+  const abortController = new AbortController();
+  res.on('close', () => abortController.abort());
+
+  // The browser's placeholder key and any ?key= parameter are dropped
+  url.searchParams.delete('key');
+  const upstream = await fetch(`${UPSTREAM_URL}${url.pathname}${url.search}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-goog-api-key': apiKey,
+      ...(req.headers['x-goog-api-client'] ? { 'x-goog-api-client': req.headers['x-goog-api-client'] } : {}),
+    },
+    body,
+    signal: abortController.signal,
+  });
+
+  res.writeHead(upstream.status, {
+    'Content-Type': upstream.headers.get('content-type') || 'application/json',
+    ...(upstream.headers.get('retry-after') ? { 'Retry-After': upstream.headers.get('retry-after') } : {}),
+  });
+  if (!upstream.body) {
+    res.end();
+    return;
+  }
+  Readable.fromWeb(upstream.body).on('error', () => res.destroy()).pipe(res);
+};
+
+const server = createServer(async (req, res) => {
+  setCorsHeaders(req, res);
+  const url = new URL(req.url || '/', 'http://proxy');
+
+  if (req.method === 'GET' && url.pathname === '/health') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ok: true }));
+    return;
+  }
+  // CORS headers alone only stop the browser from reading the reply, not the request from
+  // reaching the API, so anything not sent by the app is turned away before it is relayed
+  if (!isAllowedOrigin(req)) {
+    sendError(res, 403, `The proxy only accepts requests from ${allowedOrigins.join(', ')}.`);
+    return;
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': req.headers['access-control-request-headers'] || 'Content-Type',
+      'Access-Control-Max-Age': '600',
+    });
+    res.end();
+    return;
+  }
+  if (req.method !== 'POST' || !ALLOWED_PATH.test(url.pathname)) {
+    sendError(res, 404, `The proxy does not relay ${req.method} ${url.pathname}.`);
+    return;
+  }
+
+  try {
+    await relay(req, res, url);
+  } catch (error) {
+    if (error?.name === 'AbortError') return;
+    console.error('Failed to reach the Gemini API', error);
+    if (!res.headersSent) sendError(res, 502, 'The proxy could not reach the Gemini API.');
+    else res.destroy();
+  }
+});
+
+server.listen(port, host, () => {
+  console.log(`Gemini proxy listening on http://${host}:${port}, allowing ${allowedOrigins.join(', ')}`);
+});
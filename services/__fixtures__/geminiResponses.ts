@@ -0,0 +1,21 @@
+import { GenerateContentResponse } from '@google/genai';
+import searchJson from './gemini-search-multibyte.json';
+import urlContextJson from './gemini-url-context.json';
+
+// Recorded responses are plain JSON; the SDK builds the same class instances when it parses them
+const toResponse = (json: object): GenerateContentResponse => Object.assign(new GenerateContentResponse(), json);
+
+/**
+ * A Google Search grounded reply in German and Japanese, so the byte offsets of its segments differ
+ * from string indices. Two of its chunks are not web pages: a retrieved document and a Maps place.
+ */
+export const searchResponse = toResponse(searchJson);
+
+/**
+ * A reply that read pages through URL context: one page failed to load, and one was also
+ * cited through grounding metadata.
+ */
+export const urlContextResponse = toResponse(urlContextJson);
+
+export const getResponseText = (response: GenerateContentResponse): string =>
+  (response.candidates?.[0]?.content?.parts || []).map(part => part.text || '').join('');
@@ -0,0 +1,35 @@
+import { ApiKeyProfile } from "../types";
+
+// Gemini API keys are 39 characters long and start with "AIza"
+const GEMINI_KEY_PATTERN = /^AIza[0-9A-Za-z_-]{35}$/;
+
+export interface KeyProfileErrors {
+  name?: string;
+  key?: string;
+}
+
+/**
+ * Checks a key profile before it is added. Names must be unique so profiles can be told apart.
+ */
+export const validateKeyProfile = (profile: Omit<ApiKeyProfile, 'id'>, profiles: ApiKeyProfile[]): KeyProfileErrors => {
+  const errors: KeyProfileErrors = {};
+  const name = profile.name.trim();
+  const key = profile.key.trim();
+  if (!name) {
+    errors.name = 'Enter a name for this key.';
+  } else if (profiles.some(p => p.name.toLowerCase() === name.toLowerCase())) {
+    errors.name = 'Another key already has this name.';
+  }
+  if (!key) {
+    errors.key = 'Enter the API key.';
+  } else if (!GEMINI_KEY_PATTERN.test(key)) {
+    errors.key = 'This does not look like a Gemini API key, which starts with "AIza" and is 39 characters long.';
+  }
+  return errors;
+};
+
+/**
+ * Shows just enough of a key to recognize it, e.g. "AIza…x7Qk".
+ */
+export const maskKey = (key: string): string =>
+  key.length > 8 ? `${key.slice(0, 4)}…${key.slice(-4)}` : '…';
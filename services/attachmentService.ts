@@ -0,0 +1,98 @@
+import { Attachment } from "../types";
+
+// Inline data counts against the ~20MB request limit, so leave room for the prompt and history
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_TOTAL_ATTACHMENT_BYTES = 15 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 10;
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+const PDF_TYPE = 'application/pdf';
+
+// Browsers report inconsistent or empty types for source files (.ts even comes through as video),
+// so text and code files are recognized by extension and sent as plain text
+const TEXT_EXTENSIONS = [
+  'txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'jsonl', 'yaml', 'yml', 'toml', 'xml', 'html', 'htm', 'css', 'scss',
+  'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'swift', 'c', 'h', 'cc', 'cpp', 'hpp',
+  'cs', 'php', 'sh', 'bash', 'zsh', 'sql', 'r', 'lua', 'dart', 'scala', 'ini', 'env', 'log', 'diff', 'patch',
+];
+
+export const ACCEPTED_FILE_TYPES = [...IMAGE_TYPES, PDF_TYPE, 'text/*', ...TEXT_EXTENSIONS.map(ext => `.${ext}`)].join(',');
+
+const getExtension = (name: string) => name.split('.').pop()?.toLowerCase() || '';
+
+/**
+ * Returns the MIME type to send for a file, or null when the file type is not supported.
+ */
+const resolveMimeType = (file: File): string | null => {
+  if (IMAGE_TYPES.includes(file.type) || file.type === PDF_TYPE) return file.type;
+  if (TEXT_EXTENSIONS.includes(getExtension(file.name)) || file.type.startsWith('text/')) return 'text/plain';
+  return null;
+};
+
+/**
+ * True for the file types the app itself creates attachments for, used to vet imported ones.
+ */
+export const isSupportedMimeType = (mimeType: string): boolean =>
+  IMAGE_TYPES.includes(mimeType) || mimeType === PDF_TYPE || mimeType === 'text/plain';
+
+export const isImageAttachment = (attachment: Attachment) => attachment.mimeType.startsWith('image/');
+
+export const isTextAttachment = (attachment: Attachment) => attachment.mimeType === 'text/plain';
+
+export const toDataUrl = (attachment: Attachment) => `data:${attachment.mimeType};base64,${attachment.data}`;
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Decodes a text attachment back into a string, e.g. for providers without file support.
+ */
+export const decodeTextAttachment = (attachment: Attachment): string => {
+  const binary = atob(attachment.data);
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+const readAsBase64 = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      // Strip the "data:<type>;base64," prefix
+      const result = reader.result as string;
+      resolve(result.slice(result.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Validates a file against the attachments already queued and reads it into an attachment.
+ * Throws an Error with a user-facing message when the file is rejected.
+ */
+export const readAttachment = async (file: File, queued: Attachment[]): Promise<Attachment> => {
+  const mimeType = resolveMimeType(file);
+  if (!mimeType) {
+    throw new Error(`${file.name}: only images, PDFs and text or code files can be attached.`);
+  }
+  if (queued.length >= MAX_ATTACHMENTS) {
+    throw new Error(`${file.name}: at most ${MAX_ATTACHMENTS} files can be attached to one message.`);
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`${file.name} is ${formatFileSize(file.size)}; the limit is ${formatFileSize(MAX_ATTACHMENT_BYTES)} per file.`);
+  }
+  const queuedBytes = queued.reduce((total, a) => total + a.size, 0);
+  if (queuedBytes + file.size > MAX_TOTAL_ATTACHMENT_BYTES) {
+    throw new Error(`${file.name}: attachments are limited to ${formatFileSize(MAX_TOTAL_ATTACHMENT_BYTES)} per message.`);
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    name: file.name || 'pasted-file',
+    mimeType,
+    size: file.size,
+    data: await readAsBase64(file),
+  };
+};
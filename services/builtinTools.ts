@@ -0,0 +1,100 @@
+import { ToolDefinition } from "../types";
+import { evaluateExpression } from "./mathExpression";
+import { runInSandbox, SANDBOX_TIMEOUT_MS } from "./sandboxService";
+import { EMPTY_SEARCH_FILTERS, searchSessions } from "./searchService";
+
+const MAX_SEARCH_RESULTS = 10;
+
+export const calculatorTool: ToolDefinition = {
+  name: 'calculator',
+  title: 'Calculator',
+  description: 'Evaluates an arithmetic expression in double-precision floating point. Supports + - * / % ^, parentheses, pi, e and the functions sqrt, cbrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, exp, ln, log (base 10), log2, min, max and pow. Angles are in radians.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'The expression to evaluate, e.g. "sqrt(2) * (3 + 4)^2".' },
+    },
+    required: ['expression'],
+  },
+  requiresConfirmation: false,
+  execute: async (args) => {
+    const expression = String(args.expression);
+    const value = evaluateExpression(expression);
+    if (!Number.isFinite(value)) {
+      throw new Error(`The expression does not have a finite result (${value}).`);
+    }
+    return { expression, value };
+  },
+};
+
+export const dateTimeTool: ToolDefinition = {
+  name: 'get_current_datetime',
+  title: 'Date & time',
+  description: "Returns the current date and time, in the user's time zone unless another IANA time zone is given.",
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: { type: 'string', description: 'Optional IANA time zone such as "Europe/Berlin" or "UTC".' },
+    },
+  },
+  requiresConfirmation: false,
+  execute: async (args) => {
+    const now = new Date();
+    const timeZone = typeof args.timeZone === 'string' && args.timeZone
+      ? args.timeZone
+      : Intl.DateTimeFormat().resolvedOptions().timeZone;
+    // Throws a RangeError with a clear message for unknown zones
+    const local = new Intl.DateTimeFormat('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' }).format(now);
+    return { iso: now.toISOString(), local, timeZone, unixMs: now.getTime() };
+  },
+};
+
+export const searchChatsTool: ToolDefinition = {
+  name: 'search_chats',
+  title: 'Search saved chats',
+  description: "Searches the user's saved chat history for messages containing all of the given words. Returns matching snippets with their chat titles and dates.",
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Words to search for; every word must appear in a message.' },
+    },
+    required: ['query'],
+  },
+  // Other chats may hold things the user would not share with this conversation
+  requiresConfirmation: true,
+  execute: async (args, { sessions }) => {
+    const results = searchSessions(sessions, String(args.query), EMPTY_SEARCH_FILTERS);
+    return {
+      totalMatches: results.length,
+      results: results.slice(0, MAX_SEARCH_RESULTS).map(result => ({
+        chat: result.sessionTitle,
+        role: result.role,
+        date: new Date(result.timestamp).toISOString(),
+        snippet: result.snippet.map(part => part.text).join(''),
+      })),
+    };
+  },
+};
+
+export const runJavaScriptTool: ToolDefinition = {
+  name: 'run_javascript',
+  title: 'Run JavaScript',
+  description: `Runs JavaScript in a sandboxed worker without DOM, network or storage access and returns console output and the result. A single expression is returned directly; for longer code use an explicit return statement. Top-level await is allowed. Execution stops after ${SANDBOX_TIMEOUT_MS / 1000} seconds.`,
+  parameters: {
+    type: 'object',
+    properties: {
+      code: { type: 'string', description: 'The JavaScript source to run.' },
+    },
+    required: ['code'],
+  },
+  requiresConfirmation: true,
+  execute: async (args, { signal }) => {
+    const outcome = await runInSandbox(String(args.code), signal);
+    if (outcome.error) {
+      throw new Error(outcome.logs.length > 0 ? `${outcome.error}\nConsole output:\n${outcome.logs.join('\n')}` : outcome.error);
+    }
+    return outcome;
+  },
+};
+
+export const BUILTIN_TOOLS: ToolDefinition[] = [calculatorTool, dateTimeTool, searchChatsTool, runJavaScriptTool];
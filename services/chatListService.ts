@@ -0,0 +1,91 @@
+import { ChatSession, SessionSortOrders } from "../types";
+
+export const SORT_ORDER_LABELS: Record<SessionSortOrders, string> = {
+  [SessionSortOrders.UPDATED]: 'Last updated',
+  [SessionSortOrders.CREATED]: 'Date created',
+  [SessionSortOrders.TITLE]: 'Title',
+  [SessionSortOrders.MESSAGES]: 'Most messages',
+};
+
+// A level of the folder tree; sessions are the chats filed directly in this folder
+export interface FolderNode {
+  name: string;
+  path: string;
+  folders: FolderNode[];
+  sessions: ChatSession[];
+}
+
+const compareSessions = (order: SessionSortOrders) => (a: ChatSession, b: ChatSession): number => {
+  switch (order) {
+    case SessionSortOrders.CREATED:
+      return b.createdAt - a.createdAt;
+    case SessionSortOrders.TITLE:
+      return a.title.localeCompare(b.title, undefined, { sensitivity: 'base', numeric: true });
+    case SessionSortOrders.MESSAGES:
+      return b.messages.length - a.messages.length || b.lastUpdated - a.lastUpdated;
+    case SessionSortOrders.UPDATED:
+    default:
+      return b.lastUpdated - a.lastUpdated;
+  }
+};
+
+/**
+ * Sorts sessions in the given order, with pinned sessions first.
+ */
+export const sortSessions = (sessions: ChatSession[], order: SessionSortOrders): ChatSession[] => {
+  const compare = compareSessions(order);
+  return [...sessions].sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || compare(a, b));
+};
+
+/**
+ * Cleans up a folder path typed by the user: segments are trimmed and empty ones dropped,
+ * so " Work // Reports/ " becomes "Work/Reports". Returns undefined for the top level.
+ */
+export const normalizeFolderPath = (path: string | undefined): string | undefined => {
+  const segments = (path || '').split('/').map(segment => segment.trim()).filter(Boolean);
+  return segments.length > 0 ? segments.join('/') : undefined;
+};
+
+/**
+ * Every folder that holds a chat, including the parents of nested folders, in alphabetical order.
+ */
+export const getFolderPaths = (sessions: ChatSession[]): string[] => {
+  const paths = new Set<string>();
+  for (const session of sessions) {
+    const segments = normalizeFolderPath(session.folder)?.split('/') || [];
+    segments.forEach((_, index) => paths.add(segments.slice(0, index + 1).join('/')));
+  }
+  return [...paths].sort((a, b) => a.localeCompare(b));
+};
+
+/**
+ * Files sorted sessions into a tree of folders. Folders are listed alphabetically and keep
+ * the order of the sessions they were given.
+ */
+export const buildFolderTree = (sessions: ChatSession[]): FolderNode => {
+  const root: FolderNode = { name: '', path: '', folders: [], sessions: [] };
+  const nodes = new Map<string, FolderNode>([['', root]]);
+
+  const getNode = (path: string): FolderNode => {
+    const existing = nodes.get(path);
+    if (existing) return existing;
+    const separator = path.lastIndexOf('/');
+    const parent = getNode(separator === -1 ? '' : path.slice(0, separator));
+    const node: FolderNode = { name: path.slice(separator + 1), path, folders: [], sessions: [] };
+    parent.folders.push(node);
+    nodes.set(path, node);
+    return node;
+  };
+
+  for (const session of sessions) {
+    getNode(normalizeFolderPath(session.folder) || '').sessions.push(session);
+  }
+  for (const node of nodes.values()) {
+    node.folders.sort((a, b) => a.name.localeCompare(b.name));
+  }
+  return root;
+};
+
+// Counts the chats in a folder and all of its subfolders
+export const countFolderSessions = (node: FolderNode): number =>
+  node.sessions.length + node.folders.reduce((total, folder) => total + countFolderSessions(folder), 0);
@@ -0,0 +1,53 @@
+import { AppSettings, ChatProvider, ModelIds, ProviderIds } from "../types";
+import { createGeminiProvider, GeminiConfig } from "./geminiService";
+import { createOpenAiProvider } from "./openAiService";
+import { mockProvider } from "./mockService";
+
+/**
+ * Returns the backend selected in settings.
+ */
+export const getChatProvider = (settings: AppSettings): ChatProvider => {
+  switch (settings.provider) {
+    case ProviderIds.OPENAI_COMPATIBLE:
+      return createOpenAiProvider({ baseUrl: settings.openAiBaseUrl, apiKey: settings.openAiApiKey });
+    case ProviderIds.MOCK:
+      return mockProvider;
+    case ProviderIds.GEMINI:
+    default:
+      return createGeminiProvider(getGeminiConfig(settings));
+  }
+};
+
+/**
+ * How to reach Gemini: through the proxy when one is set, otherwise with the selected key profile,
+ * falling back to the key the app was built with.
+ */
+export const getGeminiConfig = (settings: AppSettings): GeminiConfig => {
+  const proxyUrl = settings.geminiProxyUrl.trim();
+  if (proxyUrl) return { proxyUrl };
+  const profile = settings.geminiKeyProfiles.find(p => p.id === settings.activeGeminiKeyProfileId);
+  return { apiKey: profile?.key || process.env.API_KEY };
+};
+
+/**
+ * Default model for each provider, used when switching providers in settings.
+ */
+export const getDefaultModel = (provider: ProviderIds): string => {
+  switch (provider) {
+    case ProviderIds.OPENAI_COMPATIBLE:
+      return 'llama3.1';
+    case ProviderIds.MOCK:
+      return 'mock';
+    case ProviderIds.GEMINI:
+    default:
+      return ModelIds.FLASH;
+  }
+};
+
+/**
+ * Human readable model name for the UI.
+ */
+export const getModelLabel = (settings: AppSettings): string => {
+  if (settings.provider !== ProviderIds.GEMINI) return settings.model;
+  return settings.model === ModelIds.PRO ? 'Gemini 3 Pro' : 'Gemini 3 Flash';
+};
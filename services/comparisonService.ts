@@ -0,0 +1,63 @@
+import { AppSettings, ComparisonTarget, Message, ModelIds, ProviderIds } from "../types";
+import { getModelLabel } from "./chatProvider";
+import { canDisableThinking, DEFAULT_GENERATION_SETTINGS } from "./sessionSettings";
+
+export const MIN_COMPARISON_TARGETS = 2;
+export const MAX_COMPARISON_TARGETS = 4;
+
+/**
+ * Starting point for compare mode: the chat's own model next to the other Gemini model.
+ */
+export const createComparisonTargets = (settings: AppSettings): ComparisonTarget[] => {
+  const temperature = settings.generation.temperature;
+  const current: ComparisonTarget = { id: crypto.randomUUID(), provider: settings.provider, model: settings.model, temperature };
+  const other: ComparisonTarget = {
+    id: crypto.randomUUID(),
+    provider: ProviderIds.GEMINI,
+    model: settings.provider === ProviderIds.GEMINI && settings.model === ModelIds.PRO ? ModelIds.FLASH : ModelIds.PRO,
+    temperature,
+  };
+  return [current, other];
+};
+
+/**
+ * The chat's settings as one comparison target sees them. Tools and grounding are left out,
+ * so the answers only differ by the configuration being compared. Thinking that was turned off
+ * is left to the model's default when the target model cannot turn it off.
+ */
+export const applyComparisonTarget = (settings: AppSettings, target: ComparisonTarget): AppSettings => ({
+  ...settings,
+  provider: target.provider,
+  model: target.model,
+  generation: {
+    ...settings.generation,
+    temperature: target.temperature,
+    ...(settings.generation.thinkingBudget === 0 && !canDisableThinking(target.model)
+      ? { thinkingBudget: DEFAULT_GENERATION_SETTINGS.thinkingBudget }
+      : {}),
+  },
+  enabledTools: [],
+  grounding: { ...settings.grounding, googleSearch: false, urlContext: false },
+});
+
+export const getComparisonLabel = (settings: AppSettings, target: ComparisonTarget): string =>
+  `${getModelLabel({ ...settings, provider: target.provider, model: target.model })} · temperature ${target.temperature}`;
+
+/**
+ * Replies of a comparison, in the order they were started.
+ */
+export const getComparisonReplies = (messages: Message[], groupId: string): Message[] =>
+  messages.filter(m => m.comparison?.groupId === groupId);
+
+/**
+ * The comparison waiting for the user to pick an answer: the branch ends at a user message
+ * whose replies were written side by side. Returns its group id.
+ */
+export const getUndecidedComparison = (messages: Message[], activePath: Message[]): string | undefined => {
+  const last = activePath[activePath.length - 1];
+  if (!last || last.role !== 'user') return undefined;
+  return messages.find(m => m.parentId === last.id && m.comparison)?.comparison?.groupId;
+};
+
+export const formatDuration = (ms: number): string =>
+  ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { ContextStrategies, ContextSummary, Message } from '../types';
+import { getContextStatuses, planContext, withSummary } from './contextService';
+
+// Every message is estimated at 10 tokens
+const message = (index: number): Message => ({
+  id: `m${index}`,
+  parentId: index === 0 ? null : `m${index - 1}`,
+  role: index % 2 === 0 ? 'user' : 'model',
+  content: `${index}`.padEnd(40, '.'),
+  timestamp: index,
+});
+
+const path = Array.from({ length: 7 }, (_, index) => message(index));
+const ids = (messages: Message[]) => messages.map(m => m.id);
+
+const summaryCovering = (coveredMessageId: string): ContextSummary => ({
+  content: 's'.repeat(40),
+  coveredMessageId,
+  createdAt: 0,
+});
+
+describe('planContext', () => {
+  it('sends everything with the full strategy', () => {
+    const plan = planContext(path, { strategy: ContextStrategies.FULL, maxTokens: 1 }, '');
+
+    expect(ids(plan.included)).toEqual(ids(path));
+    expect(plan.excluded).toEqual([]);
+  });
+
+  it('keeps the newest messages that fit in a sliding window', () => {
+    const plan = planContext(path, { strategy: ContextStrategies.SLIDING_WINDOW, maxTokens: 35 }, '');
+
+    expect(ids(plan.included)).toEqual(['m4', 'm5', 'm6']);
+    expect(ids(plan.excluded)).toEqual(['m0', 'm1', 'm2', 'm3']);
+    expect(plan.unsummarized).toEqual([]);
+  });
+
+  it('counts the system instruction against the budget', () => {
+    const plan = planContext(path, { strategy: ContextStrategies.SLIDING_WINDOW, maxTokens: 45 }, 'i'.repeat(40));
+
+    expect(ids(plan.included)).toEqual(['m4', 'm5', 'm6']);
+  });
+
+  it('drops a reply whose question no longer fits', () => {
+    const plan = planContext(path, { strategy: ContextStrategies.SLIDING_WINDOW, maxTokens: 25 }, '');
+
+    expect(ids(plan.included)).toEqual(['m6']);
+  });
+
+  it('always keeps the newest message, even over budget', () => {
+    const plan = planContext(path, { strategy: ContextStrategies.SLIDING_WINDOW, maxTokens: 1 }, '');
+
+    expect(ids(plan.included)).toEqual(['m6']);
+  });
+
+  it('leaves failed and empty replies out of the context', () => {
+    const failed: Message = { ...message(7), role: 'model', content: '', status: 'error' };
+    const plan = planContext([...path, failed, { ...message(8), parentId: 'm7' }], { strategy: ContextStrategies.FULL, maxTokens: 1 }, '');
+
+    expect(ids(plan.included)).not.toContain('m7');
+  });
+
+  it('pins the first message ahead of the window', () => {
+    const plan = planContext(path, { strategy: ContextStrategies.PINNED_FIRST, maxTokens: 35 }, '');
+
+    expect(ids(plan.included)).toEqual(['m0', 'm6']);
+    expect(ids(plan.excluded)).toEqual(['m1', 'm2', 'm3', 'm4', 'm5']);
+  });
+
+  describe('with a rolling summary', () => {
+    const context = { strategy: ContextStrategies.ROLLING_SUMMARY, maxTokens: 35 };
+
+    it('lists excluded messages the cached summary does not cover yet', () => {
+      const plan = planContext(path, context, '', summaryCovering('m1'));
+
+      expect(ids(plan.included)).toEqual(['m6']);
+      expect(ids(plan.unsummarized)).toEqual(['m2', 'm3', 'm4', 'm5']);
+      expect(plan.summary?.coveredMessageId).toBe('m1');
+      expect(getContextStatuses(plan)).toEqual(new Map([
+        ['m0', 'summarized'],
+        ['m1', 'summarized'],
+        ['m2', 'excluded'],
+        ['m3', 'excluded'],
+        ['m4', 'excluded'],
+        ['m5', 'excluded'],
+      ]));
+    });
+
+    it('keeps summarized messages out when the budget grows', () => {
+      const plan = planContext(path, { ...context, maxTokens: 1000 }, '', summaryCovering('m3'));
+
+      expect(ids(plan.included)).toEqual(['m4', 'm5', 'm6']);
+      expect(plan.unsummarized).toEqual([]);
+    });
+
+    it('ignores a summary built from another branch', () => {
+      const plan = planContext(path, context, '', summaryCovering('elsewhere'));
+
+      expect(plan.summary).toBeUndefined();
+      expect(ids(plan.unsummarized)).toEqual(ids(plan.excluded));
+    });
+  });
+});
+
+describe('withSummary', () => {
+  it('appends the summary to the system instruction', () => {
+    expect(withSummary('Be brief.', 'We talked.')).toBe(
+      'Be brief.\n\nSummary of the earlier conversation, whose messages are no longer included:\nWe talked.'
+    );
+    expect(withSummary('Be brief.')).toBe('Be brief.');
+  });
+});
@@ -0,0 +1,112 @@
+import { ContextSettings, ContextStrategies, ContextSummary, Message } from "../types";
+import { getContextMessages } from "./messageHistory";
+import { estimateTextTokens, estimateTokens } from "./usageService";
+
+export interface ContextPlan {
+  // Sent to the model verbatim, oldest first; includes the pinned first message
+  included: Message[];
+  // Left out to stay within the budget; covered by the summary under the rolling summary strategy
+  excluded: Message[];
+  // Excluded messages the cached summary does not cover yet
+  unsummarized: Message[];
+  // Cached summary that still applies to this branch
+  summary?: ContextSummary;
+}
+
+/**
+ * Returns the cached summary when it was built from this branch, i.e. the branch still
+ * contains the last message it covers.
+ */
+const getValidSummary = (messages: Message[], summary?: ContextSummary): ContextSummary | undefined =>
+  summary && messages.some(m => m.id === summary.coveredMessageId) ? summary : undefined;
+
+/**
+ * Decides which messages of a branch fit into the session's context budget.
+ * Token counts are local estimates, so the budget is approximate. The newest message is always kept,
+ * and messages folded into a cached summary stay summarized even when the budget grows.
+ */
+export const planContext = (
+  path: Message[],
+  context: ContextSettings,
+  systemInstruction: string,
+  cachedSummary?: ContextSummary
+): ContextPlan => {
+  const messages = getContextMessages(path);
+  if (context.strategy === ContextStrategies.FULL || messages.length === 0) {
+    return { included: messages, excluded: [], unsummarized: [] };
+  }
+
+  const isSummarizing = context.strategy === ContextStrategies.ROLLING_SUMMARY;
+  const summary = isSummarizing ? getValidSummary(messages, cachedSummary) : undefined;
+  const pinned = context.strategy === ContextStrategies.PINNED_FIRST && messages.length > 1 ? messages[0] : undefined;
+  const firstCandidate = pinned ? 1 : 0;
+
+  let budget = context.maxTokens - estimateTextTokens(systemInstruction) - estimateTextTokens(summary?.content || '');
+  if (pinned) budget -= estimateTokens([pinned]);
+
+  let start = messages.length - 1;
+  let used = estimateTokens([messages[start]]);
+  while (start > firstCandidate && used + estimateTokens([messages[start - 1]]) <= budget) {
+    start--;
+    used += estimateTokens([messages[start]]);
+  }
+  // A reply without the question it answers is confusing context, so drop it along with the question
+  if (start > firstCandidate && messages[start].role === 'model' && start < messages.length - 1) {
+    start++;
+  }
+
+  const summarizedCount = summary ? messages.findIndex(m => m.id === summary.coveredMessageId) + 1 : 0;
+  start = Math.max(start, summarizedCount);
+
+  const excluded = messages.slice(firstCandidate, start);
+  return {
+    included: [...(pinned ? [pinned] : []), ...messages.slice(start)],
+    excluded,
+    unsummarized: isSummarizing ? messages.slice(summarizedCount, start) : [],
+    summary,
+  };
+};
+
+/**
+ * Appends the rolling summary to the system instruction, so every provider receives it the same way.
+ */
+export const withSummary = (systemInstruction: string, summary?: string): string => {
+  if (!summary) return systemInstruction;
+  const preamble = `Summary of the earlier conversation, whose messages are no longer included:\n${summary}`;
+  return systemInstruction ? `${systemInstruction}\n\n${preamble}` : preamble;
+};
+
+/**
+ * Builds the prompt for folding older messages into the rolling summary.
+ */
+export const buildSummaryPrompt = (messages: Message[], previousSummary?: string): string => {
+  const transcript = messages.map(message => {
+    const speaker = message.role === 'user' ? 'User' : 'Assistant';
+    const files = message.attachments?.length ? ` [attached: ${message.attachments.map(a => a.name).join(', ')}]` : '';
+    return `${speaker}: ${message.content}${files}`;
+  }).join('\n\n');
+
+  return [
+    'Summarize the following conversation so it can stand in for the original messages as context for continuing it.',
+    'Keep facts, decisions, names, numbers, code identifiers and open questions. Leave out pleasantries. Write at most a few paragraphs.',
+    ...(previousSummary ? ['', 'Summary of the conversation before these messages, to be merged into your summary:', previousSummary] : []),
+    '',
+    'Conversation:',
+    transcript,
+  ].join('\n');
+};
+
+/**
+ * Returns how each message of a branch is treated in the next request, for display.
+ * Messages missing from the map are sent in full.
+ */
+export const getContextStatuses = (plan: ContextPlan): Map<string, 'summarized' | 'excluded'> => {
+  const coveredIds = new Set<string>();
+  if (plan.summary) {
+    for (const message of plan.excluded) {
+      coveredIds.add(message.id);
+      if (message.id === plan.summary.coveredMessageId) break;
+    }
+  }
+  return new Map(plan.excluded.map(m => [m.id, coveredIds.has(m.id) ? 'summarized' : 'excluded']));
+};
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChatError, MAX_RETRIES, toChatError, toHttpError, withRetry } from './errorService';
+
+const geminiQuotaBody = JSON.stringify({
+  error: {
+    code: 429,
+    message: 'You exceeded your current quota.',
+    status: 'RESOURCE_EXHAUSTED',
+    details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '17.2s' }],
+  },
+});
+
+describe('toHttpError', () => {
+  it.each([
+    [401, '{"error":{"message":"Unauthorized"}}', 'auth', 'Unauthorized'],
+    [400, '{"error":{"message":"API key not valid. Please pass a valid API key."}}', 'auth', 'API key not valid. Please pass a valid API key.'],
+    [400, '{"error":{"message":"Invalid argument"}}', 'unknown', 'Invalid argument'],
+    [408, 'Request Timeout', 'network', 'Request Timeout'],
+    [503, '', 'server', 'Request failed with status 503.'],
+  ])('classifies status %i', (status, body, kind, message) => {
+    expect(toHttpError(status, body)).toMatchObject({ kind, message });
+  });
+
+  it('reads the wait Gemini asks for from a quota error', () => {
+    expect(toHttpError(429, geminiQuotaBody)).toMatchObject({ kind: 'quota', message: 'You exceeded your current quota.', retryAfterMs: 17200 });
+    expect(toHttpError(429, geminiQuotaBody, 5000).retryAfterMs).toBe(5000);
+  });
+});
+
+describe('toChatError', () => {
+  it('keeps errors that are already classified', () => {
+    const error = new ChatError('safety', 'Blocked');
+    expect(toChatError(error)).toBe(error);
+  });
+
+  it('classifies SDK errors by their status', () => {
+    const error = Object.assign(new Error(`got status: 429 Too Many Requests. ${geminiQuotaBody}`), { status: 429 });
+    expect(toChatError(error)).toMatchObject({ kind: 'quota', retryAfterMs: 17200 });
+  });
+
+  it.each([
+    [new TypeError('Failed to fetch'), 'network'],
+    [new TypeError('Load failed'), 'network'],
+    [new Error('No API key configured'), 'auth'],
+    [new Error('RESOURCE_EXHAUSTED'), 'quota'],
+    [new TypeError('x is undefined'), 'unknown'],
+    ['plain string', 'unknown'],
+  ])('classifies %s', (error, kind) => {
+    expect(toChatError(error).kind).toBe(kind);
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries transient failures with exponential backoff', async () => {
+    const request = vi.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new ChatError('server', 'Overloaded'))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValue('done');
+    const onRetry = vi.fn();
+
+    const result = withRetry(request, { onRetry });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe('done');
+    expect(onRetry.mock.calls.map(([error, attempt, delayMs]) => [error.kind, attempt, delayMs])).toEqual([
+      ['server', 1, 1000],
+      ['network', 2, 2000],
+    ]);
+  });
+
+  it('waits as long as the server asks', async () => {
+    const request = vi.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new ChatError('quota', 'Slow down', 7000))
+      .mockResolvedValue('done');
+    const onRetry = vi.fn();
+
+    const result = withRetry(request, { onRetry });
+    await vi.advanceTimersByTimeAsync(6999);
+    expect(request).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('done');
+    expect(onRetry).toHaveBeenCalledWith(expect.any(ChatError), 1, 7000);
+  });
+
+  it('passes on the original error once the retries run out', async () => {
+    const error = new ChatError('server', 'Still down');
+    const request = vi.fn<() => Promise<string>>().mockRejectedValue(error);
+
+    const result = withRetry(request);
+    const assertion = expect(result).rejects.toBe(error);
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(request).toHaveBeenCalledTimes(MAX_RETRIES + 1);
+  });
+
+  it('does not retry failures that need the user', async () => {
+    const error = new ChatError('auth', 'Bad key');
+    const request = vi.fn<() => Promise<string>>().mockRejectedValue(error);
+
+    await expect(withRetry(request)).rejects.toBe(error);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up when the server asks for a wait longer than 30 seconds', async () => {
+    const error = new ChatError('quota', 'Daily limit', 3_600_000);
+    const request = vi.fn<() => Promise<string>>().mockRejectedValue(error);
+
+    await expect(withRetry(request)).rejects.toBe(error);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting when cancelled', async () => {
+    const controller = new AbortController();
+    const request = vi.fn<() => Promise<string>>().mockRejectedValue(new ChatError('server', 'Overloaded'));
+
+    const result = withRetry(request, { signal: controller.signal });
+    const assertion = expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    await vi.advanceTimersByTimeAsync(500);
+    controller.abort();
+
+    await assertion;
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,171 @@
+import { ChatErrorKind } from "../types";
+
+/**
+ * A failure that has already been classified, thrown by providers when they know the cause,
+ * e.g. a missing key or a reply blocked by safety filters.
+ */
+export class ChatError extends Error {
+  kind: ChatErrorKind;
+  // Delay the server asked for before the next attempt
+  retryAfterMs?: number;
+
+  constructor(kind: ChatErrorKind, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ChatError';
+    this.kind = kind;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+interface ErrorGuidance {
+  title: string;
+  hint: string;
+}
+
+const ERROR_GUIDANCE: Record<ChatErrorKind, ErrorGuidance> = {
+  auth: {
+    title: 'API key missing or invalid',
+    hint: 'Check that an API key is configured for this provider and that it is still valid.',
+  },
+  quota: {
+    title: 'Rate limit or quota reached',
+    hint: 'Wait a moment before retrying, or check the usage limits of your plan.',
+  },
+  safety: {
+    title: 'Blocked by safety filters',
+    hint: "Rephrase the message, or relax the safety thresholds in this chat's settings.",
+  },
+  network: {
+    title: 'Connection problem',
+    hint: 'Check your internet connection, or the server address for self-hosted providers, then retry.',
+  },
+  server: {
+    title: 'The service is unavailable',
+    hint: 'The provider had an internal error or is overloaded. Retry in a little while.',
+  },
+  interrupted: {
+    title: 'The answer was cut off',
+    hint: 'The connection dropped before the model finished. Retry to get a complete answer.',
+  },
+  unknown: {
+    title: 'Something went wrong',
+    hint: 'The request failed for an unexpected reason; the details are below.',
+  },
+};
+
+// Failures that usually go away on their own and are retried without asking
+const TRANSIENT_KINDS: ChatErrorKind[] = ['quota', 'network', 'server'];
+
+export const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+// Longer waits, e.g. for a daily quota, are left to the user
+const MAX_DELAY_MS = 30000;
+
+export const getErrorGuidance = (kind: ChatErrorKind): ErrorGuidance =>
+  ERROR_GUIDANCE[kind] ?? ERROR_GUIDANCE.unknown;
+
+/**
+ * Pulls the human readable message out of an API error body, which the Gemini SDK and most
+ * OpenAI-compatible servers send as JSON of the form {"error": {"message": ...}}.
+ */
+const extractApiMessage = (text: string): string => {
+  const start = text.indexOf('{');
+  if (start === -1) return text.trim();
+  try {
+    const body = JSON.parse(text.slice(start));
+    const message = body?.error?.message ?? body?.message;
+    return typeof message === 'string' && message ? message : text.trim();
+  } catch {
+    return text.trim();
+  }
+};
+
+// Gemini reports how long to wait in the details of a 429, e.g. "retryDelay": "17s"
+const parseRetryDelay = (text: string): number | undefined => {
+  const match = /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(text);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Classifies a failed HTTP response by its status code and body.
+ */
+export const toHttpError = (status: number, body: string, retryAfterMs?: number): ChatError => {
+  const message = extractApiMessage(body) || `Request failed with status ${status}.`;
+  if (status === 401 || status === 403 || (status === 400 && /api[ _-]?key/i.test(message))) {
+    return new ChatError('auth', message);
+  }
+  if (status === 429) {
+    return new ChatError('quota', message, retryAfterMs ?? parseRetryDelay(body));
+  }
+  if (status === 408 || status >= 500) {
+    return new ChatError(status === 408 ? 'network' : 'server', message, retryAfterMs);
+  }
+  return new ChatError('unknown', message);
+};
+
+/**
+ * Works out why a request failed. SDK errors carry the HTTP status; fetch reports dropped
+ * connections as a TypeError with a browser-specific message.
+ */
+export const toChatError = (error: unknown): ChatError => {
+  if (error instanceof ChatError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') {
+    return toHttpError(status, message);
+  }
+  if (
+    (error instanceof TypeError && /fetch|network|load failed/i.test(message)) ||
+    (typeof navigator !== 'undefined' && navigator.onLine === false)
+  ) {
+    return new ChatError('network', message);
+  }
+  if (/api[ _-]?key/i.test(message)) return new ChatError('auth', message);
+  if (/quota|rate limit|resource_exhausted/i.test(message)) return new ChatError('quota', message);
+  return new ChatError('unknown', message);
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Retry cancelled', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Retry cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+interface RetryOptions {
+  signal?: AbortSignal;
+  // Called before each wait, e.g. to tell the user a retry is coming
+  onRetry?: (error: ChatError, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Runs a request, retrying transient failures with exponential backoff and jitter.
+ * The original error is passed on once the retries run out or the failure is not transient.
+ */
+export const withRetry = async <T>(request: () => Promise<T>, { signal, onRetry }: RetryOptions = {}): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (signal?.aborted || attempt > MAX_RETRIES) throw error;
+      const chatError = toChatError(error);
+      if (!TRANSIENT_KINDS.includes(chatError.kind)) throw error;
+
+      const backoff = BASE_DELAY_MS * 2 ** (attempt - 1) * (1 + Math.random() * 0.25);
+      const delayMs = Math.round(chatError.retryAfterMs ?? backoff);
+      if (delayMs > MAX_DELAY_MS) throw error;
+      onRetry?.(chatError, attempt, delayMs);
+      await wait(delayMs, signal);
+    }
+  }
+};
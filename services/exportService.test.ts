@@ -0,0 +1,115 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { GenerateContentResponse } from '@google/genai';
+import { ChatSession, Message, ModelIds, ProviderIds } from '../types';
+import { exportSessions, importSessions } from './exportService';
+import { toGrounding } from './geminiService';
+import { loadSessions, saveSessionChanges } from './storageService';
+import {
+  DEFAULT_CONTEXT_SETTINGS,
+  DEFAULT_ENABLED_TOOLS,
+  DEFAULT_GENERATION_SETTINGS,
+  DEFAULT_GROUNDING_SETTINGS,
+  DEFAULT_STRUCTURED_OUTPUT_SETTINGS,
+} from './sessionSettings';
+import { getResponseText, searchResponse, urlContextResponse } from './__fixtures__/geminiResponses';
+
+// Opening the database for the first time imports legacy data from localStorage, which Node lacks
+vi.stubGlobal('localStorage', { getItem: () => null, removeItem: () => {} });
+
+const toReply = (id: string, parentId: string, response: GenerateContentResponse, timestamp: number): Message => {
+  const content = getResponseText(response);
+  return {
+    id,
+    parentId,
+    role: 'model',
+    content,
+    timestamp,
+    status: 'complete',
+    model: response.modelVersion,
+    usage: {
+      promptTokens: response.usageMetadata?.promptTokenCount ?? 0,
+      outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
+      thinkingTokens: 0,
+    },
+    grounding: toGrounding(response, content),
+  };
+};
+
+const session: ChatSession = {
+  id: 'session-grounded',
+  title: 'Wahrzeichen',
+  createdAt: 1760000000000,
+  lastUpdated: 1760000060000,
+  settings: {
+    provider: ProviderIds.GEMINI,
+    model: ModelIds.FLASH,
+    systemInstruction: '',
+    generation: DEFAULT_GENERATION_SETTINGS,
+    context: DEFAULT_CONTEXT_SETTINGS,
+    enabledTools: DEFAULT_ENABLED_TOOLS,
+    grounding: { ...DEFAULT_GROUNDING_SETTINGS, googleSearch: true, urlContext: true },
+    structuredOutput: DEFAULT_STRUCTURED_OUTPUT_SETTINGS,
+  },
+  messages: [
+    { id: 'prompt-1', parentId: null, role: 'user', content: 'Wann wurde der Kölner Dom fertig?', timestamp: 1760000000000 },
+    toReply('reply-1', 'prompt-1', searchResponse, 1760000010000),
+    { id: 'prompt-2', parentId: 'reply-1', role: 'user', content: 'Was steht auf https://example.org/fristen?', timestamp: 1760000050000 },
+    toReply('reply-2', 'prompt-2', urlContextResponse, 1760000060000),
+  ],
+};
+
+describe('grounded replies', () => {
+  it('survive being stored, exported and imported again', async () => {
+    await saveSessionChanges(null, [session]);
+    const [stored] = await loadSessions();
+    expect(stored).toEqual(session);
+
+    const { sessions, invalid } = importSessions(exportSessions([stored], 'json').content, []);
+    expect(invalid).toBe(0);
+    expect(sessions).toEqual([session]);
+  });
+
+  it('keep their citations in place in Markdown exports', () => {
+    const { content } = exportSessions([session], 'markdown');
+
+    expect(content).toContain(
+      'der Grundsteinlegung.[[1]](https://vertexaisearch.cloud.google.com/grounding-api-redirect/AUZIYQGk1koeln) '
+    );
+    expect(content).toContain(
+      '2012年に開業しました。[[2]](https://vertexaisearch.cloud.google.com/grounding-api-redirect/AUZIYQHx2wiki)' +
+      '[[3]](https://vertexaisearch.cloud.google.com/grounding-api-redirect/AUZIYQFq3tokyo) '
+    );
+    expect(content).toContain('30 Tage.[[1]](https://example.org/fristen) Die FAQ-Seite');
+  });
+});
+
+describe('importSessions', () => {
+  const reply = session.messages[1];
+  const withChanges = (changes: Record<string, unknown>, messageChanges: Record<string, unknown> = {}) =>
+    exportSessions([{ ...session, ...changes, messages: [...session.messages.slice(0, 1), { ...reply, ...messageChanges }] }], 'json').content;
+
+  it.each<[string, Record<string, unknown>, Record<string, unknown>?]>([
+    ['a citation of a source that does not exist', {}, { grounding: { ...reply.grounding, citations: [{ endIndex: 3, sourceIndices: [3] }] } }],
+    ['a fractional citation index', {}, { grounding: { ...reply.grounding, citations: [{ endIndex: 3, sourceIndices: [0.5] }] } }],
+    ['an unknown message status', {}, { status: 'streaming' }],
+    ['a repeated message id', {}, { id: 'prompt-1' }],
+    ['an active leaf that is not an id', { activeLeafId: 7 }],
+    ['a pinned flag that is not a boolean', { pinned: 'yes' }],
+    ['an archived flag that is not a boolean', { archived: 1 }],
+  ])('counts a session with %s as invalid', (_, changes, messageChanges = {}) => {
+    const { sessions, invalid } = importSessions(withChanges(changes, messageChanges), []);
+
+    expect(sessions).toEqual([]);
+    expect(invalid).toBe(1);
+  });
+
+  it('gives colliding sessions fresh ids and keeps their branches linked', () => {
+    const changed = { ...session, lastUpdated: session.lastUpdated + 1 };
+    const [imported] = importSessions(exportSessions([changed], 'json').content, [session]).sessions;
+
+    expect(imported.id).not.toBe(session.id);
+    expect(imported.messages.map(m => m.content)).toEqual(session.messages.map(m => m.content));
+    expect(imported.messages.slice(1).map(m => m.parentId)).toEqual(imported.messages.slice(0, -1).map(m => m.id));
+  });
+});
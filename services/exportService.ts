@@ -0,0 +1,401 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import Markdown from '../components/Markdown';
+import { Attachment, ChatSession, Grounding, GroundingSource, Message, MessageStatus, TokenUsage, ToolCall, ToolCallStatus } from '../types';
+import { getActivePath } from './messageHistory';
+import { formatFileSize, isImageAttachment, isSupportedMimeType, toDataUrl } from './attachmentService';
+import { getSourceAnchorId, getSourceDomain, hasGrounding, insertCitationMarkers, isWebUrl, toSourceAnchorLink } from './groundingService';
+import { getErrorGuidance } from './errorService';
+
+export type ExportFormat = 'json' | 'markdown' | 'html';
+
+export interface ExportedFile {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
+export interface ImportResult {
+  sessions: ChatSession[];
+  // Sessions that were already present with the same id and last update
+  duplicates: number;
+  // Sessions that did not pass validation
+  invalid: number;
+}
+
+// Identifies our JSON exports so an import can reject unrelated files
+const EXPORT_FORMAT_ID = 'gemini-custom-chat';
+const EXPORT_VERSION = 1;
+
+interface ExportEnvelope {
+  format: typeof EXPORT_FORMAT_ID;
+  version: number;
+  exportedAt: number;
+  sessions: ChatSession[];
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const getRoleLabel = (message: Message) => (message.role === 'user' ? 'You' : 'Model');
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 50) || 'chat';
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const toJson = (sessions: ChatSession[]): string => {
+  const envelope: ExportEnvelope = {
+    format: EXPORT_FORMAT_ID,
+    version: EXPORT_VERSION,
+    exportedAt: Date.now(),
+    sessions,
+  };
+  return JSON.stringify(envelope, null, 2);
+};
+
+// Search results are often titled with their domain; repeating it adds nothing
+const getSourceSuffix = (source: GroundingSource) => {
+  const domain = getSourceDomain(source);
+  return !domain || domain === source.title ? '' : ` · ${domain}`;
+};
+
+// Citations link straight to the source, since plain Markdown has no reliable in-page anchors
+const toMarkdownContent = (message: Message): string => {
+  const grounding = message.grounding;
+  if (!hasGrounding(grounding)) return message.content;
+  const getLink = (index: number) => {
+    const uri = grounding.sources[index]?.uri;
+    return uri && isWebUrl(uri) ? uri : null;
+  };
+  const content = insertCitationMarkers(
+    message.content,
+    grounding.citations,
+    index => (getLink(index) ? `[[${index + 1}]](${getLink(index)})` : `[${index + 1}]`)
+  );
+  return [
+    content,
+    '',
+    '**Sources**',
+    '',
+    ...grounding.sources.map((source, index) => `${index + 1}. ${getLink(index) ? `[${source.title}](${source.uri})` : source.title}${getSourceSuffix(source)}`),
+    ...(grounding.searchQueries.length > 0 ? ['', `_Searched for: ${grounding.searchQueries.join(' · ')}_`] : []),
+  ].join('\n');
+};
+
+// Failed replies have little or no content, so the transcript says what went wrong instead
+const getFailureNote = (message: Message): string | null => {
+  if (message.status !== 'error' || !message.error) return null;
+  const { title } = getErrorGuidance(message.error.kind);
+  return message.error.message ? `${title}: ${message.error.message}` : title;
+};
+
+const toMarkdown = (sessions: ChatSession[]): string =>
+  sessions.map(session => {
+    const header = [
+      `# ${session.title}`,
+      '',
+      `_Model: ${session.settings.model} · Created: ${formatDate(session.createdAt)} · Last updated: ${formatDate(session.lastUpdated)}_`,
+    ];
+    if (session.settings.systemInstruction) {
+      header.push('', '> **System instruction:** ' + session.settings.systemInstruction.replace(/\n/g, '\n> '));
+    }
+    const messages = getActivePath(session).map(message => [
+      `### ${getRoleLabel(message)} · ${formatDate(message.timestamp)}`,
+      '',
+      toMarkdownContent(message),
+      ...(getFailureNote(message) ? ['', `> ⚠️ ${getFailureNote(message)}`] : []),
+      ...(message.attachments || []).map(a => `- 📎 ${a.name} (${formatFileSize(a.size)})`),
+    ].join('\n').trimEnd());
+    return [...header, '', ...messages.flatMap(m => [m, ''])].join('\n').trimEnd();
+  }).join('\n\n---\n\n') + '\n';
+
+// Styles for the standalone transcript; it has to render without Tailwind or network access
+const HTML_STYLES = `
+  body { margin: 0; background: #030712; color: #f3f4f6; font: 15px/1.6 -apple-system, BlinkMacSystemFont, 'Segoe UI', Inter, sans-serif; }
+  main { max-width: 860px; margin: 0 auto; padding: 32px 16px; }
+  section + section { border-top: 1px solid #1f2937; margin-top: 48px; padding-top: 32px; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  .meta { color: #6b7280; font-size: 12px; margin-bottom: 16px; }
+  .instruction { border-left: 3px solid #374151; color: #9ca3af; font-style: italic; padding: 4px 12px; margin-bottom: 24px; white-space: pre-wrap; }
+  .message { margin-bottom: 24px; }
+  .message.user .content { background: #1f2937; border-radius: 16px; padding: 12px 20px; }
+  .role { color: #9ca3af; font-size: 12px; font-weight: 600; margin-bottom: 6px; }
+  .content p { margin: 0 0 8px; }
+  .content a { color: #60a5fa; }
+  .content code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 13px; }
+  .content code:not([class*="language-"]) { background: #1f2937; color: #f9a8d4; padding: 2px 6px; border-radius: 4px; }
+  .content ul, .content ol { margin: 0 0 8px; padding-left: 20px; }
+  .content table { border-collapse: collapse; }
+  .content th, .content td { border: 1px solid #374151; padding: 4px 8px; }
+  .content blockquote { border-left: 3px solid #374151; margin: 0 0 8px; padding-left: 12px; color: #9ca3af; }
+  .attachments { display: flex; flex-wrap: wrap; gap: 8px; margin-top: 8px; }
+  .attachments img { max-height: 240px; max-width: 100%; border-radius: 8px; border: 1px solid #374151; }
+  .attachments .file { background: #1f2937; border: 1px solid #374151; border-radius: 8px; padding: 6px 10px; font-size: 12px; color: #d1d5db; }
+  .content a.citation { font-size: 10px; vertical-align: super; background: #374151; color: #e5e7eb; border-radius: 4px; padding: 0 4px; margin: 0 1px; text-decoration: none; }
+  .sources { margin: 8px 0 0; padding-left: 20px; font-size: 13px; color: #9ca3af; }
+  .sources a { color: #60a5fa; }
+  .queries { color: #6b7280; font-size: 12px; margin-top: 4px; }
+  .failure { border: 1px solid #7f1d1d; border-radius: 8px; color: #fca5a5; font-size: 13px; margin-top: 8px; padding: 6px 10px; }
+`;
+
+// Images are embedded so the transcript stays self-contained; other files are listed by name
+const renderAttachments = (attachments: Attachment[] = []) => {
+  if (attachments.length === 0) return '';
+  const items = attachments.map(a => isImageAttachment(a)
+    ? `<img src="${escapeHtml(toDataUrl(a))}" alt="${escapeHtml(a.name)}" />`
+    : `<span class="file">📎 ${escapeHtml(a.name)} · ${formatFileSize(a.size)}</span>`);
+  return `\n  <div class="attachments">${items.join('')}</div>`;
+};
+
+// Numbered like the citation markers, which link to these entries by id
+const renderSources = (messageId: string, grounding: Grounding | undefined) => {
+  if (!hasGrounding(grounding)) return '';
+  const items = grounding.sources.map((source, index) => {
+    const title = isWebUrl(source.uri)
+      ? `<a href="${escapeHtml(source.uri)}">${escapeHtml(source.title)}</a>`
+      : escapeHtml(source.title);
+    return `<li id="${escapeHtml(getSourceAnchorId(messageId, index))}">${title}${escapeHtml(getSourceSuffix(source))}</li>`;
+  });
+  const queries = grounding.searchQueries.length > 0
+    ? `<div class="queries">Searched for: ${escapeHtml(grounding.searchQueries.join(' · '))}</div>`
+    : '';
+  return `\n  <ol class="sources">${items.join('')}</ol>${queries}`;
+};
+
+const toHtml = (sessions: ChatSession[]): string => {
+  const sections = sessions.map(session => {
+    const messages = getActivePath(session).map(message => {
+      const content = message.grounding
+        ? insertCitationMarkers(message.content, message.grounding.citations, index => toSourceAnchorLink(message.id, index))
+        : message.content;
+      // Same renderer as the app, so code blocks and formatting look identical
+      const rendered = renderToStaticMarkup(React.createElement(Markdown, { content, standalone: true }));
+      const failureNote = getFailureNote(message);
+      const failure = failureNote ? `\n  <div class="failure">⚠️ ${escapeHtml(failureNote)}</div>` : '';
+      return `<div class="message ${message.role}">
+  <div class="role">${getRoleLabel(message)} · ${escapeHtml(formatDate(message.timestamp))}</div>
+  <div class="content">${rendered}</div>${failure}${renderSources(message.id, message.grounding)}${renderAttachments(message.attachments)}
+</div>`;
+    }).join('\n');
+
+    const instruction = session.settings.systemInstruction
+      ? `<div class="instruction">${escapeHtml(session.settings.systemInstruction)}</div>`
+      : '';
+
+    return `<section>
+<h1>${escapeHtml(session.title)}</h1>
+<div class="meta">Model: ${escapeHtml(session.settings.model)} · Created: ${escapeHtml(formatDate(session.createdAt))}</div>
+${instruction}
+${messages}
+</section>`;
+  }).join('\n');
+
+  const title = sessions.length === 1 ? sessions[0].title : 'Chat Export';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+${sections}
+</main>
+</body>
+</html>
+`;
+};
+
+/**
+ * Serializes one or more sessions. JSON is lossless, including every branch, and can be
+ * imported again; Markdown and HTML contain the active branch and are meant for reading and sharing.
+ */
+export const exportSessions = (sessions: ChatSession[], format: ExportFormat): ExportedFile => {
+  const baseName = sessions.length === 1
+    ? slugify(sessions[0].title)
+    : `chats-${new Date().toISOString().slice(0, 10)}`;
+
+  switch (format) {
+    case 'markdown':
+      return { filename: `${baseName}.md`, content: toMarkdown(sessions), mimeType: 'text/markdown' };
+    case 'html':
+      return { filename: `${baseName}.html`, content: toHtml(sessions), mimeType: 'text/html' };
+    case 'json':
+    default:
+      return { filename: `${baseName}.json`, content: toJson(sessions), mimeType: 'application/json' };
+  }
+};
+
+/**
+ * Triggers a browser download for an exported file.
+ */
+export const downloadFile = ({ filename, content, mimeType }: ExportedFile) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+const MESSAGE_STATUSES: MessageStatus[] = ['complete', 'error'];
+
+const TOOL_CALL_STATUSES: ToolCallStatus[] = ['pending', 'awaiting-confirmation', 'running', 'done', 'error', 'denied'];
+
+// The type and data end up in data URLs, so only the types the app creates and real base64 are accepted
+const isValidAttachment = (value: unknown): value is Attachment =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.mimeType === 'string' &&
+  isSupportedMimeType(value.mimeType) &&
+  typeof value.size === 'number' &&
+  typeof value.data === 'string' &&
+  BASE64_PATTERN.test(value.data);
+
+const isValidToolCall = (value: unknown): value is ToolCall =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  isRecord(value.args) &&
+  TOOL_CALL_STATUSES.includes(value.status as ToolCallStatus) &&
+  (value.error === undefined || typeof value.error === 'string') &&
+  (value.thoughtSignature === undefined || typeof value.thoughtSignature === 'string');
+
+const isValidUsage = (value: unknown): value is TokenUsage =>
+  isRecord(value) &&
+  typeof value.promptTokens === 'number' &&
+  typeof value.outputTokens === 'number' &&
+  typeof value.thinkingTokens === 'number';
+
+const isIndexBelow = (value: unknown, length: number): boolean =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+
+// Citations point into the source list by position, so every index must name a source
+const isValidGrounding = (value: unknown): value is Grounding =>
+  isRecord(value) &&
+  Array.isArray(value.sources) &&
+  value.sources.every(source => isRecord(source) && typeof source.uri === 'string' && typeof source.title === 'string') &&
+  Array.isArray(value.citations) &&
+  value.citations.every(citation =>
+    isRecord(citation) &&
+    Number.isInteger(citation.endIndex) &&
+    Array.isArray(citation.sourceIndices) &&
+    citation.sourceIndices.every(index => isIndexBelow(index, (value.sources as unknown[]).length))
+  ) &&
+  Array.isArray(value.searchQueries);
+
+const isValidMessage = (value: unknown): value is Message =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  (value.parentId === undefined || value.parentId === null || typeof value.parentId === 'string') &&
+  (value.role === 'user' || value.role === 'model') &&
+  typeof value.content === 'string' &&
+  (value.status === undefined || MESSAGE_STATUSES.includes(value.status as MessageStatus)) &&
+  (value.attachments === undefined || (Array.isArray(value.attachments) && value.attachments.every(isValidAttachment))) &&
+  (value.grounding === undefined || isValidGrounding(value.grounding)) &&
+  (value.toolCalls === undefined || (Array.isArray(value.toolCalls) && value.toolCalls.every(isValidToolCall))) &&
+  (value.usage === undefined || isValidUsage(value.usage)) &&
+  (value.error === undefined || (isRecord(value.error) && typeof value.error.kind === 'string' && typeof value.error.message === 'string')) &&
+  (value.comparison === undefined || (isRecord(value.comparison) && typeof value.comparison.groupId === 'string' && typeof value.comparison.label === 'string')) &&
+  (value.thoughts === undefined || typeof value.thoughts === 'string') &&
+  (value.structured === undefined || (isRecord(value.structured) && typeof value.structured.schemaName === 'string' && (value.structured.errors === undefined || Array.isArray(value.structured.errors)))) &&
+  typeof value.timestamp === 'number';
+
+const isValidSession = (value: unknown): value is ChatSession =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.title === 'string' &&
+  typeof value.createdAt === 'number' &&
+  typeof value.lastUpdated === 'number' &&
+  Array.isArray(value.messages) &&
+  value.messages.every(isValidMessage) &&
+  // Message ids link the branch tree together, so they must not repeat
+  new Set(value.messages.map(message => message.id)).size === value.messages.length &&
+  (value.activeLeafId === undefined || typeof value.activeLeafId === 'string') &&
+  (value.folder === undefined || typeof value.folder === 'string') &&
+  (value.pinned === undefined || typeof value.pinned === 'boolean') &&
+  (value.archived === undefined || typeof value.archived === 'boolean') &&
+  (value.settings === undefined || isRecord(value.settings));
+
+// Replaces all ids in a session, rewriting parent links so branches stay intact
+const withFreshIds = (session: ChatSession): ChatSession => {
+  const idMap = new Map(session.messages.map(m => [m.id, crypto.randomUUID()]));
+  const remap = (id: string | null | undefined) => (id ? idMap.get(id) ?? null : id);
+
+  return {
+    ...session,
+    id: crypto.randomUUID(),
+    messages: session.messages.map(m => ({
+      ...m,
+      id: idMap.get(m.id)!,
+      // Legacy exports have no parent links; leave them undefined so they are chained in order later
+      parentId: remap(m.parentId) as string | null,
+    })),
+    activeLeafId: session.activeLeafId ? idMap.get(session.activeLeafId) : undefined,
+    contextSummary: session.contextSummary && idMap.has(session.contextSummary.coveredMessageId)
+      ? { ...session.contextSummary, coveredMessageId: idMap.get(session.contextSummary.coveredMessageId)! }
+      : undefined,
+  };
+};
+
+/**
+ * Parses a JSON export and prepares its sessions for merging into the existing list.
+ * Sessions that already exist unchanged are skipped. Any other id collision gets fresh ids,
+ * because message ids must stay unique across all stored sessions.
+ * Session settings are returned as stored; callers fill in missing fields.
+ */
+export const importSessions = (text: string, existing: ChatSession[]): ImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  if (!isRecord(data) || data.format !== EXPORT_FORMAT_ID || !Array.isArray(data.sessions)) {
+    throw new Error("The file is not a chat export.");
+  }
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new Error("The file was exported by a newer version of the app.");
+  }
+
+  const existingById = new Map(existing.map(s => [s.id, s]));
+  const usedMessageIds = new Set(existing.flatMap(s => s.messages.map(m => m.id)));
+
+  const result: ImportResult = { sessions: [], duplicates: 0, invalid: 0 };
+
+  for (const candidate of data.sessions) {
+    if (!isValidSession(candidate)) {
+      result.invalid++;
+      continue;
+    }
+
+    const match = existingById.get(candidate.id);
+    if (match && match.lastUpdated === candidate.lastUpdated) {
+      result.duplicates++;
+      continue;
+    }
+
+    const hasCollision = !!match || candidate.messages.some(m => usedMessageIds.has(m.id));
+    const session = hasCollision ? withFreshIds(candidate) : candidate;
+
+    existingById.set(session.id, session);
+    session.messages.forEach(m => usedMessageIds.add(m.id));
+    result.sessions.push(session);
+  }
+
+  return result;
+};
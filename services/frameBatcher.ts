@@ -0,0 +1,38 @@
+// Animation frames pause in background tabs, so a timer makes sure updates still land there
+const FALLBACK_DELAY_MS = 100;
+
+export interface FrameBatcher<T extends object> {
+  // Queues a patch; patches queued in the same frame are merged, later fields winning
+  update: (patch: T) => void;
+  // Applies whatever is queued right away
+  flush: () => void;
+}
+
+/**
+ * Collects patches and applies them at most once per animation frame, so a fast stream
+ * re-renders once per frame instead of once per chunk.
+ */
+export const createFrameBatcher = <T extends object>(apply: (patch: T) => void): FrameBatcher<T> => {
+  let pending: T | null = null;
+  let frame: number | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (frame !== null) cancelAnimationFrame(frame);
+    if (timer !== null) clearTimeout(timer);
+    frame = null;
+    timer = null;
+    if (!pending) return;
+    const patch = pending;
+    pending = null;
+    apply(patch);
+  };
+
+  const update = (patch: T) => {
+    pending = pending ? { ...pending, ...patch } : patch;
+    if (frame === null) frame = requestAnimationFrame(flush);
+    if (timer === null) timer = setTimeout(flush, FALLBACK_DELAY_MS);
+  };
+
+  return { update, flush };
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { GenerateContentResponse } from '@google/genai';
+import { toGrounding } from './geminiService';
+import { getResponseText, searchResponse, urlContextResponse } from './__fixtures__/geminiResponses';
+
+describe('toGrounding', () => {
+  it('keeps web chunks as sources and renumbers citations to match', () => {
+    const grounding = toGrounding(searchResponse, getResponseText(searchResponse));
+
+    expect(grounding?.sources).toEqual([
+      {
+        uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/AUZIYQGk1koeln',
+        title: 'koelner-dom.de',
+        domain: 'koelner-dom.de',
+      },
+      { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/AUZIYQHx2wiki', title: 'wikipedia.org' },
+      { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/AUZIYQFq3tokyo', title: 'tokyo-skytree.jp' },
+    ]);
+    expect(grounding?.citations.map(citation => citation.sourceIndices)).toEqual([[0], [1], [2, 1]]);
+    expect(grounding?.searchQueries).toEqual(['Kölner Dom Fertigstellung', '東京スカイツリー 高さ']);
+  });
+
+  it('converts segment byte offsets into string indices', () => {
+    const text = getResponseText(searchResponse);
+    const grounding = toGrounding(searchResponse, text);
+    const segments = searchResponse.candidates![0].groundingMetadata!.groundingSupports!.map(support => support.segment!);
+
+    // Each citation ends right after the sentence its segment covers
+    expect(grounding?.citations.map(citation => text.slice(0, citation.endIndex))).toEqual(
+      segments.slice(0, 3).map(segment => text.slice(0, text.indexOf(segment.text!) + segment.text!.length))
+    );
+    // The fixture is only useful while the two kinds of offset disagree
+    expect(grounding?.citations.map(citation => citation.endIndex)).not.toEqual(segments.slice(0, 3).map(segment => segment.endIndex));
+  });
+
+  it('adds pages read through URL context once, skipping ones that failed to load', () => {
+    const text = getResponseText(urlContextResponse);
+    const grounding = toGrounding(urlContextResponse, text);
+
+    expect(grounding?.sources).toEqual([
+      { uri: 'https://example.org/fristen', title: 'Fristen und Termine' },
+      { uri: 'https://example.org/änderungen', title: 'https://example.org/änderungen' },
+    ]);
+    expect(grounding?.citations).toEqual([{ endIndex: text.indexOf(' Die FAQ'), sourceIndices: [0] }]);
+    expect(grounding?.searchQueries).toEqual([]);
+  });
+
+  it('returns nothing for a reply without grounding', () => {
+    const { groundingMetadata, urlContextMetadata, ...candidate } = searchResponse.candidates![0];
+    const response = Object.assign(new GenerateContentResponse(), { candidates: [candidate] });
+
+    expect(toGrounding(response, getResponseText(response))).toBeUndefined();
+  });
+});
@@ -1,53 +1,352 @@
-import { GoogleGenAI, Chat, GenerateContentResponse } from "@google/genai";
-import { Message, ModelIds } from "../types";
+import { GoogleGenAI, Content, FinishReason, GenerateContentConfig, GenerateContentResponse, GenerateContentResponseUsageMetadata, HarmBlockThreshold, HarmCategory, Part, Tool, UrlRetrievalStatus } from "@google/genai";
+import { ChatProvider, ChatSessionOptions, GenerationSettings, Grounding, GroundingSettings, GroundingSource, Message, ModelIds, ProviderChat, SafetyThresholds, StreamChunk, TokenUsage, ToolCall, ToolDeclaration } from "../types";
+import { buildTitlePrompt, getContextMessages } from "./messageHistory";
+import { buildSummaryPrompt } from "./contextService";
+import { toToolResponse } from "./toolService";
+import { byteOffsetToIndex } from "./groundingService";
+import { ChatError } from "./errorService";
+import { getResponseSchema, JsonSchema } from "./jsonSchemaService";
+import { DEFAULT_GENERATION_SETTINGS } from "./sessionSettings";
+
+export interface GeminiConfig {
+  // Proxy that adds the key on the server, e.g. http://localhost:8787; takes precedence over apiKey
+  proxyUrl?: string;
+  apiKey?: string;
+}
+
+// The SDK requires a key, but the proxy replaces whatever the browser sends with the real one
+const PROXY_PLACEHOLDER_KEY = 'proxy';
 
 // Helper to get the API client
-const getClient = () => {
-  const apiKey = process.env.API_KEY;
+const getClient = ({ proxyUrl, apiKey }: GeminiConfig) => {
+  if (proxyUrl) {
+    return new GoogleGenAI({ apiKey: PROXY_PLACEHOLDER_KEY, httpOptions: { baseUrl: proxyUrl.replace(/\/+$/, '') } });
+  }
   if (!apiKey) {
-    console.error("API_KEY is missing from environment variables.");
+    throw new ChatError('auth', "No Gemini API key is configured. Add one in Settings, or set GEMINI_API_KEY in .env.local and restart the app.");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+// Finish reasons that mean the reply was withheld rather than completed
+const BLOCKED_FINISH_REASONS: FinishReason[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+/**
+ * Converts a message into SDK parts: its text followed by any attachments as inline data.
+ */
+export const toParts = (message: Message): Part[] => [
+  ...(message.content ? [{ text: message.content }] : []),
+  ...(message.attachments || []).map(attachment => ({
+    inlineData: { mimeType: attachment.mimeType, data: attachment.data },
+  })),
+];
+
+const toFunctionResponsePart = (call: ToolCall): Part => ({
+  functionResponse: { id: call.id, name: call.name, response: toToolResponse(call) },
+});
+
+/**
+ * Converts a stored message into SDK turns. A reply that used tools is replayed as the model's
+ * function calls, a user turn with their results, and then the reply text.
+ */
+const toContents = (message: Message): Content[] => {
+  const calls = message.toolCalls || [];
+  if (calls.length === 0) {
+    return [{ role: message.role, parts: toParts(message) }];
   }
-  return new GoogleGenAI({ apiKey: apiKey || '' });
+  return [
+    {
+      role: 'model',
+      parts: calls.map(call => ({
+        functionCall: { id: call.id, name: call.name, args: call.args },
+        ...(call.thoughtSignature ? { thoughtSignature: call.thoughtSignature } : {}),
+      })),
+    },
+    { role: 'user', parts: calls.map(toFunctionResponsePart) },
+    ...(message.content ? [{ role: 'model', parts: toParts(message) }] : []),
+  ];
 };
 
+/**
+ * Converts stored session messages into SDK history.
+ * Consecutive turns from the same role are merged and leading model turns are dropped,
+ * since the API expects history to start with a user turn and alternate between roles.
+ */
+export const buildHistory = (messages: Message[]): Content[] => {
+  const history: Content[] = [];
+  for (const content of getContextMessages(messages).flatMap(toContents)) {
+    if (history.length === 0 && content.role !== 'user') continue;
+
+    const last = history[history.length - 1];
+    if (last && last.role === content.role) {
+      last.parts = [...(last.parts || []), ...(content.parts || [])];
+    } else {
+      history.push(content);
+    }
+  }
+  return history;
+};
+
+/**
+ * Lists the tools for a request. The API does not accept Google Search or URL context next to
+ * function declarations, so grounding takes precedence and the app's own tools are left out.
+ */
+const buildTools = (tools: ToolDeclaration[], grounding?: GroundingSettings): Tool[] => {
+  if (grounding?.googleSearch || grounding?.urlContext) {
+    return [
+      ...(grounding.googleSearch ? [{ googleSearch: {} }] : []),
+      ...(grounding.urlContext ? [{ urlContext: {} }] : []),
+    ];
+  }
+  if (tools.length === 0) return [];
+  return [{
+    functionDeclarations: tools.map(({ name, description, parameters }) => ({
+      name,
+      description,
+      parametersJsonSchema: parameters,
+    })),
+  }];
+};
+
+/**
+ * Maps our generation settings onto the SDK config. Safety categories left at the
+ * default threshold are omitted so the API applies its own defaults.
+ * With a response schema the reply is JSON that the API constrains to the schema.
+ */
+export const buildGenerationConfig = (
+  systemInstruction: string,
+  generation: GenerationSettings,
+  tools: ToolDeclaration[] = [],
+  grounding?: GroundingSettings,
+  responseSchema?: JsonSchema
+): GenerateContentConfig => {
+  // Our enums mirror the SDK's string values, so they map across one to one
+  const safetySettings = (Object.entries(generation.safetySettings) as [string, string][])
+    .filter(([, threshold]) => threshold !== SafetyThresholds.DEFAULT)
+    .map(([category, threshold]) => ({
+      category: category as HarmCategory,
+      threshold: threshold as HarmBlockThreshold,
+    }));
+  const requestTools = buildTools(tools, grounding);
+  // Left out at the default, so each model thinks as much as it decides to by default
+  const thinkingConfig = {
+    ...(generation.thinkingBudget !== DEFAULT_GENERATION_SETTINGS.thinkingBudget ? { thinkingBudget: generation.thinkingBudget } : {}),
+    ...(generation.includeThoughts && generation.thinkingBudget !== 0 ? { includeThoughts: true } : {}),
+  };
+
+  return {
+    systemInstruction: systemInstruction,
+    temperature: generation.temperature,
+    topP: generation.topP,
+    topK: generation.topK,
+    maxOutputTokens: generation.maxOutputTokens,
+    ...(generation.stopSequences.length > 0 ? { stopSequences: generation.stopSequences } : {}),
+    ...(Object.keys(thinkingConfig).length > 0 ? { thinkingConfig } : {}),
+    ...(safetySettings.length > 0 ? { safetySettings } : {}),
+    ...(requestTools.length > 0 ? { tools: requestTools } : {}),
+    ...(responseSchema !== undefined ? { responseMimeType: 'application/json', responseJsonSchema: responseSchema } : {}),
+  };
+};
+
+const toTokenUsage = (metadata: GenerateContentResponseUsageMetadata): TokenUsage => ({
+  promptTokens: metadata.promptTokenCount ?? 0,
+  outputTokens: metadata.candidatesTokenCount ?? 0,
+  thinkingTokens: metadata.thoughtsTokenCount ?? 0,
+});
+
+// Function calls usually arrive whole in one chunk; the SDK chat records them in its history itself
+const toToolCalls = (parts: Part[]): ToolCall[] =>
+  parts
+    .filter(part => part.functionCall?.name)
+    .map(part => ({
+      id: part.functionCall!.id || crypto.randomUUID(),
+      name: part.functionCall!.name!,
+      args: part.functionCall!.args || {},
+      status: 'pending',
+      ...(part.thoughtSignature ? { thoughtSignature: part.thoughtSignature } : {}),
+    }));
+
+/**
+ * Reads the sources of a grounded response. Segment offsets are UTF-8 byte positions in the
+ * whole reply, so they are converted against the text received up to and including this response.
+ * Pages read through URL context are listed as sources without citations.
+ */
+export const toGrounding = (response: GenerateContentResponse, text: string): Grounding | undefined => {
+  const candidate = response.candidates?.[0];
+  const metadata = candidate?.groundingMetadata;
+  const urlMetadata = candidate?.urlContextMetadata?.urlMetadata || [];
+  if (!metadata && urlMetadata.length === 0) return undefined;
+
+  // Supports refer to chunks by position, and not every chunk is a web page
+  const sourceIndexByChunk = new Map<number, number>();
+  const sources: GroundingSource[] = [];
+  (metadata?.groundingChunks || []).forEach((chunk, chunkIndex) => {
+    if (!chunk.web?.uri) return;
+    sourceIndexByChunk.set(chunkIndex, sources.length);
+    sources.push({
+      uri: chunk.web.uri,
+      title: chunk.web.title || chunk.web.uri,
+      ...(chunk.web.domain ? { domain: chunk.web.domain } : {}),
+    });
+  });
+  for (const { retrievedUrl, urlRetrievalStatus } of urlMetadata) {
+    if (!retrievedUrl || urlRetrievalStatus !== UrlRetrievalStatus.URL_RETRIEVAL_STATUS_SUCCESS) continue;
+    if (!sources.some(source => source.uri === retrievedUrl)) {
+      sources.push({ uri: retrievedUrl, title: retrievedUrl });
+    }
+  }
+
+  const citations = (metadata?.groundingSupports || []).flatMap(support => {
+    const sourceIndices = (support.groundingChunkIndices || [])
+      .filter(chunkIndex => sourceIndexByChunk.has(chunkIndex))
+      .map(chunkIndex => sourceIndexByChunk.get(chunkIndex)!);
+    const endIndex = support.segment?.endIndex;
+    if (endIndex === undefined || sourceIndices.length === 0) return [];
+    return [{ endIndex: byteOffsetToIndex(text, endIndex), sourceIndices }];
+  });
+
+  return { sources, citations, searchQueries: metadata?.webSearchQueries || [] };
+};
+
+/**
+ * Converts SDK responses into stream chunks. A blocked prompt or reply arrives as a normal
+ * response without text, so it is turned into a safety error after passing on what was received.
+ */
+async function* toStreamChunks(stream: AsyncIterable<GenerateContentResponse>): AsyncIterable<StreamChunk> {
+  let fullText = '';
+  for await (const response of stream) {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+      throw new ChatError('safety', `The prompt was blocked (${blockReason}).`);
+    }
+    const parts = response.candidates?.[0]?.content?.parts || [];
+    // Read text from the parts directly; the response.text getter warns whenever function calls are present
+    const text = parts.filter(part => part.text && !part.thought).map(part => part.text).join('');
+    // Thought parts only arrive when thought summaries were requested
+    const thought = parts.filter(part => part.text && part.thought).map(part => part.text).join('');
+    fullText += text;
+    const toolCalls = toToolCalls(parts);
+    const grounding = toGrounding(response, fullText);
+    yield {
+      ...(text ? { text } : {}),
+      ...(thought ? { thought } : {}),
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+      ...(response.usageMetadata ? { usage: toTokenUsage(response.usageMetadata) } : {}),
+      ...(grounding ? { grounding } : {}),
+    };
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+      throw new ChatError('safety', `The reply was stopped by the model (${finishReason}).`);
+    }
+  }
+}
+
 /**
  * Creates a chat instance with the provided system instruction.
  * Note: The SDK Chat object maintains its own history in memory for the session.
- * We re-initialize it when the user switches chats or changes settings to ensure consistency.
- */
-export const createChatSession = (systemInstruction: string, model: string = ModelIds.FLASH): Chat => {
-  const ai = getClient();
-  return ai.chats.create({
-    model: model,
-    config: {
-      systemInstruction: systemInstruction,
+ * We re-initialize it when the user switches chats or changes settings, seeding it with the
+ * stored messages so the model continues the conversation where it left off.
+ */
+const createChatSession = (
+  config: GeminiConfig,
+  { systemInstruction, model, generation, history, tools, grounding, structuredOutput }: ChatSessionOptions
+): ProviderChat => {
+  const ai = getClient(config);
+  const generationConfig = buildGenerationConfig(systemInstruction, generation, tools, grounding, getResponseSchema(structuredOutput));
+  const chat = ai.chats.create({
+    model: model || ModelIds.FLASH,
+    config: generationConfig,
+    history: buildHistory(history),
+  });
+
+  return {
+    /**
+     * Sends a message to the model and streams the response.
+     * Per-request config replaces the chat-level config in the SDK, so the abort signal is merged into it.
+     */
+    sendMessageStream: async (message, signal) => {
+      const stream = await chat.sendMessageStream({
+        message: toParts(message),
+        config: { ...generationConfig, abortSignal: signal },
+      });
+      return toStreamChunks(stream);
+    },
+
+    sendToolResults: async (calls, signal) => {
+      const stream = await chat.sendMessageStream({
+        message: calls.map(toFunctionResponsePart),
+        config: { ...generationConfig, abortSignal: signal },
+      });
+      return toStreamChunks(stream);
     },
+  };
+};
+
+/**
+ * Generates a title for a new chat session based on the first message.
+ * Failures are passed on so the caller can tell the user why the chat kept its default title.
+ */
+const generateChatTitle = async (config: GeminiConfig, firstMessage: string): Promise<string> => {
+  const ai = getClient(config);
+  const response = await ai.models.generateContent({
+    model: ModelIds.FLASH,
+    contents: buildTitlePrompt(firstMessage),
   });
+  return response.text?.trim() || "New Chat";
 };
 
 /**
- * Sends a message to the model and streams the response.
+ * Summarizes older messages with the fast model, which is cheap enough to run alongside the chat.
+ * Failures are passed on so the caller can fall back to dropping the messages.
  */
-export const sendMessageStream = async (
-  chat: Chat, 
-  message: string
-): Promise<AsyncIterable<GenerateContentResponse>> => {
-  return chat.sendMessageStream({ message });
+const summarizeConversation = async (config: GeminiConfig, messages: Message[], previousSummary?: string): Promise<string> => {
+  const ai = getClient(config);
+  const response = await ai.models.generateContent({
+    model: ModelIds.FLASH,
+    contents: buildSummaryPrompt(messages, previousSummary),
+  });
+  const summary = response.text?.trim();
+  if (!summary) {
+    throw new Error("The model returned an empty summary.");
+  }
+  return summary;
 };
 
 /**
- * Generates a title for a new chat session based on the first message.
+ * Counts the prompt tokens of a conversation with the API.
+ * The Gemini API rejects a system instruction here, so it is counted as a leading user turn instead.
  */
-export const generateChatTitle = async (firstMessage: string): Promise<string> => {
-  const ai = getClient();
-  try {
-    const response = await ai.models.generateContent({
-      model: ModelIds.FLASH,
-      contents: `Summarize the following message into a short, 3-5 word title for a chat history list. Do not use quotes. Message: "${firstMessage}"`,
-    });
-    return response.text?.trim() || "New Chat";
-  } catch (error) {
-    console.error("Failed to generate title", error);
-    return "New Chat";
+const countTokens = async (config: GeminiConfig, { systemInstruction, model, history }: ChatSessionOptions): Promise<number> => {
+  const ai = getClient(config);
+  const contents = buildHistory(history);
+  if (systemInstruction) {
+    contents.unshift({ role: 'user', parts: [{ text: systemInstruction }] });
   }
-};
\ No newline at end of file
+  if (contents.length === 0) return 0;
+  const response = await ai.models.countTokens({ model: model || ModelIds.FLASH, contents });
+  return response.totalTokens ?? 0;
+};
+
+/**
+ * Checks that the key or proxy works with a token count, which is free and allowed by the proxy.
+ * Throws the API error when it does not.
+ */
+export const checkGeminiConnection = async (config: GeminiConfig): Promise<void> => {
+  const ai = getClient(config);
+  await ai.models.countTokens({ model: ModelIds.FLASH, contents: 'ping' });
+};
+
+/**
+ * Creates a provider for the Gemini API, reached directly with a key or through the proxy.
+ */
+export const createGeminiProvider = (config: GeminiConfig): ChatProvider => ({
+  createChatSession: options => createChatSession(config, options),
+  generateChatTitle: firstMessage => generateChatTitle(config, firstMessage),
+  summarizeConversation: (messages, previousSummary) => summarizeConversation(config, messages, previousSummary),
+  countTokens: options => countTokens(config, options),
+});
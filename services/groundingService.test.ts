@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { byteOffsetToIndex, insertCitationMarkers } from './groundingService';
+import { toGrounding } from './geminiService';
+import { getResponseText, searchResponse, urlContextResponse } from './__fixtures__/geminiResponses';
+
+const toMarker = (sourceIndex: number) => `[${sourceIndex + 1}]`;
+
+describe('byteOffsetToIndex', () => {
+  it('counts multi-byte characters once', () => {
+    expect(byteOffsetToIndex('Köln 🏰!', 'Köln 🏰'.length)).toBe('Köln'.length + 2);
+    expect(byteOffsetToIndex('Köln 🏰!', new TextEncoder().encode('Köln 🏰').length)).toBe('Köln 🏰'.length);
+  });
+});
+
+describe('insertCitationMarkers', () => {
+  it('places markers after the cited sentences of a recorded reply', () => {
+    const text = getResponseText(searchResponse);
+    const { citations } = toGrounding(searchResponse, text)!;
+
+    expect(insertCitationMarkers(text, citations, toMarker)).toBe(
+      'Der Kölner Dom wurde 1880 fertiggestellt, 632 Jahre nach der Grundsteinlegung.[1] ' +
+      'Mit 157 m war er bis 1884 das höchste Gebäude der Welt 🏰.[2]\n\n' +
+      '東京スカイツリーは高さ634 mで、2012年に開業しました。[2][3] ' +
+      'Beide gehören heute zu den meistbesuchten Sehenswürdigkeiten.'
+    );
+  });
+
+  it('places markers for pages read through URL context', () => {
+    const text = getResponseText(urlContextResponse);
+    const { citations } = toGrounding(urlContextResponse, text)!;
+
+    expect(insertCitationMarkers(text, citations, toMarker)).toBe(
+      'Laut der Seite ändert sich die Frist ab 2025 auf 30 Tage.[1] Die FAQ-Seite war nicht erreichbar.'
+    );
+  });
+
+  it('merges citations that end at the same place', () => {
+    const citations = [
+      { endIndex: 5, sourceIndices: [2] },
+      { endIndex: 5, sourceIndices: [0, 2] },
+    ];
+
+    expect(insertCitationMarkers('Hallo Welt', citations, toMarker)).toBe('Hallo[1][3] Welt');
+  });
+
+  it('leaves out citations inside code blocks or past the end', () => {
+    const content = 'Run:\n```sh\nnpm test\n```\nDone.';
+    const citations = [
+      { endIndex: content.indexOf('npm test') + 3, sourceIndices: [0] },
+      { endIndex: content.length + 1, sourceIndices: [1] },
+      { endIndex: content.length, sourceIndices: [2] },
+    ];
+
+    expect(insertCitationMarkers(content, citations, toMarker)).toBe(`${content}[3]`);
+  });
+});
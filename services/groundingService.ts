@@ -0,0 +1,99 @@
+import { Citation, Grounding, GroundingSource } from "../types";
+
+// Citation markers link to anchors with this prefix; the Markdown renderer draws them as badges
+export const SOURCE_ANCHOR_PREFIX = 'source-';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Converts a UTF-8 byte offset, as used by grounding segments, into a string index.
+ */
+export const byteOffsetToIndex = (text: string, byteOffset: number): number =>
+  decoder.decode(encoder.encode(text).slice(0, byteOffset)).length;
+
+export const getSourceAnchorId = (messageId: string, sourceIndex: number) =>
+  `${SOURCE_ANCHOR_PREFIX}${messageId}-${sourceIndex + 1}`;
+
+// A numbered Markdown link to the source's entry in the same message's source list
+export const toSourceAnchorLink = (messageId: string, sourceIndex: number) =>
+  `[${sourceIndex + 1}](#${getSourceAnchorId(messageId, sourceIndex)})`;
+
+/**
+ * The site a source belongs to. Search results link through a redirect, so the reported
+ * domain or title is preferred over the link's own host.
+ */
+export const getSourceDomain = (source: GroundingSource): string => {
+  if (source.domain) return source.domain;
+  if (/^[\w-]+(\.[\w-]+)+$/.test(source.title)) return source.title;
+  try {
+    return new URL(source.uri).hostname.replace(/^www\./, '');
+  } catch {
+    return source.uri;
+  }
+};
+
+/**
+ * Only web pages are linked; a source from an imported file could carry any scheme, e.g. javascript:.
+ */
+export const isWebUrl = (uri: string): boolean => {
+  try {
+    const { protocol } = new URL(uri);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+export const hasGrounding = (grounding: Grounding | undefined): grounding is Grounding =>
+  !!grounding && (grounding.sources.length > 0 || grounding.searchQueries.length > 0);
+
+// Character ranges of fenced code blocks, where a marker would show up as literal text
+const getCodeBlockRanges = (content: string): [number, number][] => {
+  const ranges: [number, number][] = [];
+  const fence = /^ {0,3}(```|~~~)/gm;
+  let open: number | null = null;
+  let match: RegExpExecArray | null;
+  while ((match = fence.exec(content))) {
+    if (open === null) {
+      open = match.index;
+    } else {
+      ranges.push([open, match.index + match[0].length]);
+      open = null;
+    }
+  }
+  if (open !== null) ranges.push([open, content.length]);
+  return ranges;
+};
+
+/**
+ * Inserts a marker for each cited source after the passage it supports.
+ * Citations that point outside the content or into a code block are left out.
+ */
+export const insertCitationMarkers = (
+  content: string,
+  citations: Citation[],
+  toMarker: (sourceIndex: number) => string
+): string => {
+  const codeBlocks = getCodeBlockRanges(content);
+  const byPosition = new Map<number, Set<number>>();
+  for (const citation of citations) {
+    const position = citation.endIndex;
+    if (position < 0 || position > content.length) continue;
+    if (codeBlocks.some(([start, end]) => position > start && position < end)) continue;
+    const indices = byPosition.get(position) ?? new Set<number>();
+    citation.sourceIndices.forEach(index => indices.add(index));
+    byPosition.set(position, indices);
+  }
+
+  let result = content;
+  // Insert from the end so earlier positions stay valid
+  for (const position of [...byPosition.keys()].sort((a, b) => b - a)) {
+    const markers = [...byPosition.get(position)!]
+      .sort((a, b) => a - b)
+      .map(toMarker)
+      .join('');
+    result = result.slice(0, position) + markers + result.slice(position);
+  }
+  return result;
+};
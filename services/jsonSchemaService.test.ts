@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createSampleFromSchema,
+  getResponseSchema,
+  JsonSchema,
+  parseSchema,
+  parseStructuredReply,
+  toPointer,
+  validateJson,
+  validateStructuredReply,
+} from './jsonSchemaService';
+import { DEFAULT_STRUCTURED_OUTPUT_SETTINGS } from './sessionSettings';
+
+const person: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    age: { type: 'integer', minimum: 0 },
+    tags: { type: 'array', items: { enum: ['a', 'b'] }, uniqueItems: true },
+    address: { $ref: '#/$defs/address' },
+  },
+  required: ['name', 'age'],
+  additionalProperties: false,
+  $defs: {
+    address: { type: 'object', properties: { 'city/town': { type: 'string' } }, required: ['city/town'] },
+  },
+};
+
+describe('parseSchema', () => {
+  it('accepts JSON objects only', () => {
+    expect(parseSchema('{"type":"object"}')).toEqual({ schema: { type: 'object' } });
+    expect(parseSchema('true')).toEqual({ error: 'The schema must be a JSON object.' });
+    expect(parseSchema('{')).toMatchObject({ error: expect.stringMatching(/^The schema is not valid JSON: /) });
+  });
+});
+
+describe('getResponseSchema', () => {
+  it('returns the schema only when structured output is on and the schema parses', () => {
+    const settings = { ...DEFAULT_STRUCTURED_OUTPUT_SETTINGS, schema: '{"type":"string"}' };
+
+    expect(getResponseSchema({ ...settings, enabled: true })).toEqual({ type: 'string' });
+    expect(getResponseSchema({ ...settings, enabled: false })).toBeUndefined();
+    expect(getResponseSchema({ ...settings, enabled: true, schema: '[]' })).toBeUndefined();
+  });
+});
+
+describe('toPointer', () => {
+  it('escapes keys as JSON Pointer segments', () => {
+    expect(toPointer('', 'a/b~c')).toBe('/a~1b~0c');
+    expect(toPointer('/items', 2)).toBe('/items/2');
+  });
+});
+
+describe('validateJson', () => {
+  it('accepts a matching value', () => {
+    expect(validateJson({ name: 'Ada', age: 36, tags: ['a'], address: { 'city/town': 'London' } }, person)).toEqual([]);
+  });
+
+  it('reports every violation with its location', () => {
+    expect(validateJson({ name: '', age: 1.5, tags: ['a', 'a', 'c'], address: {}, extra: 1 }, person)).toEqual([
+      { path: '/name', message: 'Must be at least 1 characters long.' },
+      { path: '/age', message: 'Expected integer, got number.' },
+      { path: '/tags', message: 'Items must be unique.' },
+      { path: '/tags/2', message: 'Must be one of "a", "b".' },
+      { path: '/address', message: 'Missing required property "city/town".' },
+      { path: '/extra', message: 'Unexpected property "extra".' },
+    ]);
+  });
+
+  it('does not count object prototype names as present properties', () => {
+    const schema: JsonSchema = { type: 'object', required: ['toString'], properties: { constructor: { type: 'string' } } };
+
+    expect(validateJson({}, schema)).toEqual([{ path: '', message: 'Missing required property "toString".' }]);
+    expect(validateJson({ constructor: 1 }, schema)).toContainEqual({ path: '/constructor', message: 'Expected string, got number.' });
+    expect(validateJson(1, { $ref: '#/toString' })).toEqual([{ path: '', message: 'The schema reference #/toString cannot be resolved.' }]);
+  });
+
+  it('checks number and string constraints', () => {
+    const schema: JsonSchema = { type: 'number', exclusiveMinimum: 0, maximum: 10, multipleOf: 0.5 };
+
+    expect(validateJson(0.75, schema)).toEqual([{ path: '', message: 'Must be a multiple of 0.5.' }]);
+    expect(validateJson(0, schema)).toEqual([{ path: '', message: 'Must be greater than 0.' }]);
+    expect(validateJson('😀😀', { type: 'string', maxLength: 2 })).toEqual([]);
+    expect(validateJson('abc', { pattern: '^\\d+$' })).toEqual([{ path: '', message: 'Must match the pattern ^\\d+$.' }]);
+  });
+
+  it('supports combinators, nullable values and tuples', () => {
+    expect(validateJson(null, { type: 'string', nullable: true })).toEqual([]);
+    expect(validateJson(3, { oneOf: [{ type: 'number' }, { type: 'integer' }] }))
+      .toEqual([{ path: '', message: 'Matches more than one of the allowed shapes.' }]);
+    expect(validateJson(true, { anyOf: [{ type: 'string' }, { type: 'number' }] }))
+      .toEqual([{ path: '', message: 'Does not match any of the allowed shapes.' }]);
+    expect(validateJson([1, 'x', 'y'], { prefixItems: [{ type: 'number' }], items: { type: 'number' } })).toEqual([
+      { path: '/1', message: 'Expected number, got string.' },
+      { path: '/2', message: 'Expected number, got string.' },
+    ]);
+    expect(validateJson(1, false)).toEqual([{ path: '', message: 'No value is allowed here.' }]);
+  });
+});
+
+describe('parseStructuredReply', () => {
+  it('reads plain and fenced JSON', () => {
+    expect(parseStructuredReply(' {"a":1} ')).toEqual({ value: { a: 1 } });
+    expect(parseStructuredReply('```json\n[1, 2]\n```')).toEqual({ value: [1, 2] });
+    expect(parseStructuredReply('Sure! {"a":1}')).toMatchObject({ error: expect.stringMatching(/^The reply is not valid JSON: /) });
+  });
+});
+
+describe('validateStructuredReply', () => {
+  it('reports unparsable replies and schema violations alike', () => {
+    expect(validateStructuredReply('{"name":"Ada","age":36}', person)).toEqual([]);
+    expect(validateStructuredReply('{"name":"Ada"}', person)).toEqual([{ path: '', message: 'Missing required property "age".' }]);
+    expect(validateStructuredReply('not json', person)).toEqual([{ path: '', message: expect.stringMatching(/^The reply is not valid JSON: /) }]);
+  });
+});
+
+describe('createSampleFromSchema', () => {
+  it('builds a value that follows the schema', () => {
+    const sample = createSampleFromSchema(person);
+
+    expect(sample).toEqual({ name: 'example', age: 0, tags: ['a'], address: { 'city/town': 'example' } });
+    expect(validateJson(sample, person)).toEqual([]);
+  });
+
+  it('stops following recursive references', () => {
+    const tree: JsonSchema = { type: 'object', properties: { child: { $ref: '#' } } };
+
+    expect(JSON.stringify(createSampleFromSchema(tree))).toBe('{"child":{"child":{"child":{"child":null}}}}');
+  });
+});
@@ -0,0 +1,292 @@
+import { SchemaError, StructuredOutputSettings } from "../types";
+
+// A parsed JSON Schema: an object, or true/false to allow or forbid any value
+export type JsonSchema = { [keyword: string]: unknown } | boolean;
+
+// Nesting that createSampleFromSchema follows before it stops, so recursive $refs end
+const MAX_SAMPLE_DEPTH = 6;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const typeOf = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const matchesType = (value: unknown, type: string): boolean => {
+  if (type === 'integer') return Number.isInteger(value);
+  return typeOf(value) === type;
+};
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isRecord(a) && isRecord(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => Object.hasOwn(b, key) && isEqual(a[key], b[key]));
+  }
+  return false;
+};
+
+const escapePointer = (key: string | number) => String(key).replace(/~/g, '~0').replace(/\//g, '~1');
+
+export const toPointer = (parent: string, key: string | number) => `${parent}/${escapePointer(key)}`;
+
+// Only references within the schema itself are supported, e.g. "#/$defs/address"
+const resolveRef = (ref: string, root: JsonSchema): JsonSchema | undefined => {
+  if (ref === '#') return root;
+  if (!ref.startsWith('#/')) return undefined;
+  let target: unknown = root;
+  for (const segment of ref.slice(2).split('/')) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (!isRecord(target) || !Object.hasOwn(target, key)) return undefined;
+    target = target[key];
+  }
+  return isRecord(target) || typeof target === 'boolean' ? target : undefined;
+};
+
+const describe = (value: unknown) => JSON.stringify(value);
+
+const validateValue = (value: unknown, schema: JsonSchema, root: JsonSchema, path: string, errors: SchemaError[]) => {
+  if (schema === true) return;
+  if (schema === false) {
+    errors.push({ path, message: 'No value is allowed here.' });
+    return;
+  }
+  if (!isRecord(schema)) return;
+
+  if (typeof schema.$ref === 'string') {
+    const target = resolveRef(schema.$ref, root);
+    if (target === undefined) {
+      errors.push({ path, message: `The schema reference ${schema.$ref} cannot be resolved.` });
+    } else {
+      validateValue(value, target, root, path, errors);
+    }
+  }
+
+  // OpenAPI-style schemas, as written for Gemini, mark optional nulls this way
+  if (schema.nullable === true && value === null) return;
+
+  if (schema.type !== undefined) {
+    const types = (Array.isArray(schema.type) ? schema.type : [schema.type]).filter((t): t is string => typeof t === 'string');
+    if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+      errors.push({ path, message: `Expected ${types.join(' or ')}, got ${typeOf(value)}.` });
+      // The remaining keywords describe the expected type, so they would only repeat the problem
+      return;
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => isEqual(option, value))) {
+    errors.push({ path, message: `Must be one of ${schema.enum.map(describe).join(', ')}.` });
+  }
+  if ('const' in schema && !isEqual(schema.const, value)) {
+    errors.push({ path, message: `Must be ${describe(schema.const)}.` });
+  }
+
+  if (typeof value === 'string') {
+    // Counted in characters rather than UTF-16 units, as the specification asks
+    const length = [...value].length;
+    if (typeof schema.minLength === 'number' && length < schema.minLength) {
+      errors.push({ path, message: `Must be at least ${schema.minLength} characters long.` });
+    }
+    if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+      errors.push({ path, message: `Must be at most ${schema.maxLength} characters long.` });
+    }
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(value)) {
+          errors.push({ path, message: `Must match the pattern ${schema.pattern}.` });
+        }
+      } catch {
+        errors.push({ path, message: `The schema pattern ${schema.pattern} is not a valid regular expression.` });
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push({ path, message: `Must be at least ${schema.minimum}.` });
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push({ path, message: `Must be at most ${schema.maximum}.` });
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      errors.push({ path, message: `Must be greater than ${schema.exclusiveMinimum}.` });
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      errors.push({ path, message: `Must be less than ${schema.exclusiveMaximum}.` });
+    }
+    if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0 && !Number.isInteger(value / schema.multipleOf)) {
+      errors.push({ path, message: `Must be a multiple of ${schema.multipleOf}.` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push({ path, message: `Must have at least ${schema.minItems} items.` });
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push({ path, message: `Must have at most ${schema.maxItems} items.` });
+    }
+    if (schema.uniqueItems === true && value.some((item, index) => value.findIndex(other => isEqual(other, item)) !== index)) {
+      errors.push({ path, message: 'Items must be unique.' });
+    }
+    // Tuples: `prefixItems` in current drafts, an array under `items` in older ones
+    const prefixItems = Array.isArray(schema.prefixItems) ? schema.prefixItems : Array.isArray(schema.items) ? schema.items : [];
+    const restItems = Array.isArray(schema.items) ? schema.additionalItems : schema.items;
+    value.forEach((item, index) => {
+      const itemSchema = index < prefixItems.length ? prefixItems[index] : restItems;
+      if (isRecord(itemSchema) || typeof itemSchema === 'boolean') {
+        validateValue(item, itemSchema, root, toPointer(path, index), errors);
+      }
+    });
+  }
+
+  if (isRecord(value)) {
+    const properties = isRecord(schema.properties) ? schema.properties : {};
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required) {
+        if (typeof key === 'string' && !Object.hasOwn(value, key)) {
+          errors.push({ path, message: `Missing required property "${key}".` });
+        }
+      }
+    }
+    const keys = Object.keys(value);
+    if (typeof schema.minProperties === 'number' && keys.length < schema.minProperties) {
+      errors.push({ path, message: `Must have at least ${schema.minProperties} properties.` });
+    }
+    if (typeof schema.maxProperties === 'number' && keys.length > schema.maxProperties) {
+      errors.push({ path, message: `Must have at most ${schema.maxProperties} properties.` });
+    }
+    for (const key of keys) {
+      const propertyPath = toPointer(path, key);
+      const propertySchema = Object.hasOwn(properties, key) ? properties[key] : undefined;
+      if (isRecord(propertySchema) || typeof propertySchema === 'boolean') {
+        validateValue(value[key], propertySchema, root, propertyPath, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: propertyPath, message: `Unexpected property "${key}".` });
+      } else if (isRecord(schema.additionalProperties)) {
+        validateValue(value[key], schema.additionalProperties, root, propertyPath, errors);
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    schema.allOf.forEach(part => validateValue(value, part as JsonSchema, root, path, errors));
+  }
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some(option => matchesSchema(value, option as JsonSchema, root, path))) {
+    errors.push({ path, message: 'Does not match any of the allowed shapes.' });
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter(option => matchesSchema(value, option as JsonSchema, root, path)).length;
+    if (matches !== 1) {
+      errors.push({ path, message: matches === 0 ? 'Does not match any of the allowed shapes.' : 'Matches more than one of the allowed shapes.' });
+    }
+  }
+  if ((isRecord(schema.not) || typeof schema.not === 'boolean') && matchesSchema(value, schema.not, root, path)) {
+    errors.push({ path, message: 'Matches a shape that is not allowed.' });
+  }
+};
+
+const matchesSchema = (value: unknown, schema: JsonSchema, root: JsonSchema, path: string): boolean => {
+  const errors: SchemaError[] = [];
+  validateValue(value, schema, root, path, errors);
+  return errors.length === 0;
+};
+
+/**
+ * Parses the schema text of the structured output settings.
+ * Returns the schema, or a message saying why it cannot be used.
+ */
+export const parseSchema = (text: string): { schema: JsonSchema } | { error: string } => {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch (error) {
+    return { error: `The schema is not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  if (!isRecord(schema)) {
+    return { error: 'The schema must be a JSON object.' };
+  }
+  return { schema };
+};
+
+/**
+ * The schema replies must follow, or undefined when structured output is off.
+ */
+export const getResponseSchema = ({ enabled, schema }: StructuredOutputSettings): JsonSchema | undefined => {
+  if (!enabled) return undefined;
+  const parsed = parseSchema(schema);
+  return 'schema' in parsed ? parsed.schema : undefined;
+};
+
+/**
+ * Checks a value against a JSON Schema. Covers the keywords models are asked to follow:
+ * types, enums and constants, string, number, array and object constraints, combinators
+ * and references within the schema. Returns every violation found, with its location.
+ */
+export const validateJson = (value: unknown, schema: JsonSchema): SchemaError[] => {
+  const errors: SchemaError[] = [];
+  validateValue(value, schema, schema, '', errors);
+  return errors;
+};
+
+/**
+ * Reads a structured reply. Some OpenAI-compatible servers wrap the JSON in a code fence
+ * even when asked for JSON only, so a surrounding fence is removed first.
+ */
+export const parseStructuredReply = (text: string): { value: unknown } | { error: string } => {
+  const trimmed = text.trim();
+  const fenced = /^```[a-z]*\n([\s\S]*?)\n?```$/i.exec(trimmed);
+  try {
+    return { value: JSON.parse(fenced ? fenced[1] : trimmed) };
+  } catch (error) {
+    return { error: `The reply is not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+};
+
+/**
+ * Checks a complete structured reply against the schema it was asked to follow.
+ */
+export const validateStructuredReply = (text: string, schema: JsonSchema): SchemaError[] => {
+  const parsed = parseStructuredReply(text);
+  if ('error' in parsed) return [{ path: '', message: parsed.error }];
+  return validateJson(parsed.value, schema);
+};
+
+const sampleValue = (schema: unknown, root: JsonSchema, depth: number): unknown => {
+  if (!isRecord(schema) || depth > MAX_SAMPLE_DEPTH) return null;
+  if (typeof schema.$ref === 'string') return sampleValue(resolveRef(schema.$ref, root), root, depth + 1);
+  if ('const' in schema) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+  for (const keyword of ['anyOf', 'oneOf', 'allOf']) {
+    const options = schema[keyword];
+    if (Array.isArray(options) && options.length > 0) return sampleValue(options[0], root, depth + 1);
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') ?? 'null' : schema.type;
+  switch (type) {
+    case 'object': {
+      const properties = isRecord(schema.properties) ? schema.properties : {};
+      return Object.fromEntries(Object.entries(properties).map(([key, property]) => [key, sampleValue(property, root, depth + 1)]));
+    }
+    case 'array': {
+      const minItems = typeof schema.minItems === 'number' ? schema.minItems : 1;
+      return Array.from({ length: Math.max(1, Math.min(minItems, 3)) }, () => sampleValue(schema.items, root, depth + 1));
+    }
+    case 'string':
+      return 'example';
+    case 'integer':
+    case 'number':
+      return typeof schema.minimum === 'number' ? schema.minimum : 1;
+    case 'boolean':
+      return true;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Builds a value shaped like the schema, used by the offline mock in structured output mode.
+ */
+export const createSampleFromSchema = (schema: JsonSchema): unknown => sampleValue(schema, schema, 0);
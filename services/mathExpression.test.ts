@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression } from './mathExpression';
+
+describe('evaluateExpression', () => {
+  it.each([
+    ['1 + 2 * 3', 7],
+    ['(1 + 2) * 3', 9],
+    ['10 - 4 - 3', 3],
+    ['7 % 4', 3],
+    ['2 ^ 3 ^ 2', 512],
+    ['2 ** 10', 1024],
+    ['-2 ^ 2', -4],
+    ['2 ^ -1', 0.5],
+    ['--3', 3],
+    ['.5 + 1.5e2', 150.5],
+    ['sqrt(16) + abs(-2)', 6],
+    ['max(1, 7, 3) - min(4, 2)', 5],
+    ['pow(2, 8)', 256],
+    ['log(1000) + ln(e)', 4],
+    ['round(PI * 100)', 314],
+    ['SQRT(4)', 2],
+  ])('evaluates %s', (expression, expected) => {
+    expect(evaluateExpression(expression)).toBeCloseTo(expected, 12);
+  });
+
+  it('uses floating point arithmetic', () => {
+    expect(evaluateExpression('0.1 + 0.2')).toBe(0.1 + 0.2);
+  });
+
+  it.each([
+    ['', 'The expression is empty.'],
+    ['1 +', 'Unexpected end of expression.'],
+    ['(1 + 2', 'Expected ")".'],
+    ['1 2', 'Unexpected "2".'],
+    ['2 $ 3', 'Unexpected character "$" at position 2.'],
+    ['foo(1)', 'Unknown function "foo".'],
+    ['tau', 'Unknown name "tau".'],
+  ])('rejects %j', (expression, message) => {
+    expect(() => evaluateExpression(expression)).toThrow(message);
+  });
+
+  it.each(['constructor(1)', 'tostring(1)', 'hasownproperty(1)', 'constructor', '__proto__', 'valueof'])(
+    'does not look up %s on the object prototype',
+    expression => {
+      expect(() => evaluateExpression(expression)).toThrow(/^Unknown (function|name)/);
+    }
+  );
+});
@@ -0,0 +1,153 @@
+// Evaluates arithmetic for the calculator tool without eval, so model output never runs as code
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'op'; value: string };
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_][a-z0-9_]*)|(\*\*|[-+*/%^(),]))/iy;
+  let index = 0;
+  while (index < expression.length) {
+    if (/^\s*$/.test(expression.slice(index))) break;
+    pattern.lastIndex = index;
+    const match = pattern.exec(expression);
+    if (!match) {
+      throw new Error(`Unexpected character "${expression.slice(index).trim()[0]}" at position ${index + 1}.`);
+    }
+    if (match[1] !== undefined) tokens.push({ type: 'number', value: parseFloat(match[1]) });
+    else if (match[2] !== undefined) tokens.push({ type: 'name', value: match[2].toLowerCase() });
+    else tokens.push({ type: 'op', value: match[3] === '**' ? '^' : match[3] });
+    index = pattern.lastIndex;
+  }
+  return tokens;
+};
+
+/**
+ * Evaluates an arithmetic expression with + - * / % ^, parentheses, constants (pi, e)
+ * and common functions such as sqrt, sin, log and max. Throws an Error describing the problem
+ * when the expression is invalid.
+ */
+export const evaluateExpression = (expression: string): number => {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOp = (value: string) => peek()?.type === 'op' && peek()?.value === value;
+  const expectOp = (value: string) => {
+    if (!isOp(value)) throw new Error(`Expected "${value}".`);
+    position++;
+  };
+
+  // Precedence from lowest to highest: + -, * / %, unary minus, ^ (right associative)
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[position++].value;
+      const right = parseProduct();
+      value = op === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const parseProduct = (): number => {
+    let value = parseUnary();
+    while (isOp('*') || isOp('/') || isOp('%')) {
+      const op = tokens[position++].value;
+      const right = parseUnary();
+      value = op === '*' ? value * right : op === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  const parseUnary = (): number => {
+    if (isOp('-')) {
+      position++;
+      return -parseUnary();
+    }
+    if (isOp('+')) {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): number => {
+    const base = parseAtom();
+    if (isOp('^')) {
+      position++;
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  const parseAtom = (): number => {
+    const token = tokens[position++];
+    if (!token) throw new Error('Unexpected end of expression.');
+
+    if (token.type === 'number') return token.value;
+
+    if (token.type === 'name') {
+      if (isOp('(')) {
+        // Own properties only, so names like "constructor" are not found on the prototype
+        const fn = Object.hasOwn(FUNCTIONS, token.value) ? FUNCTIONS[token.value] : undefined;
+        if (!fn) throw new Error(`Unknown function "${token.value}".`);
+        position++;
+        const args: number[] = [];
+        if (!isOp(')')) {
+          args.push(parseSum());
+          while (isOp(',')) {
+            position++;
+            args.push(parseSum());
+          }
+        }
+        expectOp(')');
+        return fn(...args);
+      }
+      if (Object.hasOwn(CONSTANTS, token.value)) return CONSTANTS[token.value];
+      throw new Error(`Unknown name "${token.value}".`);
+    }
+
+    if (token.value === '(') {
+      const value = parseSum();
+      expectOp(')');
+      return value;
+    }
+    throw new Error(`Unexpected "${token.value}".`);
+  };
+
+  if (tokens.length === 0) throw new Error('The expression is empty.');
+  const result = parseSum();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position].value}".`);
+  }
+  return result;
+};
@@ -0,0 +1,92 @@
+import { ChatSession, Message } from "../types";
+
+/**
+ * Returns the stored messages that should be replayed to the model as context.
+ * Error placeholders and empty replies carry no conversation and are left out.
+ */
+export const getContextMessages = (messages: Message[]): Message[] =>
+  messages.filter(m =>
+    m.status !== 'error' && (m.content.trim().length > 0 || (m.attachments?.length ?? 0) > 0 || (m.toolCalls?.length ?? 0) > 0)
+  );
+
+/**
+ * Builds the prompt used to summarize a chat's first message into a sidebar title.
+ */
+export const buildTitlePrompt = (firstMessage: string): string =>
+  `Summarize the following message into a short, 3-5 word title for a chat history list. Do not use quotes. Message: "${firstMessage}"`;
+
+/**
+ * Gives messages saved before branching existed a parent link, chaining them in their stored order.
+ * Returns the same array when every message is already linked.
+ */
+export const linkLegacyMessages = (messages: Message[]): Message[] => {
+  if (messages.every(m => m.parentId !== undefined)) return messages;
+  return messages.map((message, index) =>
+    message.parentId !== undefined ? message : { ...message, parentId: index > 0 ? messages[index - 1].id : null }
+  );
+};
+
+/**
+ * Converts error placeholders saved before replies had a status into failed replies. Their content
+ * was a fixed apology with no details, so it is dropped. Returns the same array when there are none.
+ */
+export const upgradeLegacyErrors = (messages: Message[]): Message[] => {
+  const isLegacyError = (m: Message) => (m as Message & { isError?: boolean }).isError === true;
+  if (!messages.some(isLegacyError)) return messages;
+  return messages.map(message => {
+    if (!isLegacyError(message)) return message;
+    const { isError: _isError, ...rest } = message as Message & { isError?: boolean };
+    return { ...rest, content: '', status: 'error', error: { kind: 'unknown', message: '' } };
+  });
+};
+
+/**
+ * Groups messages by parent id. Children keep creation order, so the newest version is last.
+ */
+export const groupByParent = (messages: Message[]): Map<string | null, Message[]> => {
+  const children = new Map<string | null, Message[]>();
+  for (const message of messages) {
+    const siblings = children.get(message.parentId) || [];
+    siblings.push(message);
+    children.set(message.parentId, siblings);
+  }
+  return children;
+};
+
+/**
+ * Returns the messages from the root down to the given message, inclusive.
+ * A null id yields an empty path, i.e. the context before the first message.
+ */
+export const getPathTo = (messages: Message[], messageId: string | null): Message[] => {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const path: Message[] = [];
+  let current = messageId ? byId.get(messageId) : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+/**
+ * Returns the branch currently selected in a session, from the first message to the active leaf.
+ */
+export const getActivePath = (session: ChatSession): Message[] => {
+  const leafId = session.activeLeafId ?? session.messages[session.messages.length - 1]?.id ?? null;
+  return getPathTo(session.messages, leafId);
+};
+
+/**
+ * Follows the newest child at every level below a message, to find the branch tip
+ * that should become active when that message is selected.
+ */
+export const getLatestLeafId = (messages: Message[], messageId: string): string => {
+  const children = groupByParent(messages);
+  let leafId = messageId;
+  let next = children.get(leafId);
+  while (next && next.length > 0) {
+    leafId = next[next.length - 1].id;
+    next = children.get(leafId);
+  }
+  return leafId;
+};
@@ -0,0 +1,184 @@
+import { ChatErrorKind, ChatProvider, ChatSessionOptions, Grounding, Message, ProviderChat, StreamChunk, ToolCall, ToolDeclaration } from "../types";
+import { getContextMessages } from "./messageHistory";
+import { toToolResponse } from "./toolService";
+import { estimateTextTokens, estimateTokens } from "./usageService";
+import { ChatError } from "./errorService";
+import { createSampleFromSchema, getResponseSchema } from "./jsonSchemaService";
+
+// Delay between streamed words, long enough to exercise the streaming UI and the Stop button
+const CHUNK_DELAY_MS = 30;
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The request was aborted', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The request was aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Builds a deterministic reply, so the same conversation always produces the same output.
+ * It reports what the mock received, which makes context and settings easy to verify by eye.
+ */
+const buildReply = (message: Message, turn: number, contextSize: number, systemInstruction: string): string => [
+  `**Mock reply #${turn}**`,
+  '',
+  `You said: "${message.content}"`,
+  '',
+  `- Messages in context: ${contextSize}`,
+  `- Attachments: ${message.attachments?.length ? message.attachments.map(a => `${a.name} (${a.mimeType})`).join(', ') : 'none'}`,
+  `- System instruction: ${systemInstruction ? `${systemInstruction.length} characters` : 'none'}`,
+].join('\n');
+
+// Canned sources for grounded chats, so citations and the source list can be checked offline
+const buildGrounding = (reply: string, message: Message): Grounding => ({
+  sources: [
+    { uri: 'https://example.com/search-result', title: 'Example search result', domain: 'example.com' },
+    { uri: 'https://example.org/reference', title: 'Example reference', domain: 'example.org' },
+  ],
+  citations: [
+    { endIndex: reply.indexOf('\n', reply.indexOf('You said:')), sourceIndices: [0] },
+    { endIndex: reply.length, sourceIndices: [0, 1] },
+  ],
+  searchQueries: [message.content.slice(0, 80)],
+});
+
+// Lets the mock exercise the tool loop offline: `tool:calculator {"expression": "2 + 2"}` calls that tool
+const TOOL_REQUEST_PATTERN = /\btool:([a-z_][a-z0-9_]*)\s*(\{.*\})?/is;
+
+const parseToolRequest = (message: Message, tools: ToolDeclaration[]): ToolCall | null => {
+  const match = TOOL_REQUEST_PATTERN.exec(message.content);
+  if (!match || !tools.some(tool => tool.name === match[1])) return null;
+  let args: Record<string, unknown> = {};
+  try {
+    args = match[2] ? JSON.parse(match[2]) : {};
+  } catch {
+    // Left empty, so the tool reports the missing arguments like it would for a real model
+  }
+  return { id: crypto.randomUUID(), name: match[1], args, status: 'pending' };
+};
+
+// Lets the mock exercise error handling offline: `error:quota` fails the request, while
+// `error:interrupted` and `error:safety` fail halfway through the reply
+const ERROR_REQUEST_PATTERN = /\berror:(auth|quota|safety|network|server|interrupted)\b/i;
+
+const parseErrorRequest = (message: Message): ChatErrorKind | null =>
+  (ERROR_REQUEST_PATTERN.exec(message.content)?.[1].toLowerCase() as ChatErrorKind | undefined) ?? null;
+
+const buildToolReply = (calls: ToolCall[]): string => [
+  '**Mock tool results**',
+  '',
+  ...calls.map(call => `- \`${call.name}\` ${call.status === 'done' ? 'returned' : 'failed'}: \`${JSON.stringify(toToolResponse(call))}\``),
+].join('\n');
+
+// Stands in for a thought summary, so the thinking panel can be checked offline
+const buildThought = (message: Message): string => [
+  '**Reading the message**',
+  '',
+  `The message has ${message.content.split(/\s+/).filter(Boolean).length} words. The mock answers the same way every time, so there is nothing to weigh up.`,
+].join('\n');
+
+async function* streamWords(text: string, signal?: AbortSignal, asThought = false): AsyncIterable<StreamChunk> {
+  const words = text.split(/(?<=\s)/);
+  for (const word of words) {
+    await wait(CHUNK_DELAY_MS, signal);
+    yield asThought ? { thought: word } : { text: word };
+  }
+}
+
+export const createChatSession = ({ systemInstruction, generation, history, tools = [], grounding, structuredOutput }: ChatSessionOptions): ProviderChat => {
+  const includeThoughts = generation.includeThoughts && generation.thinkingBudget !== 0;
+  const responseSchema = getResponseSchema(structuredOutput);
+  const context = getContextMessages(history);
+  let contextSize = context.length;
+  // Estimated the same way as countTokens, so the context meter and reported usage agree
+  let contextTokens = estimateTokens(context, systemInstruction);
+  // Prompt tokens added by the turn in progress, which grows with each round of tool results
+  let turnTokens = 0;
+
+  async function* streamReply(reply: string, signal?: AbortSignal, replyGrounding?: Grounding, thought?: string): AsyncIterable<StreamChunk> {
+    const outputTokens = estimateTextTokens(reply);
+    if (thought) yield* streamWords(thought, signal, true);
+    yield* streamWords(reply, signal);
+    yield {
+      usage: { promptTokens: contextTokens + turnTokens, outputTokens, thinkingTokens: thought ? estimateTextTokens(thought) : 0 },
+      ...(replyGrounding ? { grounding: replyGrounding } : {}),
+    };
+    contextSize += 2;
+    contextTokens += turnTokens + outputTokens;
+  }
+
+  return {
+    sendMessageStream: async (message, signal) => {
+      turnTokens = estimateTokens([message]);
+      const toolCall = parseToolRequest(message, tools);
+      if (toolCall) {
+        return (async function* () {
+          yield* streamWords(`Calling \`${toolCall.name}\`… `, signal);
+          yield { toolCalls: [toolCall] };
+        })();
+      }
+      const turn = Math.floor(contextSize / 2) + 1;
+      // In structured output mode the reply is a value shaped like the schema instead
+      const reply = responseSchema !== undefined
+        ? JSON.stringify(createSampleFromSchema(responseSchema), null, 2)
+        : buildReply(message, turn, contextSize, systemInstruction);
+      const simulatedError = parseErrorRequest(message);
+      if (simulatedError === 'interrupted' || simulatedError === 'safety') {
+        return (async function* () {
+          yield* streamWords(reply.slice(0, reply.length / 2), signal);
+          throw simulatedError === 'safety'
+            ? new ChatError('safety', 'Simulated safety block.')
+            : new TypeError('Simulated network error');
+        })();
+      }
+      if (simulatedError) {
+        await wait(CHUNK_DELAY_MS * 10, signal);
+        throw new ChatError(simulatedError, `Simulated ${simulatedError} error.`);
+      }
+      return streamReply(
+        reply,
+        signal,
+        grounding?.googleSearch ? buildGrounding(reply, message) : undefined,
+        includeThoughts ? buildThought(message) : undefined
+      );
+    },
+
+    sendToolResults: async (calls, signal) => {
+      turnTokens += estimateTextTokens(JSON.stringify(calls.map(toToolResponse)));
+      return streamReply(buildToolReply(calls), signal);
+    },
+  };
+};
+
+export const generateChatTitle = async (firstMessage: string): Promise<string> => {
+  const words = firstMessage.trim().split(/\s+/).slice(0, 5).join(' ');
+  return words || "New Chat";
+};
+
+export const summarizeConversation = async (messages: Message[], previousSummary?: string): Promise<string> => {
+  const lines = messages.map(m => `- ${m.role === 'user' ? 'User' : 'Model'}: ${m.content.split(/\s+/).slice(0, 8).join(' ')}`);
+  return [previousSummary, `Mock summary of ${messages.length} messages:`, ...lines].filter(Boolean).join('\n');
+};
+
+export const countTokens = async ({ systemInstruction, history }: ChatSessionOptions): Promise<number> =>
+  estimateTokens(getContextMessages(history), systemInstruction);
+
+/**
+ * Offline provider with canned, deterministic responses for working on the UI without network access.
+ */
+export const mockProvider: ChatProvider = {
+  createChatSession,
+  generateChatTitle,
+  summarizeConversation,
+  countTokens,
+};
@@ -0,0 +1,312 @@
+import { ChatProvider, ChatSessionOptions, Message, ProviderChat, StreamChunk, TokenUsage, ToolCall, ToolDeclaration } from "../types";
+import { buildTitlePrompt, getContextMessages } from "./messageHistory";
+import { buildSummaryPrompt } from "./contextService";
+import { decodeTextAttachment, isImageAttachment, isTextAttachment, toDataUrl } from "./attachmentService";
+import { estimateTokens } from "./usageService";
+import { toToolResponse } from "./toolService";
+import { ChatError, toHttpError } from "./errorService";
+import { getResponseSchema } from "./jsonSchemaService";
+
+type OpenAiContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAiToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type OpenAiMessage =
+  | { role: 'system' | 'user'; content: string | OpenAiContentPart[] }
+  | { role: 'assistant'; content: string | null; tool_calls?: OpenAiToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+export interface OpenAiConfig {
+  // e.g. https://api.openai.com/v1 or http://localhost:11434/v1 for Ollama
+  baseUrl: string;
+  apiKey: string;
+}
+
+const getHeaders = (apiKey: string): HeadersInit => ({
+  'Content-Type': 'application/json',
+  // Local servers such as Ollama ignore the key, so it is only sent when configured
+  ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+});
+
+const toOpenAiTools = (tools: ToolDeclaration[]) =>
+  tools.map(({ name, description, parameters }) => ({ type: 'function', function: { name, description, parameters } }));
+
+const toAssistantToolCalls = (calls: ToolCall[], content: string | null = null): OpenAiMessage => ({
+  role: 'assistant',
+  content,
+  tool_calls: calls.map(call => ({
+    id: call.id,
+    type: 'function',
+    function: { name: call.name, arguments: JSON.stringify(call.args) },
+  })),
+});
+
+const toToolMessages = (calls: ToolCall[]): OpenAiMessage[] =>
+  calls.map(call => ({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(toToolResponse(call)) }));
+
+/**
+ * Converts a message to the chat completions format. Images become image parts and text
+ * files are inlined; PDFs have no portable representation, so only their name is sent.
+ */
+const toOpenAiMessage = (message: Message): OpenAiMessage => {
+  if (message.role === 'model') {
+    return { role: 'assistant', content: message.content };
+  }
+  if (!message.attachments?.length) {
+    return { role: 'user', content: message.content };
+  }
+
+  const parts: OpenAiContentPart[] = message.content ? [{ type: 'text', text: message.content }] : [];
+  for (const attachment of message.attachments) {
+    if (isImageAttachment(attachment)) {
+      parts.push({ type: 'image_url', image_url: { url: toDataUrl(attachment) } });
+    } else if (isTextAttachment(attachment)) {
+      parts.push({ type: 'text', text: `File ${attachment.name}:\n${decodeTextAttachment(attachment)}` });
+    } else {
+      parts.push({ type: 'text', text: `[Attached file ${attachment.name} (${attachment.mimeType}) is not supported by this provider]` });
+    }
+  }
+  return { role: 'user', content: parts };
+};
+
+/**
+ * Converts stored messages into request messages; replies that used tools are preceded by
+ * their calls and results.
+ */
+const toOpenAiHistory = (messages: Message[]): OpenAiMessage[] =>
+  getContextMessages(messages).flatMap(message => {
+    const calls = message.toolCalls || [];
+    if (calls.length === 0) return [toOpenAiMessage(message)];
+    return [
+      toAssistantToolCalls(calls),
+      ...toToolMessages(calls),
+      ...(message.content ? [toOpenAiMessage(message)] : []),
+    ];
+  });
+
+interface OpenAiUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+// Completion tokens include reasoning tokens here, while we report them separately
+const toTokenUsage = (usage: OpenAiUsage): TokenUsage => {
+  const thinkingTokens = usage.completion_tokens_details?.reasoning_tokens ?? 0;
+  return {
+    promptTokens: usage.prompt_tokens ?? 0,
+    outputTokens: Math.max(0, (usage.completion_tokens ?? 0) - thinkingTokens),
+    thinkingTokens,
+  };
+};
+
+const getEndpoint = (baseUrl: string) => `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+// Tool calls stream in fragments keyed by index: the id and name first, then the arguments in pieces
+interface PartialToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+const parseArguments = (text: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(text || '{}');
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    // Passed on empty so the tool reports the missing arguments back to the model
+    return {};
+  }
+};
+
+const toToolCalls = (partials: PartialToolCall[]): ToolCall[] =>
+  partials.filter(Boolean).map(partial => ({
+    id: partial.id || crypto.randomUUID(),
+    name: partial.name,
+    args: parseArguments(partial.arguments),
+    status: 'pending',
+  }));
+
+/**
+ * Parses a server-sent event stream from /chat/completions into text chunks.
+ * Tool calls are assembled from their fragments and emitted once the stream ends.
+ * Reasoning models on servers such as Ollama, llama.cpp and DeepSeek stream their thinking in a
+ * separate field, passed on as thoughts when they were asked for.
+ * Returns once the server sends `[DONE]` or closes the connection.
+ */
+async function* readCompletionStream(body: ReadableStream<Uint8Array>, includeThoughts: boolean): AsyncIterable<StreamChunk> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  const partialCalls: PartialToolCall[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+
+        const data = trimmed.slice(5).trim();
+        if (data === '[DONE]') {
+          if (partialCalls.length > 0) yield { toolCalls: toToolCalls(partialCalls) };
+          return;
+        }
+
+        let payload;
+        try {
+          payload = JSON.parse(data);
+        } catch (e) {
+          console.error("Failed to parse stream event", e);
+          continue;
+        }
+        const choice = payload.choices?.[0];
+        const text = choice?.delta?.content;
+        if (text) yield { text };
+        const thought = choice?.delta?.reasoning_content ?? choice?.delta?.reasoning;
+        if (thought && includeThoughts) yield { thought };
+        for (const fragment of choice?.delta?.tool_calls || []) {
+          const index = fragment.index ?? partialCalls.length;
+          const partial = partialCalls[index] || (partialCalls[index] = { id: '', name: '', arguments: '' });
+          if (fragment.id) partial.id = fragment.id;
+          if (fragment.function?.name) partial.name += fragment.function.name;
+          if (fragment.function?.arguments) partial.arguments += fragment.function.arguments;
+        }
+        // Sent in a final event with no choices when usage reporting is requested
+        if (payload.usage) yield { usage: toTokenUsage(payload.usage) };
+        if (choice?.finish_reason === 'content_filter') {
+          throw new ChatError('safety', "The server's content filter stopped the reply.");
+        }
+      }
+    }
+    if (partialCalls.length > 0) yield { toolCalls: toToolCalls(partialCalls) };
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+const postCompletion = async (
+  config: OpenAiConfig,
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<Response> => {
+  const response = await fetch(getEndpoint(config.baseUrl), {
+    method: 'POST',
+    headers: getHeaders(config.apiKey),
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    throw toHttpError(response.status, detail, retryAfter > 0 ? retryAfter * 1000 : undefined);
+  }
+  return response;
+};
+
+/**
+ * Creates a provider for any server implementing the OpenAI chat completions API,
+ * including local Ollama and llama.cpp servers.
+ */
+export const createOpenAiProvider = (config: OpenAiConfig): ChatProvider => {
+  const createChatSession = ({ systemInstruction, model, generation, history, tools = [], structuredOutput }: ChatSessionOptions): ProviderChat => {
+    const responseSchema = getResponseSchema(structuredOutput);
+    // Like the Gemini SDK chat, we keep the conversation in memory and only commit completed turns
+    const messages: OpenAiMessage[] = toOpenAiHistory(history);
+    // The turn in progress: the user message followed by any tool calls and their results
+    let turn: OpenAiMessage[] = [];
+
+    // `nextTurn` only replaces the turn once the server accepts the request, so a failed request can be sent again
+    const streamCompletion = async (nextTurn: OpenAiMessage[], signal?: AbortSignal): Promise<AsyncIterable<StreamChunk>> => {
+      const response = await postCompletion(config, {
+        model,
+        messages: [
+          ...(systemInstruction ? [{ role: 'system' as const, content: systemInstruction }] : []),
+          ...messages,
+          ...nextTurn,
+        ],
+        temperature: generation.temperature,
+        top_p: generation.topP,
+        max_tokens: generation.maxOutputTokens,
+        ...(generation.stopSequences.length > 0 ? { stop: generation.stopSequences } : {}),
+        ...(tools.length > 0 ? { tools: toOpenAiTools(tools) } : {}),
+        ...(responseSchema !== undefined
+          ? { response_format: { type: 'json_schema', json_schema: { name: structuredOutput.name, schema: responseSchema } } }
+          : {}),
+        stream: true,
+        stream_options: { include_usage: true },
+      }, signal);
+      if (!response.body) {
+        throw new Error("The server returned an empty stream.");
+      }
+      turn = nextTurn;
+
+      const body = response.body;
+      return (async function* () {
+        let reply = '';
+        let toolCalls: ToolCall[] = [];
+        for await (const chunk of readCompletionStream(body, generation.includeThoughts)) {
+          reply += chunk.text || '';
+          if (chunk.toolCalls) toolCalls = chunk.toolCalls;
+          yield chunk;
+        }
+        if (toolCalls.length > 0) {
+          // The turn continues once sendToolResults delivers the results
+          turn.push(toAssistantToolCalls(toolCalls, reply || null));
+        } else {
+          messages.push(...turn, { role: 'assistant', content: reply });
+          turn = [];
+        }
+      })();
+    };
+
+    return {
+      sendMessageStream: async (message, signal) =>
+        streamCompletion([toOpenAiMessage(message)], signal),
+
+      sendToolResults: async (calls, signal) =>
+        streamCompletion([...turn, ...toToolMessages(calls)], signal),
+    };
+  };
+
+  const generateChatTitle = async (firstMessage: string, model: string): Promise<string> => {
+    const response = await postCompletion(config, {
+      model,
+      messages: [{ role: 'user', content: buildTitlePrompt(firstMessage) }],
+    });
+    const payload = await response.json();
+    return payload.choices?.[0]?.message?.content?.trim() || "New Chat";
+  };
+
+  // Servers often host a single model, so the summary uses the chat's own model
+  const summarizeConversation = async (messages: Message[], previousSummary: string | undefined, model: string): Promise<string> => {
+    const response = await postCompletion(config, {
+      model,
+      messages: [{ role: 'user', content: buildSummaryPrompt(messages, previousSummary) }],
+    });
+    const payload = await response.json();
+    const summary = payload.choices?.[0]?.message?.content?.trim();
+    if (!summary) {
+      throw new Error("The server returned an empty summary.");
+    }
+    return summary;
+  };
+
+  // The chat completions API has no counting endpoint, so the prompt size is estimated
+  const countTokens = async ({ systemInstruction, history }: ChatSessionOptions): Promise<number> =>
+    estimateTokens(getContextMessages(history), systemInstruction);
+
+  return { createChatSession, generateChatTitle, summarizeConversation, countTokens };
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { formatSnippetOutput, getSnippetLanguage } from './sandboxService';
+
+describe('getSnippetLanguage', () => {
+  it('recognizes JavaScript and TypeScript fence labels', () => {
+    expect(getSnippetLanguage('JS')).toBe('javascript');
+    expect(getSnippetLanguage('mjs')).toBe('javascript');
+    expect(getSnippetLanguage('ts')).toBe('typescript');
+    expect(getSnippetLanguage('python')).toBeNull();
+    expect(getSnippetLanguage('')).toBeNull();
+  });
+
+  it('does not treat object prototype names as languages', () => {
+    expect(getSnippetLanguage('constructor')).toBeNull();
+    expect(getSnippetLanguage('__proto__')).toBeNull();
+  });
+});
+
+describe('formatSnippetOutput', () => {
+  it('includes the console output and return value', () => {
+    expect(formatSnippetOutput('javascript', { logs: ['a', 'b'], result: '3', durationMs: 4 })).toBe(
+      'I ran the javascript code block. It finished.\n\n' +
+      'Console output:\n```text\na\nb\n```\n\n' +
+      'Return value:\n```text\n3\n```'
+    );
+  });
+
+  it('reports failures and runs without output', () => {
+    expect(formatSnippetOutput('typescript', { logs: [], error: 'ReferenceError: x is not defined', durationMs: 1 })).toBe(
+      'I ran the typescript code block. It failed.\n\nError:\n```text\nReferenceError: x is not defined\n```'
+    );
+    expect(formatSnippetOutput('javascript', { logs: [], durationMs: 1 })).toBe(
+      'I ran the javascript code block. It finished.\n\nIt printed nothing and returned no value.'
+    );
+  });
+});
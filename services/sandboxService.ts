@@ -0,0 +1,209 @@
+export interface SandboxResult {
+  // Return value of the code, formatted for display; undefined when it returned nothing
+  result?: string;
+  logs: string[];
+  error?: string;
+  durationMs: number;
+}
+
+export const SANDBOX_TIMEOUT_MS = 5000;
+const MAX_LOG_LINES = 200;
+const MAX_OUTPUT_CHARS = 20000;
+
+// Runs inside the worker. The frame's origin and content security policy are what cut the code off
+// from the app and the network; removing these APIs as well makes code that tries them fail plainly.
+const WORKER_SOURCE = `
+const BLOCKED_GLOBALS = ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'indexedDB', 'caches', 'importScripts', 'BroadcastChannel', 'Worker', 'SharedWorker'];
+for (const name of BLOCKED_GLOBALS) {
+  try { Object.defineProperty(self, name, { value: undefined, configurable: false, writable: false }); } catch (e) {}
+}
+
+const format = (value) => {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error || (value && typeof value.message === 'string' && typeof value.name === 'string')) {
+    return value.name + ': ' + value.message;
+  }
+  if (typeof value === 'function') return value.toString();
+  if (typeof value === 'bigint') return value.toString() + 'n';
+  try {
+    const json = JSON.stringify(value, null, 2);
+    return json === undefined ? String(value) : json;
+  } catch (e) {
+    return String(value);
+  }
+};
+
+self.onmessage = async (event) => {
+  const { code, maxLogLines } = event.data;
+  const logs = [];
+  const log = (prefix) => (...args) => {
+    if (logs.length < maxLogLines) logs.push(prefix + args.map(format).join(' '));
+  };
+  const sandboxConsole = { log: log(''), info: log(''), debug: log(''), warn: log('[warn] '), error: log('[error] ') };
+  const AsyncFunction = (async () => {}).constructor;
+
+  // Plain expressions are returned as is; anything else runs as a function body that may use return
+  let run;
+  try {
+    run = new AsyncFunction('console', '"use strict";\\nreturn (' + code + '\\n);');
+  } catch (e) {
+    try {
+      run = new AsyncFunction('console', '"use strict";\\n' + code);
+    } catch (syntaxError) {
+      self.postMessage({ logs, error: format(syntaxError) });
+      return;
+    }
+  }
+
+  try {
+    const value = await run(sandboxConsole);
+    self.postMessage({ logs, result: value === undefined ? undefined : format(value) });
+  } catch (e) {
+    self.postMessage({ logs, error: format(e) });
+  }
+};
+`;
+
+// Inherited by the worker: no requests of any kind, and no scripts from anywhere but the frame itself.
+// Eval is needed to turn the code into a function.
+const FRAME_CSP = "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' blob:; worker-src blob:";
+
+// A frame sandboxed without allow-same-origin gets an opaque origin, so neither it nor its worker can
+// reach the app's storage, and its policy blocks fetch and remote import() in the worker. It starts a
+// worker for the code, so an endless loop never blocks a page, and relays the outcome to the app.
+const FRAME_DOCUMENT = `<!DOCTYPE html>
+<html><head><meta http-equiv="Content-Security-Policy" content="${FRAME_CSP}"></head><body><script>
+const source = ${JSON.stringify(WORKER_SOURCE).replace(/</g, '\\u003c')};
+window.onmessage = (event) => {
+  if (event.source !== parent) return;
+  const worker = new Worker(URL.createObjectURL(new Blob([source], { type: 'text/javascript' })));
+  worker.onmessage = (e) => parent.postMessage(e.data, '*');
+  worker.onerror = (e) => {
+    e.preventDefault();
+    parent.postMessage({ logs: [], error: e.message || 'The code could not be run.' }, '*');
+  };
+  worker.postMessage(event.data);
+};
+</script></body></html>`;
+
+const truncate = (text: string) =>
+  text.length > MAX_OUTPUT_CHARS ? `${text.slice(0, MAX_OUTPUT_CHARS)}… (${text.length - MAX_OUTPUT_CHARS} more characters)` : text;
+
+// The code can post messages of its own, so whatever arrives is checked before it is shown
+const toOutcome = (data: unknown): Omit<SandboxResult, 'durationMs'> => {
+  const record = typeof data === 'object' && data !== null ? data as Record<string, unknown> : {};
+  const logs = Array.isArray(record.logs) ? record.logs.filter((line): line is string => typeof line === 'string') : [];
+  return {
+    logs,
+    ...(typeof record.result === 'string' ? { result: record.result } : {}),
+    ...(typeof record.error === 'string' ? { error: record.error } : {}),
+  };
+};
+
+/**
+ * Runs JavaScript in a worker inside a sandboxed frame, with no DOM, network or storage access.
+ * The frame is removed after the timeout or when the signal aborts, which ends the worker, so
+ * endless loops cannot hang the app.
+ */
+export const runInSandbox = (code: string, signal?: AbortSignal, timeoutMs = SANDBOX_TIMEOUT_MS): Promise<SandboxResult> =>
+  new Promise((resolve) => {
+    const startedAt = performance.now();
+    const frame = document.createElement('iframe');
+    frame.setAttribute('sandbox', 'allow-scripts');
+    frame.style.display = 'none';
+    frame.srcdoc = FRAME_DOCUMENT;
+
+    const finish = (outcome: Omit<SandboxResult, 'durationMs'>) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      window.removeEventListener('message', onMessage);
+      frame.remove();
+      resolve({
+        ...outcome,
+        result: outcome.result === undefined ? undefined : truncate(outcome.result),
+        logs: outcome.logs.map(truncate),
+        durationMs: Math.round(performance.now() - startedAt),
+      });
+    };
+
+    const onAbort = () => finish({ logs: [], error: 'Execution was stopped.' });
+    // The frame's origin is opaque, so its messages are recognized by their source window
+    const onMessage = (event: MessageEvent) => {
+      if (event.source === frame.contentWindow) finish(toOutcome(event.data));
+    };
+    const timer = setTimeout(
+      () => finish({ logs: [], error: `Execution timed out after ${timeoutMs / 1000} seconds.` }),
+      timeoutMs
+    );
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+    window.addEventListener('message', onMessage);
+    frame.onload = () => frame.contentWindow?.postMessage({ code, maxLogLines: MAX_LOG_LINES }, '*');
+    document.body.appendChild(frame);
+  });
+
+export type SnippetLanguage = 'javascript' | 'typescript';
+
+// Fence labels of code blocks that can run in the sandbox
+const SNIPPET_LANGUAGES: Record<string, SnippetLanguage> = {
+  js: 'javascript',
+  javascript: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  ts: 'typescript',
+  typescript: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+};
+
+// The label comes from the reply, so only the map's own entries count, not e.g. "constructor"
+export const getSnippetLanguage = (fenceLanguage: string): SnippetLanguage | null => {
+  const label = fenceLanguage.toLowerCase();
+  return Object.hasOwn(SNIPPET_LANGUAGES, label) ? SNIPPET_LANGUAGES[label] : null;
+};
+
+// Snippets are often written as modules; without their exports the declarations still run
+const EXPORT_KEYWORD = /^export\s+(default\s+)?(?=(async\s+)?(function|class|const|let|var)\b)/gm;
+const EXPORT_LIST = /^export\s*\{[^}]*\};?[ \t]*$/gm;
+
+/**
+ * Runs a code block from a reply. TypeScript is stripped of its types without type checking,
+ * which is enough for the small examples models write.
+ */
+export const runSnippet = async (code: string, language: SnippetLanguage, signal?: AbortSignal): Promise<SandboxResult> => {
+  let source = code;
+  if (language === 'typescript') {
+    try {
+      const { transform } = await import('sucrase');
+      source = transform(code, { transforms: ['typescript'] }).code;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { logs: [], error: `Could not compile the TypeScript: ${message}`, durationMs: 0 };
+    }
+  }
+  return runInSandbox(source.replace(EXPORT_KEYWORD, '').replace(EXPORT_LIST, ''), signal);
+};
+
+/**
+ * Describes a run as a chat message, so the model can see what its code did.
+ */
+export const formatSnippetOutput = (language: string, outcome: SandboxResult): string => {
+  const sections = [`I ran the ${language} code block. ${outcome.error ? 'It failed.' : 'It finished.'}`];
+  if (outcome.logs.length > 0) {
+    sections.push(`Console output:\n\`\`\`text\n${outcome.logs.join('\n')}\n\`\`\``);
+  }
+  if (outcome.result !== undefined) {
+    sections.push(`Return value:\n\`\`\`text\n${outcome.result}\n\`\`\``);
+  }
+  if (outcome.error) {
+    sections.push(`Error:\n\`\`\`text\n${outcome.error}\n\`\`\``);
+  }
+  if (outcome.logs.length === 0 && outcome.result === undefined && !outcome.error) {
+    sections.push('It printed nothing and returned no value.');
+  }
+  return sections.join('\n\n');
+};
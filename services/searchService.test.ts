@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { ChatSession, Message, ModelIds, ProviderIds } from '../types';
+import { EMPTY_SEARCH_FILTERS, searchSessions } from './searchService';
+import {
+  DEFAULT_CONTEXT_SETTINGS,
+  DEFAULT_ENABLED_TOOLS,
+  DEFAULT_GENERATION_SETTINGS,
+  DEFAULT_GROUNDING_SETTINGS,
+  DEFAULT_STRUCTURED_OUTPUT_SETTINGS,
+} from './sessionSettings';
+
+const day = (date: string) => new Date(`${date}T12:00:00`).getTime();
+
+const toMessage = (id: string, role: Message['role'], content: string, timestamp: number, model?: string): Message => ({
+  id,
+  parentId: null,
+  role,
+  content,
+  timestamp,
+  ...(model ? { model } : {}),
+});
+
+const toSession = (id: string, model: string, messages: Message[]): ChatSession => ({
+  id,
+  title: `Chat ${id}`,
+  createdAt: messages[0].timestamp,
+  lastUpdated: messages[messages.length - 1].timestamp,
+  settings: {
+    provider: ProviderIds.GEMINI,
+    model,
+    systemInstruction: '',
+    generation: DEFAULT_GENERATION_SETTINGS,
+    context: DEFAULT_CONTEXT_SETTINGS,
+    enabledTools: DEFAULT_ENABLED_TOOLS,
+    grounding: DEFAULT_GROUNDING_SETTINGS,
+    structuredOutput: DEFAULT_STRUCTURED_OUTPUT_SETTINGS,
+  },
+  messages,
+});
+
+// The chat switched from Flash to Pro after its first reply
+const switched = toSession('switched', ModelIds.PRO, [
+  toMessage('s1', 'user', 'How do I parse dates?', day('2026-03-01')),
+  toMessage('s2', 'model', 'Parse dates with Date.parse.', day('2026-03-01'), ModelIds.FLASH),
+  toMessage('s3', 'user', 'And time zones when I parse dates?', day('2026-03-05')),
+  toMessage('s4', 'model', 'To parse dates with zones, use Intl.', day('2026-03-05'), ModelIds.PRO),
+]);
+
+// Saved before replies recorded their model
+const legacy = toSession('legacy', ModelIds.FLASH, [
+  toMessage('l1', 'user', 'Can you parse dates in SQL?', day('2026-02-10')),
+  toMessage('l2', 'model', 'Yes, SQL can parse dates with CAST.', day('2026-02-10')),
+]);
+
+const sessions = [switched, legacy];
+const search = (query: string, filters = {}) =>
+  searchSessions(sessions, query, { ...EMPTY_SEARCH_FILTERS, ...filters }).map(result => result.messageId);
+
+describe('searchSessions', () => {
+  it('finds messages containing every word, newest first', () => {
+    expect(search('PARSE dates')).toEqual(['s3', 's4', 's1', 's2', 'l1', 'l2']);
+    expect(search('parse zones')).toEqual(['s3', 's4']);
+    expect(search('   ')).toEqual([]);
+  });
+
+  it('filters replies by the model that wrote them', () => {
+    expect(search('parse dates', { model: ModelIds.FLASH })).toEqual(['s2', 'l1', 'l2']);
+    expect(search('parse dates', { model: ModelIds.PRO })).toEqual(['s3', 's4', 's1']);
+  });
+
+  it('filters by inclusive day bounds', () => {
+    expect(search('parse dates', { from: '2026-03-01', to: '2026-03-01' })).toEqual(['s1', 's2']);
+    expect(search('parse dates', { to: '2026-02-28' })).toEqual(['l1', 'l2']);
+  });
+
+  it('highlights matches in a snippet around the first one', () => {
+    const long = toSession('long', ModelIds.FLASH, [
+      toMessage('x1', 'model', `${'a '.repeat(100)}the needle\nin the haystack ${'b '.repeat(100)}`, day('2026-01-01')),
+    ]);
+    const [result] = searchSessions([long], 'needle HAYSTACK', EMPTY_SEARCH_FILTERS);
+
+    expect(result.snippet[0]).toEqual({ text: '…', isMatch: false });
+    expect(result.snippet[result.snippet.length - 1]).toEqual({ text: '…', isMatch: false });
+    expect(result.snippet.filter(part => part.isMatch).map(part => part.text)).toEqual(['needle', 'haystack']);
+    expect(result.snippet.map(part => part.text).join('')).toContain('the needle in the haystack');
+  });
+});
@@ -0,0 +1,125 @@
+import { ChatSession, Message } from "../types";
+
+export interface SearchFilters {
+  // Empty string matches every model
+  model: string;
+  // Inclusive day bounds as yyyy-mm-dd strings from date inputs; empty means unbounded
+  from: string;
+  to: string;
+}
+
+export interface SnippetPart {
+  text: string;
+  isMatch: boolean;
+}
+
+export interface SearchResult {
+  sessionId: string;
+  sessionTitle: string;
+  messageId: string;
+  role: Message['role'];
+  timestamp: number;
+  snippet: SnippetPart[];
+}
+
+export const EMPTY_SEARCH_FILTERS: SearchFilters = { model: '', from: '', to: '' };
+
+const MAX_RESULTS = 100;
+const SNIPPET_RADIUS = 60;
+
+// Lowercased content is cached per message object. Messages are immutable, so a streamed
+// update creates a new object and only that message is normalized again.
+const normalizedContent = new WeakMap<Message, string>();
+
+const getNormalizedContent = (message: Message): string => {
+  let normalized = normalizedContent.get(message);
+  if (normalized === undefined) {
+    normalized = message.content.toLowerCase();
+    normalizedContent.set(message, normalized);
+  }
+  return normalized;
+};
+
+const parseDayStart = (day: string) => (day ? new Date(`${day}T00:00:00`).getTime() : -Infinity);
+const parseDayEnd = (day: string) => (day ? new Date(`${day}T23:59:59.999`).getTime() : Infinity);
+
+/**
+ * Splits the text around the first match into highlighted and plain parts,
+ * trimmed to a window around that match.
+ */
+const buildSnippet = (content: string, normalized: string, terms: string[]): SnippetPart[] => {
+  const firstMatch = Math.min(...terms.map(term => normalized.indexOf(term)).filter(index => index >= 0));
+  const start = Math.max(0, firstMatch - SNIPPET_RADIUS);
+  const end = Math.min(content.length, firstMatch + SNIPPET_RADIUS * 2);
+
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    let index = normalized.indexOf(term, start);
+    while (index !== -1 && index < end) {
+      ranges.push([index, Math.min(index + term.length, end)]);
+      index = normalized.indexOf(term, index + term.length);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const parts: SnippetPart[] = [];
+  let cursor = start;
+  for (const [rangeStart, rangeEnd] of ranges) {
+    if (rangeEnd <= cursor) continue;
+    if (rangeStart > cursor) parts.push({ text: content.slice(cursor, rangeStart), isMatch: false });
+    parts.push({ text: content.slice(Math.max(rangeStart, cursor), rangeEnd), isMatch: true });
+    cursor = rangeEnd;
+  }
+  if (cursor < end) parts.push({ text: content.slice(cursor, end), isMatch: false });
+
+  if (start > 0) parts.unshift({ text: '…', isMatch: false });
+  if (end < content.length) parts.push({ text: '…', isMatch: false });
+
+  // Snippets are shown on a single line
+  return parts.map(part => ({ ...part, text: part.text.replace(/\s+/g, ' ') }));
+};
+
+/**
+ * The model a message belongs to: the one that wrote a reply, since chats can switch models
+ * part way through. Prompts and replies saved before models were recorded use the chat's model.
+ */
+export const getMessageModel = (session: ChatSession, message: Message): string =>
+  (message.role === 'model' && message.model) || session.settings.model;
+
+/**
+ * Finds messages containing every word of the query, newest first.
+ * Matching is case-insensitive and stops after the first 100 results.
+ */
+export const searchSessions = (sessions: ChatSession[], query: string, filters: SearchFilters): SearchResult[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const from = parseDayStart(filters.from);
+  const to = parseDayEnd(filters.to);
+  const matches: { session: ChatSession; message: Message; normalized: string }[] = [];
+
+  for (const session of sessions) {
+    for (const message of session.messages) {
+      if (message.timestamp < from || message.timestamp > to) continue;
+      if (filters.model && getMessageModel(session, message) !== filters.model) continue;
+
+      const normalized = getNormalizedContent(message);
+      if (terms.every(term => normalized.includes(term))) {
+        matches.push({ session, message, normalized });
+      }
+    }
+  }
+
+  // Snippets are only built for the results that are actually shown
+  return matches
+    .sort((a, b) => b.message.timestamp - a.message.timestamp)
+    .slice(0, MAX_RESULTS)
+    .map(({ session, message, normalized }) => ({
+      sessionId: session.id,
+      sessionTitle: session.title,
+      messageId: message.id,
+      role: message.role,
+      timestamp: message.timestamp,
+      snippet: buildSnippet(message.content, normalized, terms),
+    }));
+};
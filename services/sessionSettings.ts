@@ -0,0 +1,196 @@
+import { AppSettings, ChatSession, ContextSettings, ContextStrategies, GenerationSettings, GroundingSettings, HarmCategories, ModelIds, SafetyThresholds, SessionSettings, StructuredOutputSettings } from "../types";
+import { BUILTIN_TOOLS } from "./builtinTools";
+import { parseSchema } from "./jsonSchemaService";
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  temperature: 1,
+  topP: 0.95,
+  topK: 64,
+  maxOutputTokens: 8192,
+  stopSequences: [],
+  thinkingBudget: -1,
+  includeThoughts: false,
+  safetySettings: {
+    [HarmCategories.HARASSMENT]: SafetyThresholds.DEFAULT,
+    [HarmCategories.HATE_SPEECH]: SafetyThresholds.DEFAULT,
+    [HarmCategories.SEXUALLY_EXPLICIT]: SafetyThresholds.DEFAULT,
+    [HarmCategories.DANGEROUS_CONTENT]: SafetyThresholds.DEFAULT,
+  },
+};
+
+// Generous enough not to change short chats, while keeping long ones from growing without bound
+export const DEFAULT_CONTEXT_SETTINGS: ContextSettings = {
+  strategy: ContextStrategies.SLIDING_WINDOW,
+  maxTokens: 128000,
+};
+
+export const MIN_CONTEXT_TOKENS = 1000;
+
+export const DEFAULT_ENABLED_TOOLS = BUILTIN_TOOLS.map(tool => tool.name);
+
+// Off by default: grounded requests are billed separately and send the prompt to a search backend
+export const DEFAULT_GROUNDING_SETTINGS: GroundingSettings = {
+  googleSearch: false,
+  urlContext: false,
+};
+
+// Off by default; the schema is a starting point to edit once the mode is turned on
+export const DEFAULT_STRUCTURED_OUTPUT_SETTINGS: StructuredOutputSettings = {
+  enabled: false,
+  name: 'answer',
+  schema: JSON.stringify({
+    type: 'object',
+    properties: {
+      answer: { type: 'string' },
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+    },
+    required: ['answer', 'confidence'],
+  }, null, 2),
+};
+
+// What OpenAI accepts as json_schema.name; Gemini does not send the name
+const SCHEMA_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+export const MAX_STOP_SEQUENCES = 5;
+export const MAX_OUTPUT_TOKENS_LIMIT = 65536;
+export const MAX_THINKING_BUDGET = 32768;
+
+// Models that always think; the API rejects a thinking budget of 0 for them
+const ALWAYS_THINKING_MODELS: string[] = [ModelIds.PRO];
+
+export const canDisableThinking = (model: string): boolean => !ALWAYS_THINKING_MODELS.includes(model);
+
+export type GenerationSettingsErrors = Partial<Record<keyof GenerationSettings, string>>;
+
+export type ContextSettingsErrors = Partial<Record<keyof ContextSettings, string>>;
+
+export type StructuredOutputErrors = Partial<Record<keyof StructuredOutputSettings, string>>;
+
+const isInteger = (value: number) => Number.isInteger(value);
+
+/**
+ * Checks every generation parameter against the ranges the API accepts for the model.
+ * Returns a message per invalid field; an empty object means the settings can be saved.
+ */
+export const validateGenerationSettings = (generation: GenerationSettings, model: string): GenerationSettingsErrors => {
+  const errors: GenerationSettingsErrors = {};
+
+  if (Number.isNaN(generation.temperature) || generation.temperature < 0 || generation.temperature > 2) {
+    errors.temperature = 'Temperature must be between 0 and 2.';
+  }
+  if (Number.isNaN(generation.topP) || generation.topP < 0 || generation.topP > 1) {
+    errors.topP = 'Top-P must be between 0 and 1.';
+  }
+  if (!isInteger(generation.topK) || generation.topK < 1) {
+    errors.topK = 'Top-K must be a whole number of at least 1.';
+  }
+  if (!isInteger(generation.maxOutputTokens) || generation.maxOutputTokens < 1 || generation.maxOutputTokens > MAX_OUTPUT_TOKENS_LIMIT) {
+    errors.maxOutputTokens = `Max output tokens must be a whole number between 1 and ${MAX_OUTPUT_TOKENS_LIMIT}.`;
+  }
+  if (generation.stopSequences.length > MAX_STOP_SEQUENCES) {
+    errors.stopSequences = `At most ${MAX_STOP_SEQUENCES} stop sequences are allowed.`;
+  } else if (generation.stopSequences.some(seq => seq.length === 0)) {
+    errors.stopSequences = 'Stop sequences cannot be empty.';
+  }
+  if (!isInteger(generation.thinkingBudget) || generation.thinkingBudget < -1 || generation.thinkingBudget > MAX_THINKING_BUDGET) {
+    errors.thinkingBudget = `Thinking budget must be -1 (dynamic), 0 (off) or up to ${MAX_THINKING_BUDGET} tokens.`;
+  } else if (generation.thinkingBudget === 0 && !canDisableThinking(model)) {
+    errors.thinkingBudget = 'This model cannot turn thinking off. Use -1 (dynamic) or a token budget.';
+  }
+
+  return errors;
+};
+
+export const validateContextSettings = (context: ContextSettings): ContextSettingsErrors => {
+  const errors: ContextSettingsErrors = {};
+  if (!isInteger(context.maxTokens) || context.maxTokens < MIN_CONTEXT_TOKENS) {
+    errors.maxTokens = `The context budget must be a whole number of at least ${MIN_CONTEXT_TOKENS} tokens.`;
+  }
+  return errors;
+};
+
+/**
+ * Checks the schema and its name. A disabled mode is never invalid, so a half-written schema
+ * does not block saving the rest of the settings.
+ */
+export const validateStructuredOutput = (structuredOutput: StructuredOutputSettings): StructuredOutputErrors => {
+  const errors: StructuredOutputErrors = {};
+  if (!structuredOutput.enabled) return errors;
+  if (!SCHEMA_NAME_PATTERN.test(structuredOutput.name)) {
+    errors.name = 'The name may only use letters, digits, _ and -, up to 64 characters.';
+  }
+  const parsed = parseSchema(structuredOutput.schema);
+  if ('error' in parsed) {
+    errors.schema = parsed.error;
+  }
+  return errors;
+};
+
+/**
+ * True when any part of the session settings is invalid and must not be saved.
+ */
+export const hasSessionSettingsErrors = (settings: SessionSettings): boolean =>
+  Object.keys(validateGenerationSettings(settings.generation, settings.model)).length > 0 ||
+  Object.keys(validateContextSettings(settings.context)).length > 0 ||
+  Object.keys(validateStructuredOutput(settings.structuredOutput)).length > 0;
+
+/**
+ * Extracts the per-chat part of the global settings, used to seed new chats.
+ */
+export const pickSessionSettings = (settings: SessionSettings): SessionSettings => ({
+  provider: settings.provider,
+  model: settings.model,
+  systemInstruction: settings.systemInstruction,
+  generation: {
+    ...settings.generation,
+    stopSequences: [...settings.generation.stopSequences],
+    safetySettings: { ...settings.generation.safetySettings },
+  },
+  context: { ...settings.context },
+  enabledTools: [...settings.enabledTools],
+  grounding: { ...settings.grounding },
+  structuredOutput: { ...settings.structuredOutput },
+});
+
+/**
+ * Fills in fields missing from settings saved by older versions of the app.
+ */
+export const normalizeSessionSettings = <T extends SessionSettings>(
+  saved: Partial<T> | undefined,
+  defaults: T
+): T => ({
+  ...defaults,
+  ...saved,
+  generation: {
+    ...DEFAULT_GENERATION_SETTINGS,
+    ...defaults.generation,
+    ...saved?.generation,
+    safetySettings: {
+      ...DEFAULT_GENERATION_SETTINGS.safetySettings,
+      ...defaults.generation?.safetySettings,
+      ...saved?.generation?.safetySettings,
+    },
+  },
+  context: {
+    ...DEFAULT_CONTEXT_SETTINGS,
+    ...defaults.context,
+    ...saved?.context,
+  },
+  enabledTools: saved?.enabledTools ?? defaults.enabledTools ?? DEFAULT_ENABLED_TOOLS,
+  grounding: {
+    ...DEFAULT_GROUNDING_SETTINGS,
+    ...defaults.grounding,
+    ...saved?.grounding,
+  },
+  structuredOutput: {
+    ...DEFAULT_STRUCTURED_OUTPUT_SETTINGS,
+    ...defaults.structuredOutput,
+    ...saved?.structuredOutput,
+  },
+});
+
+/**
+ * Combines a chat's own settings with the global connection details into what a provider needs.
+ */
+export const resolveSettings = (session: ChatSession | undefined, settings: AppSettings): AppSettings =>
+  session ? { ...settings, ...session.settings } : settings;
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ModelIds, PromptTemplate, ProviderIds } from '../types';
+import { getSlashMenuItems, parseSlashCommand, resolveExportFormat, resolveModelArgument, SlashCommands } from './slashCommands';
+
+const templates: PromptTemplate[] = [
+  { id: 't1', name: 'Explain code', content: 'Explain {{code}}', createdAt: 0 },
+  { id: 't2', name: 'Model answer', content: 'Answer like a model', createdAt: 0 },
+];
+
+describe('parseSlashCommand', () => {
+  it('splits a built-in command from its argument', () => {
+    expect(parseSlashCommand('  /MODEL   pro ')).toEqual({ command: SlashCommands.MODEL, argument: 'pro' });
+    expect(parseSlashCommand('/system Be brief.\nAlways.')).toEqual({ command: SlashCommands.SYSTEM, argument: 'Be brief.\nAlways.' });
+    expect(parseSlashCommand('/clear')).toEqual({ command: SlashCommands.CLEAR, argument: '' });
+  });
+
+  it('leaves other text starting with a slash alone', () => {
+    expect(parseSlashCommand('/usr/bin/env is missing')).toBeNull();
+    expect(parseSlashCommand('/unknown thing')).toBeNull();
+    expect(parseSlashCommand('not /clear')).toBeNull();
+  });
+});
+
+describe('getSlashMenuItems', () => {
+  it('lists matching commands before matching templates', () => {
+    expect(getSlashMenuItems('/mo', templates).map(item => item.kind === 'command' ? item.info.command : item.command))
+      .toEqual([SlashCommands.MODEL, 'model-answer']);
+    expect(getSlashMenuItems('/', templates)).toHaveLength(7);
+  });
+
+  it('closes once the first word is complete', () => {
+    expect(getSlashMenuItems('/model ', templates)).toEqual([]);
+    expect(getSlashMenuItems('hello', templates)).toEqual([]);
+  });
+});
+
+describe('resolveModelArgument', () => {
+  it('accepts short names and ids of Gemini models', () => {
+    expect(resolveModelArgument('Pro', ProviderIds.GEMINI)).toBe(ModelIds.PRO);
+    expect(resolveModelArgument(ModelIds.FLASH, ProviderIds.GEMINI)).toBe(ModelIds.FLASH);
+    expect(resolveModelArgument('gpt-4o', ProviderIds.GEMINI)).toBeNull();
+  });
+
+  it('takes model ids as typed for other providers', () => {
+    expect(resolveModelArgument('llama3.1:8b', ProviderIds.OPENAI_COMPATIBLE)).toBe('llama3.1:8b');
+    expect(resolveModelArgument('flash', ProviderIds.OPENAI_COMPATIBLE)).toBeNull();
+    expect(resolveModelArgument('', ProviderIds.OPENAI_COMPATIBLE)).toBeNull();
+  });
+
+  it('does not mistake object prototype names for aliases', () => {
+    expect(resolveModelArgument('constructor', ProviderIds.GEMINI)).toBeNull();
+    expect(resolveModelArgument('constructor', ProviderIds.OPENAI_COMPATIBLE)).toBe('constructor');
+  });
+});
+
+describe('resolveExportFormat', () => {
+  it('maps format names and defaults to Markdown', () => {
+    expect(resolveExportFormat('')).toBe('markdown');
+    expect(resolveExportFormat('MD')).toBe('markdown');
+    expect(resolveExportFormat('json')).toBe('json');
+    expect(resolveExportFormat('pdf')).toBeNull();
+    expect(resolveExportFormat('constructor')).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import { ModelIds, PromptTemplate, ProviderIds } from "../types";
+import { ExportFormat } from "./exportService";
+import { getTemplateCommand } from "./templateService";
+
+export enum SlashCommands {
+  NEW = 'new',
+  MODEL = 'model',
+  SYSTEM = 'system',
+  CLEAR = 'clear',
+  EXPORT = 'export',
+}
+
+export interface SlashCommandInfo {
+  command: SlashCommands;
+  usage: string;
+  description: string;
+  // Picking a command that needs an argument fills in the command and waits for the rest
+  requiresArgument: boolean;
+}
+
+export const SLASH_COMMANDS: SlashCommandInfo[] = [
+  { command: SlashCommands.NEW, usage: '/new [preset]', description: 'Start a new chat, optionally from a persona preset', requiresArgument: false },
+  { command: SlashCommands.MODEL, usage: '/model <flash | pro | model id>', description: 'Switch the model of this chat', requiresArgument: true },
+  { command: SlashCommands.SYSTEM, usage: '/system <instructions>', description: 'Replace the system instructions of this chat', requiresArgument: true },
+  { command: SlashCommands.CLEAR, usage: '/clear', description: 'Remove all messages from this chat and keep its settings', requiresArgument: false },
+  { command: SlashCommands.EXPORT, usage: '/export [markdown | html | json]', description: 'Download this chat', requiresArgument: false },
+];
+
+export interface ParsedSlashCommand {
+  command: SlashCommands;
+  argument: string;
+}
+
+export type SlashMenuItem =
+  | { kind: 'command'; info: SlashCommandInfo }
+  | { kind: 'template'; template: PromptTemplate; command: string };
+
+/**
+ * Recognizes a built-in command typed into the composer. Anything else starting with a slash,
+ * e.g. a file path, is sent as a normal message.
+ */
+export const parseSlashCommand = (input: string): ParsedSlashCommand | null => {
+  const match = /^\/([a-z]+)(?:\s+([\s\S]*))?$/i.exec(input.trim());
+  if (!match) return null;
+  const info = SLASH_COMMANDS.find(c => c.command === match[1].toLowerCase());
+  return info ? { command: info.command, argument: (match[2] || '').trim() } : null;
+};
+
+/**
+ * Commands and templates matching what has been typed after the slash. The menu is only shown
+ * while the first word is being typed.
+ */
+export const getSlashMenuItems = (input: string, templates: PromptTemplate[]): SlashMenuItem[] => {
+  const match = /^\/(\S*)$/.exec(input);
+  if (!match) return [];
+  const query = match[1].toLowerCase();
+
+  const commands: SlashMenuItem[] = SLASH_COMMANDS
+    .filter(info => info.command.startsWith(query))
+    .map(info => ({ kind: 'command', info }));
+  const matchingTemplates: SlashMenuItem[] = templates
+    .map(template => ({ kind: 'template' as const, template, command: getTemplateCommand(template) }))
+    .filter(item => item.command.includes(query) || item.template.name.toLowerCase().includes(query));
+  return [...commands, ...matchingTemplates];
+};
+
+const MODEL_ALIASES: Record<string, ModelIds> = {
+  flash: ModelIds.FLASH,
+  pro: ModelIds.PRO,
+};
+
+/**
+ * Turns the argument of /model into a model id. Gemini chats accept the short names; other
+ * providers take the id as typed, since their model lists are not known in advance.
+ */
+export const resolveModelArgument = (argument: string, provider: ProviderIds): string | null => {
+  const name = argument.toLowerCase();
+  // Own entries only, so typing e.g. "constructor" is not mistaken for an alias
+  const alias = Object.hasOwn(MODEL_ALIASES, name) ? MODEL_ALIASES[name] : undefined;
+  if (alias) return provider === ProviderIds.GEMINI ? alias : null;
+  if (provider === ProviderIds.GEMINI) {
+    return (Object.values(ModelIds) as string[]).includes(argument) ? argument : null;
+  }
+  return argument || null;
+};
+
+const EXPORT_FORMAT_ALIASES: Record<string, ExportFormat> = {
+  '': 'markdown',
+  markdown: 'markdown',
+  md: 'markdown',
+  html: 'html',
+  json: 'json',
+};
+
+export const resolveExportFormat = (argument: string): ExportFormat | null => {
+  const name = argument.toLowerCase();
+  return Object.hasOwn(EXPORT_FORMAT_ALIASES, name) ? EXPORT_FORMAT_ALIASES[name] : null;
+};
@@ -0,0 +1,74 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { ChatSession, Message, ModelIds, ProviderIds } from '../types';
+import { loadSessions, loadValue, saveSessionChanges, updateValue } from './storageService';
+import {
+  DEFAULT_CONTEXT_SETTINGS,
+  DEFAULT_ENABLED_TOOLS,
+  DEFAULT_GENERATION_SETTINGS,
+  DEFAULT_GROUNDING_SETTINGS,
+  DEFAULT_STRUCTURED_OUTPUT_SETTINGS,
+} from './sessionSettings';
+
+// Opening the database for the first time imports legacy data from localStorage, which Node lacks
+vi.stubGlobal('localStorage', { getItem: () => null, removeItem: () => {} });
+
+const toMessage = (id: string, parentId: string | null): Message => ({
+  id,
+  parentId,
+  role: parentId ? 'model' : 'user',
+  content: `Message ${id}`,
+  timestamp: 1760000000000,
+});
+
+const toSession = (id: string, messageIds: string[]): ChatSession => ({
+  id,
+  title: `Chat ${id}`,
+  createdAt: 1760000000000,
+  lastUpdated: 1760000000000,
+  settings: {
+    provider: ProviderIds.GEMINI,
+    model: ModelIds.FLASH,
+    systemInstruction: '',
+    generation: DEFAULT_GENERATION_SETTINGS,
+    context: DEFAULT_CONTEXT_SETTINGS,
+    enabledTools: DEFAULT_ENABLED_TOOLS,
+    grounding: DEFAULT_GROUNDING_SETTINGS,
+    structuredOutput: DEFAULT_STRUCTURED_OUTPUT_SETTINGS,
+  },
+  messages: messageIds.map((messageId, index) => toMessage(messageId, index === 0 ? null : messageIds[index - 1])),
+});
+
+describe('saveSessionChanges', () => {
+  it('writes only sessions and messages that changed', async () => {
+    const first = [toSession('a', ['a1', 'a2']), toSession('b', ['b1'])];
+    await saveSessionChanges(null, first);
+
+    const second = [first[0], { ...first[1], messages: [...first[1].messages, toMessage('b2', 'b1')] }];
+    const changes = await saveSessionChanges(first, second);
+
+    expect(changes.sessions.map(s => s.id)).toEqual(['b']);
+    expect(changes.messages.map(m => m.message.id)).toEqual(['b2']);
+    expect(await loadSessions()).toEqual(second);
+  });
+
+  it('drops chats and messages deleted while saves were failing on a full sync', async () => {
+    await saveSessionChanges(null, [toSession('kept', ['k1', 'k2']), toSession('deleted', ['d1'])]);
+
+    const changes = await saveSessionChanges(null, [toSession('kept', ['k1'])]);
+
+    expect(changes.deletedSessionIds).toEqual(expect.arrayContaining(['deleted']));
+    expect(changes.deletedMessageIds).toEqual(expect.arrayContaining(['k2', 'd1']));
+    expect(await loadSessions()).toEqual([toSession('kept', ['k1'])]);
+  });
+});
+
+describe('updateValue', () => {
+  it('applies updates made at the same time one after another', async () => {
+    const add = (amount: number) => updateValue<number>('counter', value => (value ?? 0) + amount);
+
+    await Promise.all([add(1), add(2), add(3)]);
+
+    expect(await loadValue<number>('counter')).toBe(6);
+  });
+});
@@ -0,0 +1,291 @@
+import { ChatSession, Message } from "../types";
+
+const DB_NAME = 'gemini_chat';
+const DB_VERSION = 2;
+
+const STORE_SESSIONS = 'sessions';
+const STORE_MESSAGES = 'messages';
+const STORE_VALUES = 'values';
+
+// Keys written by versions of the app that kept everything in localStorage
+const LEGACY_KEY_SESSIONS = 'gemini_chat_sessions';
+const LEGACY_KEY_SETTINGS = 'gemini_chat_settings';
+const LEGACY_KEY_PRESETS = 'gemini_chat_presets';
+
+export const VALUE_KEY_SETTINGS = 'settings';
+export const VALUE_KEY_PRESETS = 'presets';
+export const VALUE_KEY_TEMPLATES = 'templates';
+export const VALUE_KEY_SCHEMAS = 'schemas';
+export const VALUE_KEY_USAGE = 'usage';
+
+// Sessions and messages are stored separately so a streamed chunk only rewrites one message
+export type StoredSession = Omit<ChatSession, 'messages'>;
+
+// What a save wrote, so other tabs can apply the same changes without reloading
+export interface SessionChanges {
+  sessions: StoredSession[];
+  messages: { sessionId: string; message: Message }[];
+  deletedSessionIds: string[];
+  deletedMessageIds: string[];
+}
+
+interface StoredMessage extends Message {
+  sessionId: string;
+  position: number;
+}
+
+interface StoredValue {
+  key: string;
+  value: unknown;
+}
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+const toStoredSession = ({ messages, ...session }: ChatSession): StoredSession => session;
+
+const toStoredMessage = (message: Message, sessionId: string, position: number): StoredMessage => ({
+  ...message,
+  sessionId,
+  position,
+});
+
+const fromStoredMessage = ({ sessionId, position, ...message }: StoredMessage): Message => message;
+
+/**
+ * Copies data from the old localStorage keys into the database.
+ * Keys are only removed once the upgrade transaction commits, and a key that fails to parse
+ * is left in place so nothing is lost.
+ */
+const importLegacyLocalStorage: Migration = (_db, transaction) => {
+  const importedKeys: string[] = [];
+
+  const readLegacy = (key: string): unknown => {
+    const raw = localStorage.getItem(key);
+    if (raw === null) return undefined;
+    try {
+      const parsed = JSON.parse(raw);
+      importedKeys.push(key);
+      return parsed;
+    } catch (e) {
+      console.error(`Failed to parse legacy ${key}, leaving it in localStorage`, e);
+      return undefined;
+    }
+  };
+
+  const sessions = readLegacy(LEGACY_KEY_SESSIONS);
+  if (Array.isArray(sessions)) {
+    const sessionStore = transaction.objectStore(STORE_SESSIONS);
+    const messageStore = transaction.objectStore(STORE_MESSAGES);
+    for (const session of sessions as ChatSession[]) {
+      sessionStore.put(toStoredSession(session));
+      (session.messages || []).forEach((message, position) => {
+        messageStore.put(toStoredMessage(message, session.id, position));
+      });
+    }
+  }
+
+  const valueStore = transaction.objectStore(STORE_VALUES);
+  const settings = readLegacy(LEGACY_KEY_SETTINGS);
+  if (settings !== undefined) valueStore.put({ key: VALUE_KEY_SETTINGS, value: settings });
+  const presets = readLegacy(LEGACY_KEY_PRESETS);
+  if (presets !== undefined) valueStore.put({ key: VALUE_KEY_PRESETS, value: presets });
+
+  transaction.addEventListener('complete', () => {
+    importedKeys.forEach(key => localStorage.removeItem(key));
+  });
+};
+
+/**
+ * Schema migrations, keyed by the version they upgrade to. They run in order inside the
+ * upgrade transaction, so a fresh install and an old database end up with the same schema.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  1: (db) => {
+    db.createObjectStore(STORE_SESSIONS, { keyPath: 'id' });
+    const messageStore = db.createObjectStore(STORE_MESSAGES, { keyPath: 'id' });
+    messageStore.createIndex('sessionId', 'sessionId', { unique: false });
+    db.createObjectStore(STORE_VALUES, { keyPath: 'key' });
+  },
+  2: importLegacyLocalStorage,
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionToPromise = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    // Quota errors surface on the transaction rather than on individual requests
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) return databasePromise;
+
+  databasePromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        MIGRATIONS[version]?.(db, transaction);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version of the app in another tab upgrade the schema
+      db.onversionchange = () => {
+        db.close();
+        databasePromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+    request.onblocked = () => console.warn("Database upgrade is blocked by another open tab");
+  });
+
+  return databasePromise;
+};
+
+/**
+ * Returns true when a storage failure was caused by running out of quota.
+ */
+export const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+/**
+ * Loads every session with its messages in their original order.
+ */
+export const loadSessions = async (): Promise<ChatSession[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORE_SESSIONS, STORE_MESSAGES], 'readonly');
+  const [sessions, messages] = await Promise.all([
+    requestToPromise<StoredSession[]>(transaction.objectStore(STORE_SESSIONS).getAll()),
+    requestToPromise<StoredMessage[]>(transaction.objectStore(STORE_MESSAGES).getAll()),
+  ]);
+
+  const messagesBySession = new Map<string, StoredMessage[]>();
+  for (const message of messages) {
+    const list = messagesBySession.get(message.sessionId) || [];
+    list.push(message);
+    messagesBySession.set(message.sessionId, list);
+  }
+
+  return sessions.map(session => ({
+    ...session,
+    messages: (messagesBySession.get(session.id) || [])
+      .sort((a, b) => a.position - b.position)
+      .map(fromStoredMessage),
+  }));
+};
+
+/**
+ * Writes only what changed between two snapshots of the session list. State updates are
+ * immutable, so unchanged sessions and messages keep their identity and are skipped.
+ * Pass `null` as the previous snapshot to rewrite everything, e.g. after a failed save.
+ * Resolves with what was written once the transaction commits.
+ */
+export const saveSessionChanges = async (prev: ChatSession[] | null, next: ChatSession[]): Promise<SessionChanges> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORE_SESSIONS, STORE_MESSAGES], 'readwrite');
+  const sessionStore = transaction.objectStore(STORE_SESSIONS);
+  const messageStore = transaction.objectStore(STORE_MESSAGES);
+  const done = transactionToPromise(transaction);
+  const changes: SessionChanges = { sessions: [], messages: [], deletedSessionIds: [], deletedMessageIds: [] };
+
+  if (prev === null) {
+    // Full sync: anything stored that is not in the new snapshot was deleted while saves were
+    // failing. Sessions created in other tabs reach this tab through sync, so they are in the snapshot.
+    const nextSessionIds = new Set(next.map(s => s.id));
+    const nextMessageIds = new Set(next.flatMap(s => s.messages.map(m => m.id)));
+    const [sessionKeys, messageKeys] = await Promise.all([
+      requestToPromise(sessionStore.getAllKeys()),
+      requestToPromise(messageStore.getAllKeys()),
+    ]);
+    sessionKeys.filter(key => !nextSessionIds.has(key as string)).forEach(key => {
+      sessionStore.delete(key);
+      changes.deletedSessionIds.push(key as string);
+    });
+    messageKeys.filter(key => !nextMessageIds.has(key as string)).forEach(key => {
+      messageStore.delete(key);
+      changes.deletedMessageIds.push(key as string);
+    });
+  }
+
+  const prevById = new Map((prev || []).map(s => [s.id, s]));
+
+  for (const session of next) {
+    const prevSession = prevById.get(session.id);
+    prevById.delete(session.id);
+    if (prevSession === session) continue;
+
+    const storedSession = toStoredSession(session);
+    sessionStore.put(storedSession);
+    changes.sessions.push(storedSession);
+
+    const prevMessages = new Map((prevSession?.messages || []).map((m, position) => [m.id, { message: m, position }]));
+    session.messages.forEach((message, position) => {
+      const previous = prevMessages.get(message.id);
+      prevMessages.delete(message.id);
+      if (previous && previous.message === message && previous.position === position) return;
+      messageStore.put(toStoredMessage(message, session.id, position));
+      changes.messages.push({ sessionId: session.id, message });
+    });
+    prevMessages.forEach((_, id) => {
+      messageStore.delete(id);
+      changes.deletedMessageIds.push(id);
+    });
+  }
+
+  // Whatever is left was deleted from the list
+  prevById.forEach(session => {
+    sessionStore.delete(session.id);
+    session.messages.forEach(m => messageStore.delete(m.id));
+    changes.deletedSessionIds.push(session.id);
+  });
+
+  await done;
+  return changes;
+};
+
+export const loadValue = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_VALUES, 'readonly');
+  const record = await requestToPromise<StoredValue | undefined>(transaction.objectStore(STORE_VALUES).get(key));
+  return record?.value as T | undefined;
+};
+
+export const saveValue = async (key: string, value: unknown): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_VALUES, 'readwrite');
+  const done = transactionToPromise(transaction);
+  transaction.objectStore(STORE_VALUES).put({ key, value });
+  return done;
+};
+
+/**
+ * Reads and rewrites a value in one transaction, so tabs changing it at the same time do not
+ * overwrite each other's changes. Resolves with the new value once it is saved.
+ */
+export const updateValue = async <T>(key: string, update: (value: T | undefined) => T): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_VALUES, 'readwrite');
+  const store = transaction.objectStore(STORE_VALUES);
+  const done = transactionToPromise(transaction);
+  const record = await requestToPromise<StoredValue | undefined>(store.get(key));
+  const value = update(record?.value as T | undefined);
+  store.put({ key, value });
+  await done;
+  return value;
+};
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { ChatSession, Message, ModelIds, ProviderIds } from '../types';
+import { SessionChanges, StoredSession } from './storageService';
+import { acquireStreamLock, createSessionChangeApplier, getChangedSessionIds, hasSessionChanges } from './syncService';
+import {
+  DEFAULT_CONTEXT_SETTINGS,
+  DEFAULT_ENABLED_TOOLS,
+  DEFAULT_GENERATION_SETTINGS,
+  DEFAULT_GROUNDING_SETTINGS,
+  DEFAULT_STRUCTURED_OUTPUT_SETTINGS,
+} from './sessionSettings';
+
+const message = (id: string, content = id, parentId: string | null = null): Message => ({
+  id,
+  parentId,
+  role: 'user',
+  content,
+  timestamp: 0,
+});
+
+const record = (id: string, changes: Partial<StoredSession> = {}): StoredSession => ({
+  id,
+  title: `Chat ${id}`,
+  createdAt: 0,
+  lastUpdated: 0,
+  settings: {
+    provider: ProviderIds.GEMINI,
+    model: ModelIds.FLASH,
+    systemInstruction: '',
+    generation: DEFAULT_GENERATION_SETTINGS,
+    context: DEFAULT_CONTEXT_SETTINGS,
+    enabledTools: DEFAULT_ENABLED_TOOLS,
+    grounding: DEFAULT_GROUNDING_SETTINGS,
+    structuredOutput: DEFAULT_STRUCTURED_OUTPUT_SETTINGS,
+  },
+  ...changes,
+});
+
+const session = (id: string, messages: Message[], changes: Partial<StoredSession> = {}): ChatSession => ({
+  ...record(id, changes),
+  messages,
+});
+
+const noChanges = (): SessionChanges => ({ sessions: [], messages: [], deletedSessionIds: [], deletedMessageIds: [] });
+
+describe('createSessionChangeApplier', () => {
+  it('returns the same list when the changes do not touch it', () => {
+    const sessions = [session('a', [message('a1')])];
+    const changes = { ...noChanges(), messages: [{ sessionId: 'other', message: message('o1') }] };
+
+    expect(createSessionChangeApplier(changes)(sessions)).toBe(sessions);
+  });
+
+  it('merges messages by id, keeping local ones the other tab does not know', () => {
+    const local = session('a', [message('a1'), message('a2', 'local draft', 'a1')]);
+    const apply = createSessionChangeApplier({
+      ...noChanges(),
+      sessions: [record('a', { title: 'Renamed', lastUpdated: 5 })],
+      messages: [
+        { sessionId: 'a', message: message('a1', 'edited elsewhere') },
+        { sessionId: 'a', message: message('a3', 'new elsewhere', 'a1') },
+      ],
+    });
+
+    const [merged] = apply([local]);
+
+    expect(merged.title).toBe('Renamed');
+    expect(merged.messages.map(m => [m.id, m.content])).toEqual([
+      ['a1', 'edited elsewhere'],
+      ['a2', 'local draft'],
+      ['a3', 'new elsewhere'],
+    ]);
+  });
+
+  it('removes deleted sessions and messages and adds sessions created elsewhere', () => {
+    const sessions = [session('a', [message('a1'), message('a2')]), session('b', [message('b1')])];
+    const apply = createSessionChangeApplier({
+      ...noChanges(),
+      sessions: [record('c')],
+      messages: [{ sessionId: 'c', message: message('c1') }],
+      deletedSessionIds: ['b'],
+      deletedMessageIds: ['a2'],
+    });
+
+    const next = apply(sessions);
+
+    expect(next.map(s => [s.id, s.messages.map(m => m.id)])).toEqual([
+      ['c', ['c1']],
+      ['a', ['a1']],
+    ]);
+  });
+
+  it('gives the same objects for the same input, so state and saved snapshot stay identical', () => {
+    const sessions = [session('a', [message('a1')])];
+    const apply = createSessionChangeApplier({ ...noChanges(), messages: [{ sessionId: 'a', message: message('a2') }] });
+
+    expect(apply(sessions)[0]).toBe(apply(sessions)[0]);
+  });
+
+  it('keeps the messages and branch of a session this tab is streaming into', async () => {
+    const release = await acquireStreamLock('streaming');
+    try {
+      const local = session('streaming', [message('s1'), message('s2', 'partial reply…', 's1')], { activeLeafId: 's2', lastUpdated: 9 });
+      const apply = createSessionChangeApplier({
+        ...noChanges(),
+        sessions: [record('streaming', { title: 'Renamed', activeLeafId: 's1', lastUpdated: 3 })],
+        messages: [{ sessionId: 'streaming', message: message('s2', 'stale copy', 's1') }],
+      });
+
+      const [merged] = apply([local]);
+
+      expect(merged.title).toBe('Renamed');
+      expect(merged.activeLeafId).toBe('s2');
+      expect(merged.lastUpdated).toBe(9);
+      expect(merged.messages[1].content).toBe('partial reply…');
+    } finally {
+      release?.();
+    }
+  });
+});
+
+describe('session change helpers', () => {
+  it('tell whether a save changed anything and which sessions it touched', () => {
+    const changes: SessionChanges = {
+      sessions: [record('a')],
+      messages: [{ sessionId: 'b', message: message('b1') }],
+      deletedSessionIds: ['c'],
+      deletedMessageIds: ['x'],
+    };
+
+    expect(hasSessionChanges(noChanges())).toBe(false);
+    expect(hasSessionChanges({ ...noChanges(), deletedMessageIds: ['x'] })).toBe(true);
+    expect(getChangedSessionIds(changes)).toEqual(new Set(['a', 'b', 'c']));
+  });
+});
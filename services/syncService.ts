@@ -0,0 +1,229 @@
+import { ChatSession, Message } from "../types";
+import { SessionChanges } from "./storageService";
+
+const CHANNEL_NAME = 'gemini_chat_sync';
+const STREAM_LOCK_PREFIX = 'gemini_chat_stream:';
+
+export type SyncMessage =
+  | { type: 'sessions'; changes: SessionChanges }
+  // A persisted value such as settings, presets or templates was replaced
+  | { type: 'value'; key: string; value: unknown }
+  // A tab started or stopped streaming into a session
+  | { type: 'locks' };
+
+let channel: BroadcastChannel | null = null;
+
+// Sessions this tab is streaming into
+const ownLocks = new Set<string>();
+// Locks held by other tabs that a waiter is already queued on
+const watchedLocks = new Set<string>();
+
+// Tabs without BroadcastChannel support simply work on their own
+const getChannel = (): BroadcastChannel | null => {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+};
+
+/**
+ * Tells the other open tabs about a change. A tab never receives its own messages.
+ */
+export const publishSync = (message: SyncMessage) => {
+  try {
+    getChannel()?.postMessage(message);
+  } catch (error) {
+    // Only fails for values that cannot be cloned; the other tabs catch up on their next load
+    console.error("Failed to notify other tabs", error);
+  }
+};
+
+export const subscribeSync = (listener: (message: SyncMessage) => void): (() => void) => {
+  const target = getChannel();
+  if (!target) return () => {};
+  const onMessage = (event: MessageEvent<SyncMessage>) => listener(event.data);
+  target.addEventListener('message', onMessage);
+  return () => target.removeEventListener('message', onMessage);
+};
+
+export const hasSessionChanges = (changes: SessionChanges): boolean =>
+  changes.sessions.length > 0 ||
+  changes.messages.length > 0 ||
+  changes.deletedSessionIds.length > 0 ||
+  changes.deletedMessageIds.length > 0;
+
+export const getChangedSessionIds = (changes: SessionChanges): Set<string> =>
+  new Set([
+    ...changes.sessions.map(s => s.id),
+    ...changes.messages.map(m => m.sessionId),
+    ...changes.deletedSessionIds,
+  ]);
+
+/**
+ * Returns a function that applies changes saved by another tab to a session list.
+ * Messages are merged by id, so replies streamed in this tab are never replaced. A session this
+ * tab is streaming into keeps its own messages, active branch and timestamps, and only picks up
+ * the other tab's renames and organization.
+ * The function returns the same objects when nothing changed and caches its results, so applying it
+ * to both the state and the last saved snapshot makes them identical and nothing is saved again.
+ */
+export const createSessionChangeApplier = (changes: SessionChanges) => {
+  const deletedSessionIds = new Set(changes.deletedSessionIds);
+  const deletedMessageIds = new Set(changes.deletedMessageIds);
+  const recordsById = new Map(changes.sessions.map(record => [record.id, record]));
+  const messagesBySession = new Map<string, Message[]>();
+  for (const { sessionId, message } of changes.messages) {
+    messagesBySession.set(sessionId, [...(messagesBySession.get(sessionId) || []), message]);
+  }
+
+  const cache = new Map<ChatSession, ChatSession>();
+
+  const applyToSession = (session: ChatSession): ChatSession => {
+    const record = recordsById.get(session.id);
+    const remoteMessages = messagesBySession.get(session.id) || [];
+    const isStreamingHere = ownLocks.has(session.id);
+    const hasDeletions = session.messages.some(m => deletedMessageIds.has(m.id));
+    if (!record && remoteMessages.length === 0 && !hasDeletions) return session;
+
+    const cached = cache.get(session);
+    if (cached) return cached;
+
+    let messages = session.messages.filter(m => !deletedMessageIds.has(m.id));
+    const localIds = new Set(messages.map(m => m.id));
+    if (!isStreamingHere) {
+      const remoteById = new Map(remoteMessages.map(m => [m.id, m]));
+      messages = messages.map(m => remoteById.get(m.id) ?? m);
+    }
+    messages = [...messages, ...remoteMessages.filter(m => !localIds.has(m.id))];
+
+    const merged: ChatSession = record
+      ? isStreamingHere
+        ? { ...record, messages, activeLeafId: session.activeLeafId, lastUpdated: session.lastUpdated, contextSummary: session.contextSummary }
+        : { ...record, messages }
+      : { ...session, messages };
+    cache.set(session, merged);
+    return merged;
+  };
+
+  return (sessions: ChatSession[]): ChatSession[] => {
+    let changed = false;
+    const next = sessions.flatMap(session => {
+      if (deletedSessionIds.has(session.id)) {
+        changed = true;
+        return [];
+      }
+      const applied = applyToSession(session);
+      if (applied !== session) changed = true;
+      return [applied];
+    });
+
+    // Sessions created in another tab
+    const knownIds = new Set(sessions.map(s => s.id));
+    for (const record of changes.sessions) {
+      if (knownIds.has(record.id) || deletedSessionIds.has(record.id)) continue;
+      next.unshift({ ...record, messages: messagesBySession.get(record.id) || [] });
+      changed = true;
+    }
+    return changed ? next : sessions;
+  };
+};
+
+const getLockName = (sessionId: string) => `${STREAM_LOCK_PREFIX}${sessionId}`;
+
+const hasLocksApi = () => typeof navigator !== 'undefined' && !!navigator.locks;
+
+// Watchers in other tabs briefly hold a shared lock after a stream ends, so a busy lock is retried
+const LOCK_ATTEMPTS = 3;
+const LOCK_RETRY_DELAY_MS = 50;
+
+const requestStreamLock = (sessionId: string): Promise<(() => void) | null> =>
+  new Promise(resolve => {
+    navigator.locks.request(getLockName(sessionId), { ifAvailable: true }, lock => {
+      if (!lock) {
+        resolve(null);
+        return;
+      }
+      ownLocks.add(sessionId);
+      publishSync({ type: 'locks' });
+      // Held until the returned function is called
+      return new Promise<void>(release => {
+        resolve(() => {
+          ownLocks.delete(sessionId);
+          release();
+          // Sent once the lock is free, so other tabs see it released when they look
+          setTimeout(() => publishSync({ type: 'locks' }), 0);
+        });
+      });
+    }).catch(error => {
+      console.error("Failed to acquire the stream lock", error);
+      resolve(() => ownLocks.delete(sessionId));
+    });
+  });
+
+/**
+ * Claims the right to stream into a session. Resolves with a release function, or null when
+ * another tab is already streaming into it. The browser releases the lock if the tab closes.
+ * Without the Web Locks API every request is granted.
+ */
+export const acquireStreamLock = async (sessionId: string): Promise<(() => void) | null> => {
+  if (!hasLocksApi()) {
+    ownLocks.add(sessionId);
+    return () => ownLocks.delete(sessionId);
+  }
+  for (let attempt = 1; ; attempt++) {
+    const release = await requestStreamLock(sessionId);
+    if (release || attempt >= LOCK_ATTEMPTS || (await getLockedSessionIds()).has(sessionId)) return release;
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_DELAY_MS));
+  }
+};
+
+/**
+ * Lists the sessions other tabs are streaming into.
+ */
+export const getLockedSessionIds = async (): Promise<Set<string>> => {
+  if (!hasLocksApi()) return new Set();
+  const { held = [] } = await navigator.locks.query();
+  return new Set(
+    held
+      // Shared holders are other tabs waiting for the lock to be released
+      .filter(lock => lock.mode === 'exclusive')
+      .map(lock => lock.name || '')
+      .filter(name => name.startsWith(STREAM_LOCK_PREFIX))
+      .map(name => name.slice(STREAM_LOCK_PREFIX.length))
+      .filter(sessionId => !ownLocks.has(sessionId))
+  );
+};
+
+/**
+ * Calls back with the sessions other tabs are streaming into whenever that changes. Besides the
+ * tabs' own notifications, it waits on each held lock, which also catches tabs that were closed
+ * mid-stream.
+ */
+export const watchStreamLocks = (onChange: (sessionIds: Set<string>) => void): (() => void) => {
+  let isActive = true;
+
+  const refresh = async () => {
+    if (!hasLocksApi()) return;
+    const locked = await getLockedSessionIds();
+    if (!isActive) return;
+    onChange(locked);
+    for (const sessionId of locked) {
+      if (watchedLocks.has(sessionId)) continue;
+      watchedLocks.add(sessionId);
+      // Granted once the other tab lets go; released again right away
+      navigator.locks.request(getLockName(sessionId), { mode: 'shared' }, () => {
+        watchedLocks.delete(sessionId);
+        if (isActive) refresh();
+      }).catch(() => watchedLocks.delete(sessionId));
+    }
+  };
+
+  const unsubscribe = subscribeSync(message => {
+    if (message.type === 'locks') refresh();
+  });
+  refresh();
+  return () => {
+    isActive = false;
+    unsubscribe();
+  };
+};
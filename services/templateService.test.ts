@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { PromptTemplate } from '../types';
+import { exportTemplates, fillTemplate, getTemplateCommand, getTemplateVariables, importTemplates } from './templateService';
+
+const template = (name: string, content: string): PromptTemplate => ({ id: `id-${name}`, name, content, createdAt: 1 });
+
+describe('getTemplateVariables', () => {
+  it('lists distinct variables in order of first use', () => {
+    expect(getTemplateVariables('{{ language }} code: {{code}} in {{language}} for {{target-version.1}}'))
+      .toEqual(['language', 'code', 'target-version.1']);
+    expect(getTemplateVariables('No {{}} or {{ {nested} }} placeholders')).toEqual([]);
+  });
+});
+
+describe('fillTemplate', () => {
+  it('replaces every use of a variable and leaves unknown ones as written', () => {
+    expect(fillTemplate('{{a}} and {{ a }} but {{b}}', { a: 'x' })).toBe('x and x but {{b}}');
+  });
+
+  it('inserts values literally', () => {
+    expect(fillTemplate('Say {{text}}', { text: '$& and $1' })).toBe('Say $& and $1');
+  });
+
+  it('does not fill variables from the object prototype', () => {
+    expect(fillTemplate('{{constructor}} {{toString}}', {})).toBe('{{constructor}} {{toString}}');
+  });
+});
+
+describe('getTemplateCommand', () => {
+  it('turns the name into a slash command word', () => {
+    expect(getTemplateCommand(template('Explain code', ''))).toBe('explain-code');
+    expect(getTemplateCommand(template('  C++ → Rust!  ', ''))).toBe('c-rust');
+    expect(getTemplateCommand(template('日本語', ''))).toBe('template');
+  });
+});
+
+describe('importTemplates', () => {
+  const existing = [template('Translate', 'Translate {{text}}')];
+
+  it('skips templates that already exist and gives the rest fresh ids', () => {
+    const file = exportTemplates([existing[0], template(' Review ', 'Review {{code}}'), { ...existing[0], content: 'Changed' }]);
+    const result = importTemplates(file.content, existing);
+
+    expect(result.duplicates).toBe(1);
+    expect(result.invalid).toBe(0);
+    expect(result.templates.map(t => [t.name, t.content])).toEqual([['Review', 'Review {{code}}'], ['Translate', 'Changed']]);
+    expect(result.templates.map(t => t.id)).not.toContain(existing[0].id);
+  });
+
+  it('counts templates without a name or content as invalid', () => {
+    const file = exportTemplates([{ ...template('', 'x') }, { id: 'x', name: 'No content' } as PromptTemplate]);
+
+    expect(importTemplates(file.content, [])).toMatchObject({ templates: [], invalid: 2 });
+  });
+
+  it('rejects files that are not template exports', () => {
+    expect(() => importTemplates('{', [])).toThrow('The file is not valid JSON.');
+    expect(() => importTemplates('{"format":"gemini-custom-chat","sessions":[]}', [])).toThrow('The file is not a template export.');
+    expect(() => importTemplates('{"format":"gemini-custom-chat-templates","version":99,"templates":[]}', []))
+      .toThrow('The file was exported by a newer version of the app.');
+  });
+});
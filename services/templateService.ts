@@ -0,0 +1,129 @@
+import { PromptTemplate } from "../types";
+import { ExportedFile } from "./exportService";
+
+// {{name}} placeholders; names may contain letters, digits, spaces, dots, dashes and underscores
+const VARIABLE_PATTERN = /\{\{\s*([\w .-]+?)\s*\}\}/g;
+
+const TEMPLATES_FORMAT_ID = 'gemini-custom-chat-templates';
+const TEMPLATES_VERSION = 1;
+
+interface TemplatesEnvelope {
+  format: typeof TEMPLATES_FORMAT_ID;
+  version: number;
+  exportedAt: number;
+  templates: PromptTemplate[];
+}
+
+export interface TemplateImportResult {
+  templates: PromptTemplate[];
+  // Templates that already exist with the same name and content
+  duplicates: number;
+  invalid: number;
+}
+
+// Seeded on first start so the slash menu is not empty
+export const DEFAULT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'builtin-explain-code',
+    name: 'Explain code',
+    content: 'Explain what the following {{language}} code does, step by step, and point out any bugs:\n\n```{{language}}\n{{code}}\n```',
+    createdAt: 0,
+  },
+  {
+    id: 'builtin-translate',
+    name: 'Translate',
+    content: 'Translate the following text into {{target language}}. Keep the formatting and only reply with the translation.\n\n{{text}}',
+    createdAt: 0,
+  },
+  {
+    id: 'builtin-summarize',
+    name: 'Summarize',
+    content: 'Summarize the following in {{length}} for {{audience}}:\n\n{{text}}',
+    createdAt: 0,
+  },
+];
+
+/**
+ * Lists the distinct variables of a template in the order they first appear.
+ */
+export const getTemplateVariables = (content: string): string[] =>
+  [...new Set([...content.matchAll(VARIABLE_PATTERN)].map(match => match[1]))];
+
+/**
+ * Replaces each placeholder with its value. Variables without a value are left as written.
+ */
+export const fillTemplate = (content: string, values: Record<string, string>): string =>
+  content.replace(VARIABLE_PATTERN, (placeholder, name: string) => (Object.hasOwn(values, name) ? values[name] : placeholder));
+
+/**
+ * The word a template is invoked with in the slash menu, e.g. "Explain code" becomes "explain-code".
+ */
+export const getTemplateCommand = (template: PromptTemplate): string =>
+  template.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'template';
+
+export const exportTemplates = (templates: PromptTemplate[]): ExportedFile => {
+  const envelope: TemplatesEnvelope = {
+    format: TEMPLATES_FORMAT_ID,
+    version: TEMPLATES_VERSION,
+    exportedAt: Date.now(),
+    templates,
+  };
+  return {
+    filename: `prompt-templates-${new Date().toISOString().slice(0, 10)}.json`,
+    content: JSON.stringify(envelope, null, 2),
+    mimeType: 'application/json',
+  };
+};
+
+const isValidTemplate = (value: unknown): value is PromptTemplate =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as PromptTemplate).id === 'string' &&
+  typeof (value as PromptTemplate).name === 'string' &&
+  (value as PromptTemplate).name.trim().length > 0 &&
+  typeof (value as PromptTemplate).content === 'string';
+
+/**
+ * Parses a template export. Templates that match an existing one by name and content are skipped;
+ * the rest get fresh ids so they never replace a template that was edited since.
+ */
+export const importTemplates = (text: string, existing: PromptTemplate[]): TemplateImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  const envelope = data as Partial<TemplatesEnvelope> | null;
+  if (!envelope || envelope.format !== TEMPLATES_FORMAT_ID || !Array.isArray(envelope.templates)) {
+    throw new Error("The file is not a template export.");
+  }
+  if (typeof envelope.version !== 'number' || envelope.version > TEMPLATES_VERSION) {
+    throw new Error("The file was exported by a newer version of the app.");
+  }
+
+  const known = new Set(existing.map(t => `${t.name}\u0000${t.content}`));
+  const result: TemplateImportResult = { templates: [], duplicates: 0, invalid: 0 };
+
+  for (const candidate of envelope.templates) {
+    if (!isValidTemplate(candidate)) {
+      result.invalid++;
+      continue;
+    }
+    const key = `${candidate.name}\u0000${candidate.content}`;
+    if (known.has(key)) {
+      result.duplicates++;
+      continue;
+    }
+    known.add(key);
+    result.templates.push({
+      id: crypto.randomUUID(),
+      name: candidate.name.trim(),
+      content: candidate.content,
+      createdAt: typeof candidate.createdAt === 'number' ? candidate.createdAt : Date.now(),
+    });
+  }
+
+  return result;
+};
@@ -0,0 +1,63 @@
+import { ToolCall, ToolContext, ToolDeclaration, ToolDefinition } from "../types";
+import { BUILTIN_TOOLS } from "./builtinTools";
+
+// Upper bound on call-and-respond rounds per reply, so a model stuck calling tools cannot loop forever
+export const MAX_TOOL_ROUNDS = 8;
+
+const registry = new Map<string, ToolDefinition>(BUILTIN_TOOLS.map(tool => [tool.name, tool]));
+
+/**
+ * Adds a tool to the registry, replacing any tool with the same name.
+ */
+export const registerTool = (tool: ToolDefinition) => {
+  registry.set(tool.name, tool);
+};
+
+export const getTool = (name: string): ToolDefinition | undefined => registry.get(name);
+
+export const listTools = (): ToolDefinition[] => [...registry.values()];
+
+/**
+ * Returns the declarations sent to the model for the enabled tools, skipping names no longer registered.
+ */
+export const getToolDeclarations = (enabledTools: string[]): ToolDeclaration[] =>
+  enabledTools
+    .map(name => registry.get(name))
+    .filter((tool): tool is ToolDefinition => !!tool)
+    .map(({ name, description, parameters }) => ({ name, description, parameters }));
+
+/**
+ * Checks that the model supplied every required argument, since models occasionally leave some out.
+ * Returns an error message, or null when the arguments are usable.
+ */
+const validateArgs = (tool: ToolDefinition, args: Record<string, unknown>): string | null => {
+  const missing = (tool.parameters.required || []).filter(name => args[name] === undefined || args[name] === null);
+  return missing.length > 0 ? `Missing required argument${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}.` : null;
+};
+
+/**
+ * Runs a tool call and returns it with its outcome. Failures are recorded on the call rather than thrown,
+ * because they are reported back to the model, which can often correct itself.
+ */
+export const executeToolCall = async (call: ToolCall, context: ToolContext): Promise<ToolCall> => {
+  const tool = registry.get(call.name);
+  if (!tool) {
+    return { ...call, status: 'error', error: `Unknown tool "${call.name}".` };
+  }
+  const invalid = validateArgs(tool, call.args);
+  if (invalid) {
+    return { ...call, status: 'error', error: invalid };
+  }
+  try {
+    const result = await tool.execute(call.args, context);
+    return { ...call, status: 'done', result };
+  } catch (error) {
+    return { ...call, status: 'error', error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * The payload returned to the model for a finished call.
+ */
+export const toToolResponse = (call: ToolCall): Record<string, unknown> =>
+  call.status === 'done' ? { output: call.result ?? null } : { error: call.error || 'The tool call did not complete.' };
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { ChatSession, Message, ModelIds, ProviderIds } from '../types';
+import {
+  addToUsageLedger,
+  buildUsageLedger,
+  DEFAULT_MODEL_PRICING,
+  estimateTokens,
+  getMessageCost,
+  getMonthKey,
+  getMonthlyUsage,
+  getSessionUsage,
+} from './usageService';
+import {
+  DEFAULT_CONTEXT_SETTINGS,
+  DEFAULT_ENABLED_TOOLS,
+  DEFAULT_GENERATION_SETTINGS,
+  DEFAULT_GROUNDING_SETTINGS,
+  DEFAULT_STRUCTURED_OUTPUT_SETTINGS,
+} from './sessionSettings';
+
+const usage = (promptTokens: number, outputTokens: number, thinkingTokens = 0) => ({ promptTokens, outputTokens, thinkingTokens });
+
+const reply = (id: string, timestamp: number, model: string | undefined, tokens = usage(1_000_000, 100_000)): Message => ({
+  id,
+  parentId: null,
+  role: 'model',
+  content: 'Reply',
+  timestamp,
+  ...(model ? { model } : {}),
+  usage: tokens,
+});
+
+const session: ChatSession = {
+  id: 'session',
+  title: 'Chat',
+  createdAt: 0,
+  lastUpdated: 0,
+  settings: {
+    provider: ProviderIds.GEMINI,
+    model: ModelIds.FLASH,
+    systemInstruction: '',
+    generation: DEFAULT_GENERATION_SETTINGS,
+    context: DEFAULT_CONTEXT_SETTINGS,
+    enabledTools: DEFAULT_ENABLED_TOOLS,
+    grounding: DEFAULT_GROUNDING_SETTINGS,
+    structuredOutput: DEFAULT_STRUCTURED_OUTPUT_SETTINGS,
+  },
+  messages: [
+    { id: 'prompt', parentId: null, role: 'user', content: 'Hi', timestamp: new Date(2026, 0, 31).getTime() },
+    reply('flash', new Date(2026, 0, 31).getTime(), ModelIds.FLASH),
+    reply('pro', new Date(2026, 1, 1).getTime(), ModelIds.PRO, usage(1_000_000, 0, 100_000)),
+    reply('local', new Date(2026, 1, 2).getTime(), 'llama3'),
+  ],
+};
+
+describe('getMessageCost', () => {
+  it('bills thinking as output at the model price', () => {
+    expect(getMessageCost(session.messages[1], DEFAULT_MODEL_PRICING)).toBeCloseTo(0.5 + 0.3);
+    expect(getMessageCost(session.messages[2], DEFAULT_MODEL_PRICING)).toBeCloseTo(2 + 1.2);
+  });
+
+  it('is unknown for unpriced models and replies without usage', () => {
+    expect(getMessageCost(session.messages[3], DEFAULT_MODEL_PRICING)).toBeNull();
+    expect(getMessageCost(session.messages[0], DEFAULT_MODEL_PRICING)).toBeNull();
+  });
+});
+
+describe('getSessionUsage', () => {
+  it('sums every reply and prices only the priced ones', () => {
+    const totals = getSessionUsage(session, DEFAULT_MODEL_PRICING);
+
+    expect(totals).toMatchObject({ promptTokens: 3_000_000, outputTokens: 200_000, thinkingTokens: 100_000, replies: 3 });
+    expect(totals.cost).toBeCloseTo(4);
+  });
+});
+
+describe('usage ledger', () => {
+  it('adds replies under their month and model', () => {
+    let ledger = addToUsageLedger({}, '2026-03', ModelIds.FLASH, usage(10, 5));
+    ledger = addToUsageLedger(ledger, '2026-03', ModelIds.FLASH, usage(20, 5, 3));
+    ledger = addToUsageLedger(ledger, '2026-03', ModelIds.PRO, usage(1, 1));
+
+    expect(ledger).toEqual({
+      '2026-03': {
+        [ModelIds.FLASH]: { promptTokens: 30, outputTokens: 10, thinkingTokens: 3, replies: 2 },
+        [ModelIds.PRO]: { promptTokens: 1, outputTokens: 1, thinkingTokens: 0, replies: 1 },
+      },
+    });
+  });
+
+  it('keeps monthly totals once the chats they came from are gone', () => {
+    const ledger = buildUsageLedger([session]);
+    const withoutChats = getMonthlyUsage(ledger, DEFAULT_MODEL_PRICING);
+
+    expect(withoutChats.map(({ month, replies }) => ({ month, replies }))).toEqual([
+      { month: '2026-02', replies: 2 },
+      { month: '2026-01', replies: 1 },
+    ]);
+    expect(withoutChats[0].cost).toBeCloseTo(3.2);
+    expect(withoutChats[1].cost).toBeCloseTo(0.8);
+  });
+
+  it('prices recorded usage with the current prices', () => {
+    const ledger = addToUsageLedger({}, getMonthKey(new Date(2026, 4, 9).getTime()), 'llama3', usage(1_000_000, 0));
+
+    expect(getMonthlyUsage(ledger, DEFAULT_MODEL_PRICING)[0]).toMatchObject({ month: '2026-05', cost: null });
+    expect(getMonthlyUsage(ledger, { llama3: { inputPerMillion: 1, outputPerMillion: 1 } })[0].cost).toBe(1);
+  });
+});
+
+describe('estimateTokens', () => {
+  it('counts text, attachments and the system instruction', () => {
+    const messages: Message[] = [{
+      id: 'm',
+      parentId: null,
+      role: 'user',
+      content: 'x'.repeat(40),
+      timestamp: 0,
+      attachments: [
+        { id: 'a', name: 'a.png', mimeType: 'image/png', size: 10, data: '' },
+        { id: 'b', name: 'b.txt', mimeType: 'text/plain', size: 400, data: '' },
+      ],
+    }];
+
+    expect(estimateTokens(messages, 'y'.repeat(8))).toBe(10 + 258 + 100 + 2);
+  });
+});
@@ -0,0 +1,159 @@
+import { Attachment, ChatSession, Message, ModelIds, ModelPricing, RecordedUsage, SessionSettings, TokenUsage, UsageLedger } from "../types";
+import { isImageAttachment, isTextAttachment } from "./attachmentService";
+
+// Input context limits of the Gemini models; other providers don't report theirs
+const CONTEXT_WINDOW_TOKENS: Record<ModelIds, number> = {
+  [ModelIds.FLASH]: 1_048_576,
+  [ModelIds.PRO]: 1_048_576,
+};
+
+// List prices in USD per million tokens at the time of writing; editable in settings
+export const DEFAULT_MODEL_PRICING: Record<ModelIds, ModelPricing> = {
+  [ModelIds.FLASH]: { inputPerMillion: 0.5, outputPerMillion: 3 },
+  [ModelIds.PRO]: { inputPerMillion: 2, outputPerMillion: 12 },
+};
+
+// Rough averages used when a provider cannot count tokens itself
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_IMAGE = 258;
+const TOKENS_PER_DOCUMENT = 1000;
+
+export interface UsageTotals extends TokenUsage {
+  // Number of replies that reported usage
+  replies: number;
+  // Null when none of the replies used a priced model
+  cost: number | null;
+}
+
+export interface MonthlyUsage extends UsageTotals {
+  // e.g. "2025-03"
+  month: string;
+}
+
+/**
+ * Returns the context limit of a model, or null when it is not known.
+ */
+export const getContextWindow = (settings: SessionSettings): number | null =>
+  CONTEXT_WINDOW_TOKENS[settings.model as ModelIds] ?? null;
+
+export const estimateTextTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const estimateAttachmentTokens = (attachment: Attachment): number => {
+  if (isImageAttachment(attachment)) return TOKENS_PER_IMAGE;
+  // The size is of the decoded file, so for text it is close to the character count
+  if (isTextAttachment(attachment)) return Math.ceil(attachment.size / CHARS_PER_TOKEN);
+  return TOKENS_PER_DOCUMENT;
+};
+
+/**
+ * Approximates the prompt size of a conversation for providers without a token counting endpoint.
+ */
+export const estimateTokens = (messages: Message[], systemInstruction = ''): number =>
+  messages.reduce(
+    (total, message) => total
+      + estimateTextTokens(message.content)
+      + (message.attachments || []).reduce((sum, a) => sum + estimateAttachmentTokens(a), 0)
+      + (message.toolCalls?.length ? estimateTextTokens(JSON.stringify(message.toolCalls)) : 0),
+    estimateTextTokens(systemInstruction)
+  );
+
+// Thinking tokens are billed as output; null when the model has no price
+const getUsageCost = (usage: TokenUsage, model: string, pricing: Record<string, ModelPricing>): number | null => {
+  const price = pricing[model];
+  if (!price) return null;
+  const { promptTokens, outputTokens, thinkingTokens } = usage;
+  return (promptTokens * price.inputPerMillion + (outputTokens + thinkingTokens) * price.outputPerMillion) / 1_000_000;
+};
+
+/**
+ * Estimated price of a reply in USD. Thinking tokens are billed as output.
+ * Returns null when the reply has no usage or its model has no price.
+ */
+export const getMessageCost = (message: Message, pricing: Record<string, ModelPricing>): number | null =>
+  message.usage && message.model ? getUsageCost(message.usage, message.model, pricing) : null;
+
+/**
+ * Adds the usage of one request to the usage of a reply, which spans several requests when tools are called.
+ */
+export const addTokenUsage = (total: TokenUsage | undefined, usage: TokenUsage): TokenUsage => total
+  ? {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    thinkingTokens: total.thinkingTokens + usage.thinkingTokens,
+  }
+  : usage;
+
+const emptyTotals = (): UsageTotals => ({ promptTokens: 0, outputTokens: 0, thinkingTokens: 0, replies: 0, cost: null });
+
+const addUsage = (totals: UsageTotals, usage: TokenUsage, replies: number, model: string, pricing: Record<string, ModelPricing>) => {
+  totals.promptTokens += usage.promptTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.thinkingTokens += usage.thinkingTokens;
+  totals.replies += replies;
+  const cost = getUsageCost(usage, model, pricing);
+  if (cost !== null) totals.cost = (totals.cost ?? 0) + cost;
+};
+
+/**
+ * Sums the usage of every reply in a session, including replies on other branches,
+ * since those were billed too.
+ */
+export const getSessionUsage = (session: ChatSession, pricing: Record<string, ModelPricing>): UsageTotals => {
+  const totals = emptyTotals();
+  for (const message of session.messages) {
+    if (message.usage) addUsage(totals, message.usage, 1, message.model || '', pricing);
+  }
+  return totals;
+};
+
+export const getMonthKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Adds the usage of one reply to the ledger under its month and model, returning a new ledger.
+ */
+export const addToUsageLedger = (ledger: UsageLedger, month: string, model: string, usage: TokenUsage): UsageLedger => {
+  const entry: RecordedUsage | undefined = ledger[month]?.[model];
+  return {
+    ...ledger,
+    [month]: { ...ledger[month], [model]: { ...addTokenUsage(entry, usage), replies: (entry?.replies ?? 0) + 1 } },
+  };
+};
+
+/**
+ * Builds a ledger from the replies in the given sessions, for data saved before usage was
+ * recorded separately from the chats.
+ */
+export const buildUsageLedger = (sessions: ChatSession[]): UsageLedger =>
+  sessions.flatMap(s => s.messages).reduce<UsageLedger>(
+    (ledger, message) => message.usage
+      ? addToUsageLedger(ledger, getMonthKey(message.timestamp), message.model || '', message.usage)
+      : ledger,
+    {}
+  );
+
+/**
+ * Totals the recorded usage by calendar month, newest month first. Costs use the current prices.
+ */
+export const getMonthlyUsage = (ledger: UsageLedger, pricing: Record<string, ModelPricing>): MonthlyUsage[] =>
+  Object.entries(ledger)
+    .map(([month, models]) => {
+      const entry: MonthlyUsage = { ...emptyTotals(), month };
+      for (const [model, usage] of Object.entries(models)) addUsage(entry, usage, usage.replies, model, pricing);
+      return entry;
+    })
+    .sort((a, b) => b.month.localeCompare(a.month));
+
+export const formatTokenCount = (tokens: number): string => {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0)}k`;
+  return `${(tokens / 1_000_000).toFixed(2)}M`;
+};
+
+export const formatCost = (usd: number): string => {
+  if (usd === 0) return '$0';
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+};
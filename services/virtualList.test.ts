@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { ESTIMATED_ITEM_HEIGHT, getItemOffsets, getVisibleRange } from './virtualList';
+
+describe('getItemOffsets', () => {
+  it('stacks measured heights and estimates the rest', () => {
+    const heights = new Map([['a', 50], ['c', 30]]);
+
+    expect(getItemOffsets(['a', 'b', 'c'], heights)).toEqual([0, 50, 50 + ESTIMATED_ITEM_HEIGHT, 80 + ESTIMATED_ITEM_HEIGHT]);
+    expect(getItemOffsets([], heights)).toEqual([0]);
+  });
+});
+
+describe('getVisibleRange', () => {
+  // Ten items of 100px each
+  const offsets = Array.from({ length: 11 }, (_, i) => i * 100);
+
+  it('renders the items overlapping the viewport and pads the rest', () => {
+    expect(getVisibleRange(offsets, 250, 200, 0)).toEqual({ start: 2, end: 5, paddingTop: 200, paddingBottom: 500 });
+  });
+
+  it('extends the range by the overscan on both sides', () => {
+    expect(getVisibleRange(offsets, 250, 200, 100)).toEqual({ start: 1, end: 6, paddingTop: 100, paddingBottom: 400 });
+  });
+
+  it('leaves out items that only touch the viewport edge', () => {
+    expect(getVisibleRange(offsets, 300, 200, 0)).toMatchObject({ start: 3, end: 5 });
+  });
+
+  it('stays within the list at either end', () => {
+    expect(getVisibleRange(offsets, 0, 200, 500)).toEqual({ start: 0, end: 7, paddingTop: 0, paddingBottom: 300 });
+    expect(getVisibleRange(offsets, 5000, 200, 0)).toEqual({ start: 10, end: 10, paddingTop: 1000, paddingBottom: 0 });
+    expect(getVisibleRange([0], 0, 200, 0)).toEqual({ start: 0, end: 0, paddingTop: 0, paddingBottom: 0 });
+  });
+});
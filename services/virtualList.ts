@@ -0,0 +1,48 @@
+// Height assumed for items that have not been rendered yet
+export const ESTIMATED_ITEM_HEIGHT = 160;
+
+export interface VisibleRange {
+  // Index of the first rendered item and one past the last
+  start: number;
+  end: number;
+  // Space taken by the items left out above and below
+  paddingTop: number;
+  paddingBottom: number;
+}
+
+/**
+ * Top offset of every item, plus the total height as the last entry. Items without a measured
+ * height count as ESTIMATED_ITEM_HEIGHT.
+ */
+export const getItemOffsets = (ids: string[], heights: Map<string, number>): number[] => {
+  const offsets = [0];
+  for (const id of ids) {
+    offsets.push(offsets[offsets.length - 1] + (heights.get(id) ?? ESTIMATED_ITEM_HEIGHT));
+  }
+  return offsets;
+};
+
+/**
+ * Picks the items that overlap the viewport, extended by `overscan` pixels on both sides
+ * so fast scrolling does not show blank space.
+ */
+export const getVisibleRange = (
+  offsets: number[],
+  scrollTop: number,
+  viewportHeight: number,
+  overscan: number
+): VisibleRange => {
+  const count = offsets.length - 1;
+  const top = scrollTop - overscan;
+  const bottom = scrollTop + viewportHeight + overscan;
+  let start = 0;
+  while (start < count && offsets[start + 1] <= top) start++;
+  let end = start;
+  while (end < count && offsets[end] < bottom) end++;
+  return {
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: offsets[count] - offsets[end],
+  };
+};
@@ -1,24 +1,372 @@
 export interface Message {
   id: string;
+  // Messages form a tree: edits and regenerations add siblings under the same parent
+  parentId: string | null;
   role: 'user' | 'model';
   content: string;
+  attachments?: Attachment[];
   timestamp: number;
+  // Set on replies once they finish; failed replies are never sent back as context
+  status?: MessageStatus;
+  // Why the request failed, set together with the error status
+  error?: MessageError;
+  // Set when the user stopped generation before the model finished answering
+  interrupted?: boolean;
+  // Model that generated a reply, so its cost can be priced after the chat switches models
+  model?: string;
+  // Token counts reported for a reply
+  usage?: TokenUsage;
+  // Functions the model called while writing this reply, in call order
+  toolCalls?: ToolCall[];
+  // Web sources a grounded reply was based on, with the passages they support
+  grounding?: Grounding;
+  // Set on replies written side by side in compare mode
+  comparison?: MessageComparison;
+  // How long the reply took, measured from sending the request
+  latency?: MessageLatency;
+  // Set on replies requested as JSON in structured output mode
+  structured?: StructuredReply;
+  // Summaries of the model's thinking while writing the reply
+  thoughts?: string;
+}
+
+export interface MessageComparison {
+  // Shared by the replies compared with each other
+  groupId: string;
+  // Configuration that wrote this reply, e.g. "Gemini 3 Pro · temperature 0.2"
+  label: string;
+}
+
+export interface MessageLatency {
+  // Until the first text arrived; unset when the reply had no text
+  firstTokenMs?: number;
+  totalMs: number;
+}
+
+export interface StructuredReply {
+  // Name of the schema the reply was asked to follow
+  schemaName: string;
+  // Where the reply breaks the schema; unset until the reply is complete
+  errors?: SchemaError[];
+}
+
+export interface SchemaError {
+  // JSON pointer to the offending value, e.g. "/items/0/price"; empty for the whole reply
+  path: string;
+  message: string;
+}
+
+export type MessageStatus = 'complete' | 'error';
+
+// Why a request failed: decides the guidance shown and whether it is retried automatically
+export type ChatErrorKind = 'auth' | 'quota' | 'safety' | 'network' | 'server' | 'interrupted' | 'unknown';
+
+export interface MessageError {
+  kind: ChatErrorKind;
+  // Details from the provider, shown below the guidance
+  message: string;
+}
+
+export interface GroundingSource {
+  uri: string;
+  title: string;
+  domain?: string;
+}
+
+export interface Citation {
+  // Position in the reply content right after the supported passage, in characters
+  endIndex: number;
+  // Indices into Grounding.sources
+  sourceIndices: number[];
+}
+
+export interface Grounding {
+  sources: GroundingSource[];
+  citations: Citation[];
+  // Searches the model ran to find the sources
+  searchQueries: string[];
+}
+
+export type ToolCallStatus = 'pending' | 'awaiting-confirmation' | 'running' | 'done' | 'error' | 'denied';
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: ToolCallStatus;
+  // JSON-serializable output of a successful call
+  result?: unknown;
+  error?: string;
+  // Opaque token Gemini attaches to function calls; it must be sent back with the call in later turns
+  thoughtSignature?: string;
+}
+
+// The subset of JSON Schema that both Gemini and OpenAI-style APIs accept for function parameters
+export interface ToolParameterSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  properties?: Record<string, ToolParameterSchema>;
+  required?: string[];
+  items?: ToolParameterSchema;
+  enum?: string[];
+}
+
+// What the model is told about a tool
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: ToolParameterSchema;
+}
+
+// Data from the app that tools may read while running
+export interface ToolContext {
+  sessions: ChatSession[];
+  signal?: AbortSignal;
+}
+
+export interface ToolDefinition extends ToolDeclaration {
+  // Label for the settings and the call trace
+  title: string;
+  // Tools that read private data or run code ask the user before every call
+  requiresConfirmation: boolean;
+  execute: (args: Record<string, unknown>, context: ToolContext) => Promise<unknown>;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  // Visible answer tokens, not including thinking
+  outputTokens: number;
+  thinkingTokens: number;
+}
+
+// Prices in USD per million tokens; thinking tokens are billed as output
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface RecordedUsage extends TokenUsage {
+  replies: number;
+}
+
+// Usage keyed by month, e.g. "2025-03", then by model. Stored apart from the chats, so deleting
+// a chat does not erase what it cost.
+export type UsageLedger = Record<string, Record<string, RecordedUsage>>;
+
+// A file sent with a user message; the content is kept inline so it survives reloads
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  // Base64 encoded file content
+  data: string;
 }
 
 export interface ChatSession {
   id: string;
   title: string;
+  // Every message of every branch, in creation order
   messages: Message[];
+  // Last message of the branch currently shown; defaults to the newest message
+  activeLeafId?: string;
   createdAt: number;
   lastUpdated: number;
+  // Each chat keeps the settings it was started with, independent of the global defaults
+  settings: SessionSettings;
+  // Rolling summary of older messages, reused until more messages fall out of the context
+  contextSummary?: ContextSummary;
+  // Pinned chats are listed first within their folder
+  pinned?: boolean;
+  // Slash-separated folder path, e.g. "Work/Reports"; unset for chats at the top level
+  folder?: string;
+  // Archived chats are kept but listed separately from active ones
+  archived?: boolean;
+}
+
+// Metadata the chat list can change without touching the conversation
+export type SessionOrganization = Pick<ChatSession, 'pinned' | 'folder' | 'archived'>;
+
+export enum SessionSortOrders {
+  UPDATED = 'updated',
+  CREATED = 'created',
+  TITLE = 'title',
+  MESSAGES = 'messages',
+}
+
+export interface ContextSummary {
+  content: string;
+  // Last message folded into the summary; everything before it on the same branch is covered too
+  coveredMessageId: string;
+  createdAt: number;
+}
+
+export enum ContextStrategies {
+  FULL = 'full',
+  SLIDING_WINDOW = 'sliding-window',
+  PINNED_FIRST = 'pinned-first',
+  ROLLING_SUMMARY = 'rolling-summary',
+}
+
+export interface ContextSettings {
+  strategy: ContextStrategies;
+  // Estimated token budget for the system instruction and history sent with each message
+  maxTokens: number;
+}
+
+export enum HarmCategories {
+  HARASSMENT = 'HARM_CATEGORY_HARASSMENT',
+  HATE_SPEECH = 'HARM_CATEGORY_HATE_SPEECH',
+  SEXUALLY_EXPLICIT = 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+  DANGEROUS_CONTENT = 'HARM_CATEGORY_DANGEROUS_CONTENT',
+}
+
+export enum SafetyThresholds {
+  DEFAULT = 'HARM_BLOCK_THRESHOLD_UNSPECIFIED',
+  BLOCK_LOW_AND_ABOVE = 'BLOCK_LOW_AND_ABOVE',
+  BLOCK_MEDIUM_AND_ABOVE = 'BLOCK_MEDIUM_AND_ABOVE',
+  BLOCK_ONLY_HIGH = 'BLOCK_ONLY_HIGH',
+  BLOCK_NONE = 'BLOCK_NONE',
+  OFF = 'OFF',
 }
 
-export interface AppSettings {
+export interface GenerationSettings {
+  temperature: number;
+  topP: number;
+  topK: number;
+  maxOutputTokens: number;
+  stopSequences: string[];
+  // -1 lets the model decide how much to think, 0 disables thinking
+  thinkingBudget: number;
+  // Asks for summaries of the model's thinking, shown above the answer
+  includeThoughts: boolean;
+  safetySettings: Record<HarmCategories, SafetyThresholds>;
+}
+
+// Everything that shapes how the model behaves in a single chat
+export interface SessionSettings {
+  provider: ProviderIds;
+  model: string;
   systemInstruction: string;
+  generation: GenerationSettings;
+  context: ContextSettings;
+  // Names of the tools the model may call in this chat
+  enabledTools: string[];
+  grounding: GroundingSettings;
+  structuredOutput: StructuredOutputSettings;
+}
+
+// Asks for replies as JSON matching a schema instead of free text
+export interface StructuredOutputSettings {
+  enabled: boolean;
+  // Identifies the schema to the API, e.g. OpenAI's json_schema.name
+  name: string;
+  // JSON Schema as written by the user, kept as text so unfinished edits survive
+  schema: string;
+}
+
+// Provider-side tools that let the model look things up on the web before answering
+export interface GroundingSettings {
+  googleSearch: boolean;
+  // Lets the model read pages at URLs mentioned in the prompt
+  urlContext: boolean;
+}
+
+// A named, reusable set of session settings
+export interface PersonaPreset {
+  id: string;
+  name: string;
+  settings: SessionSettings;
+  createdAt: number;
+}
+
+// A reusable prompt; {{name}} placeholders are filled in before it is sent
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  content: string;
+  createdAt: number;
+}
+
+// A JSON schema saved for reuse in structured output mode
+export interface SavedSchema {
+  id: string;
+  name: string;
+  schema: string;
+  createdAt: number;
+}
+
+// One column in compare mode: the chat's settings with another provider, model or temperature
+export interface ComparisonTarget {
+  id: string;
+  provider: ProviderIds;
   model: string;
+  temperature: number;
+}
+
+// A Gemini API key entered in settings, so keys can be switched without rebuilding the app
+export interface ApiKeyProfile {
+  id: string;
+  name: string;
+  key: string;
+}
+
+// Global settings: the defaults for new chats plus provider connection details
+export interface AppSettings extends SessionSettings {
+  // Proxy that holds the Gemini key on a server; when set, no key is sent from the browser
+  geminiProxyUrl: string;
+  geminiKeyProfiles: ApiKeyProfile[];
+  // Profile whose key is used; null falls back to the key the app was built with
+  activeGeminiKeyProfileId: string | null;
+  // Only used by the OpenAI-compatible provider (OpenAI, Ollama, llama.cpp server, ...)
+  openAiBaseUrl: string;
+  openAiApiKey: string;
+  // Keyed by model id, used for cost estimates
+  pricing: Record<string, ModelPricing>;
+  chatListSort: SessionSortOrders;
 }
 
 export enum ModelIds {
   FLASH = 'gemini-3-flash-preview',
   PRO = 'gemini-3-pro-preview',
-}
\ No newline at end of file
+}
+
+export enum ProviderIds {
+  GEMINI = 'gemini',
+  OPENAI_COMPATIBLE = 'openai-compatible',
+  MOCK = 'mock',
+}
+
+// A single streamed update from a provider, normalized across backends
+export interface StreamChunk {
+  text?: string;
+  // Usage so far; providers usually report it once, with the last chunk
+  usage?: TokenUsage;
+  // Functions the model wants to call before it continues; answered with sendToolResults
+  toolCalls?: ToolCall[];
+  // Sources for the text so far; a later chunk replaces an earlier one
+  grounding?: Grounding;
+  // Summary of the model's thinking, streamed before the answer text
+  thought?: string;
+}
+
+export interface ChatSessionOptions extends SessionSettings {
+  history: Message[];
+  tools?: ToolDeclaration[];
+}
+
+// A stateful conversation with a backend; it keeps its own context between turns
+export interface ProviderChat {
+  sendMessageStream: (message: Message, signal?: AbortSignal) => Promise<AsyncIterable<StreamChunk>>;
+  // Returns the outcome of the calls requested by the previous stream and streams the continuation
+  sendToolResults: (calls: ToolCall[], signal?: AbortSignal) => Promise<AsyncIterable<StreamChunk>>;
+}
+
+export interface ChatProvider {
+  createChatSession: (options: ChatSessionOptions) => ProviderChat;
+  generateChatTitle: (firstMessage: string, model: string) => Promise<string>;
+  // Folds messages into a summary, merging in the previous summary when there is one
+  summarizeConversation: (messages: Message[], previousSummary: string | undefined, model: string) => Promise<string>;
+  // Prompt size of a conversation; an estimate for providers without a counting endpoint
+  countTokens: (options: ChatSessionOptions) => Promise<number>;
+}